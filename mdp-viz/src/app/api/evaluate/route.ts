@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mdpSchema } from '@/types/mdp';
+import { evaluatePolicyExact } from '@/lib/policyEvaluation';
+import { ApiError, errorResponse, parseBody, readJson, requirePolicyFits, requireState, requireValidMdp } from '@/lib/api';
+
+const evaluateRequestSchema = z.object({
+  mdp: mdpSchema,
+  policy: z.record(z.string(), z.string()), // state -> action
+  startState: z.string().optional(),
+  gamma: z.number().min(0).max(1).optional(),
+  solver: z.enum(['auto', 'dense', 'sparse']).default('auto'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { mdp, policy, startState = mdp.states[0], gamma, solver } =
+      parseBody(evaluateRequestSchema, await readJson(request));
+
+    requireValidMdp(mdp);
+    requireState(mdp, startState);
+
+    requirePolicyFits(mdp, policy);
+
+    let result;
+    try {
+      result = evaluatePolicyExact(mdp, policy, startState, { gamma, solver });
+    } catch (error) {
+      throw new ApiError('UNSOLVABLE', error instanceof Error ? error.message : String(error));
+    }
+
+    return NextResponse.json({ startState, result });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mdpSchema } from '@/types/mdp';
+import { optimizerAlgorithms, runOptimizer, type OptimizerAlgorithm } from '@/lib/optimizer';
+import { randomSeed } from '@/lib/rng';
+import {
+  API_LIMITS,
+  ApiError,
+  errorResponse,
+  optimizationConfigSchema,
+  parseBody,
+  readJson,
+  requireState,
+  requireValidMdp
+} from '@/lib/api';
+
+const riskAlgorithms = ['cvar', 'mean-variance', 'exponential-utility'];
+
+const optimizeRequestSchema = z.object({
+  mdp: mdpSchema,
+  algorithm: z.string(),
+  startState: z.string().optional(),
+  config: optimizationConfigSchema.default({}),
+}).superRefine(({ algorithm, config }, ctx) => {
+  if (riskAlgorithms.includes(algorithm) && (config.episodes ?? 0) > API_LIMITS.maxRiskEpisodes) {
+    ctx.addIssue({
+      code: 'too_big',
+      origin: 'number',
+      maximum: API_LIMITS.maxRiskEpisodes,
+      inclusive: true,
+      input: config.episodes,
+      path: ['config', 'episodes'],
+      message: `Risk-sensitive planning samples at most ${API_LIMITS.maxRiskEpisodes} episodes`,
+    });
+  }
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { mdp, algorithm, startState = mdp.states[0], config } =
+      parseBody(optimizeRequestSchema, await readJson(request));
+
+    if (!optimizerAlgorithms.includes(algorithm as OptimizerAlgorithm)) {
+      throw new ApiError('UNKNOWN_ALGORITHM', `Unknown algorithm "${algorithm}"`, { algorithms: optimizerAlgorithms });
+    }
+    requireValidMdp(mdp);
+    requireState(mdp, startState);
+
+    const seededConfig = { ...config, seed: config.seed ?? randomSeed() };
+    // Solvers throw when the model has no solution, e.g. a singular system or an infeasible LP
+    let result;
+    try {
+      result = await runOptimizer(algorithm as OptimizerAlgorithm, mdp, startState, seededConfig);
+    } catch (error) {
+      throw new ApiError('UNSOLVABLE', error instanceof Error ? error.message : String(error));
+    }
+
+    return NextResponse.json({ algorithm, startState, config: seededConfig, result });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
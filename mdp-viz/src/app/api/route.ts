@@ -1,20 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { optimizerAlgorithms } from '@/lib/optimizer';
 
 export async function GET() {
-  return NextResponse.json({ message: 'MDP API is running' });
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    return NextResponse.json({ 
-      message: 'Data received',
-      data: body 
-    });
-  } catch {
-    return NextResponse.json(
-      { error: 'Invalid JSON' },
-      { status: 400 }
-    );
-  }
+  return NextResponse.json({
+    message: 'MDP API is running',
+    endpoints: {
+      'POST /api/validate': 'Validate an MDP against the schema and probability mass rules',
+      'POST /api/simulate': 'Run a seeded Monte Carlo simulation',
+      'POST /api/optimize': 'Run an optimizer and return its result',
+      'POST /api/evaluate': 'Evaluate a policy exactly by solving the Bellman linear system',
+    },
+    algorithms: optimizerAlgorithms,
+  });
 }
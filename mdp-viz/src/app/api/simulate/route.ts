@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mdpSchema } from '@/types/mdp';
+import { runMonteCarlo, runMonteCarloAdaptive } from '@/lib/sim';
+import { createRng, randomSeed } from '@/lib/rng';
+import { API_LIMITS, errorResponse, parseBody, readJson, requirePolicyFits, requireState, requireValidMdp, simulationPolicySchema } from '@/lib/api';
+
+const simulateRequestSchema = z.object({
+  mdp: mdpSchema,
+  startState: z.string().optional(),
+  episodes: z.number().int().positive().max(API_LIMITS.maxEpisodes).default(1000),
+  maxSteps: z.number().int().positive().max(API_LIMITS.maxSteps).default(100),
+  seed: z.number().int().nonnegative().optional(),
+  policy: simulationPolicySchema.default({ kind: 'random' }),
+  targetHalfWidth: z.number().positive().optional(), // stop early once the mean reward is this precise; `episodes` is then the budget
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { mdp, startState = mdp.states[0], episodes, maxSteps, seed = randomSeed(), policy, targetHalfWidth } =
+      parseBody(simulateRequestSchema, await readJson(request));
+    requireValidMdp(mdp);
+    requireState(mdp, startState);
+    if (policy.kind === 'deterministic') requirePolicyFits(mdp, policy.policy);
+    if (policy.kind === 'time-indexed') policy.policies.forEach(stepPolicy => requirePolicyFits(mdp, stepPolicy));
+
+    const summary = targetHalfWidth === undefined
+      ? runMonteCarlo(mdp, startState, episodes, maxSteps, createRng(seed), policy)
+      : runMonteCarloAdaptive(mdp, startState, { targetHalfWidth, maxEpisodes: episodes }, maxSteps, createRng(seed), policy);
+
+    return NextResponse.json({ startState, seed, summary });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
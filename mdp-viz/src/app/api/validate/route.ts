@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { referenceErrors, validateInitialDistribution, validateTransitionMass, validateUncertainty } from '@/types/mdp';
+import { errorResponse, formatIssues, mdpRequestSchema, readJson } from '@/lib/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJson(request);
+    const parsed = mdpRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({
+        valid: false,
+        schemaErrors: formatIssues(parsed.error.issues),
+        massErrors: [],
+        referenceErrors: [],
+      });
+    }
+
+    const { mdp } = parsed.data;
+    const massErrors = [...validateTransitionMass(mdp), ...validateInitialDistribution(mdp), ...validateUncertainty(mdp)];
+    const refErrors = referenceErrors(mdp);
+
+    return NextResponse.json({
+      valid: massErrors.length === 0 && refErrors.length === 0,
+      schemaErrors: [],
+      massErrors,
+      referenceErrors: refErrors,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState, useCallback } from "react";
+import { useMemo, useState, useCallback, useRef, useEffect } from "react";
 import MDPGraph from "@/components/MDPGraph";
 import DistributionChart from "@/components/DistributionChart";
 import TerminalPie from "@/components/TerminalPie";
@@ -11,12 +11,34 @@ import AgentOptimizer from "@/components/AgentOptimizer";
 import InteractiveCharts from "@/components/InteractiveCharts";
 import HyperparameterTuner from "@/components/HyperparameterTuner";
 import MultiObjectiveOptimizer from "@/components/MultiObjectiveOptimizer";
+import SessionManager from "@/components/SessionManager";
+import MarkovChainPanel from "@/components/MarkovChainPanel";
+import QueryPanel from "@/components/QueryPanel";
+import SensitivityPanel from "@/components/SensitivityPanel";
+import PolicyComparisonPanel from "@/components/PolicyComparisonPanel";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { type MDP } from "@/types/mdp";
+import { criterionActionValues, type MDP } from "@/types/mdp";
 import { type PresetExample } from "@/lib/presets";
-import { runMonteCarlo } from "@/lib/sim";
-import { type OptimizationResult, type RobustOptimizationResult } from "@/lib/optimizer";
+import { describePolicy, randomPolicy, runMonteCarlo, simulationPolicyFor, type SimulationPolicy } from "@/lib/sim";
+import type { ReturnDistribution } from "@/lib/returnDistribution";
+import type { ConfidenceInterval } from "@/lib/statistics";
+import type { Policy } from "@/lib/stochasticPolicy";
+import type { QueryResult } from "@/lib/modelChecking";
+import type { RobustValueIterationResult } from "@/lib/robustMdp";
+import { randomSeed } from "@/lib/rng";
+import { runJob, isAbortError } from "@/lib/jobRunner";
+import { type SessionData } from "@/lib/sessions";
+import { buildPermalink, clearPermalinkFromLocation, decodePermalink, permalinkFromLocation } from "@/lib/permalink";
+import { type AgentAlgorithm, type OptimizationConfig, type OptimizationResult, type RobustOptimizationResult } from "@/lib/optimizer";
+
+type PolicyChoice = "random" | "optimized" | "epsilon-greedy" | "softmax";
+
+// Standard error and 95% bootstrap interval, as "SE 0.068 · [3.964, 4.228]"
+function formatInterval(interval: ConfidenceInterval, digits: number) {
+  const error = Number.isFinite(interval.standardError) ? `SE ${interval.standardError.toFixed(digits)} · ` : "";
+  return `${error}[${interval.lower.toFixed(digits)}, ${interval.upper.toFixed(digits)}]`;
+}
 
 export default function Home() {
   const [mdp, setMdp] = useState<MDP | null>(null);
@@ -24,10 +46,28 @@ export default function Home() {
   const [episodes, setEpisodes] = useState(1000);
   const [maxSteps, setMaxSteps] = useState(100);
   const [bins, setBins] = useState(30);
+  const [targetHalfWidth, setTargetHalfWidth] = useState<number | null>(null); // null runs exactly `episodes` episodes
+  const [seed, setSeed] = useState(42);
+  const [resultSeed, setResultSeed] = useState<number | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const simAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ReturnType<typeof runMonteCarlo> | null>(null);
+  const [exactReturns, setExactReturns] = useState<ReturnDistribution | null>(null); // the law the sampled returns should follow
   const [loadedPreset, setLoadedPreset] = useState<string | null>(null);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | RobustOptimizationResult | null>(null);
+  const [restoredOptimization, setRestoredOptimization] = useState<OptimizationResult | RobustOptimizationResult | null>(null);
+  const [optimizerSettings, setOptimizerSettings] = useState<{ algorithm: AgentAlgorithm; config: OptimizationConfig } | null>(null);
+  const [optimizedWith, setOptimizedWith] = useState<string | null>(null); // the algorithm behind optimizationResult, when known
+  const [linkedOptimizerSettings, setLinkedOptimizerSettings] = useState<{ algorithm: AgentAlgorithm; config: OptimizationConfig } | null>(null);
+  const [linkStatus, setLinkStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [policyChoice, setPolicyChoice] = useState<PolicyChoice>("random");
+  const [policyEpsilon, setPolicyEpsilon] = useState(0.1);
+  const [policyTemperature, setPolicyTemperature] = useState(1);
+  const [queryResult, setQueryResult] = useState<QueryResult | null>(null); // its scheduler is drawn on the graph
+
+  // Without an optimization result there is only the random agent to simulate
+  const activePolicyChoice: PolicyChoice = optimizationResult ? policyChoice : "random";
 
   const canSim = Boolean(mdp && mdp.states.includes(start));
 
@@ -60,17 +100,188 @@ export default function Home() {
     setLoadedPreset(null);
   }, []);
 
-  function handleSim() {
+  const sessionData = useMemo<SessionData>(() => ({
+    mdp,
+    loadedPreset,
+    settings: { startState: start, episodes, maxSteps, bins, seed, targetHalfWidth },
+    result,
+    resultSeed,
+    optimizationResult,
+    optimizerSettings,
+    optimizedWith,
+  }), [mdp, loadedPreset, start, episodes, maxSteps, bins, seed, targetHalfWidth, result, resultSeed, optimizationResult, optimizerSettings, optimizedWith]);
+
+  const handleRestoreSession = useCallback((data: SessionData) => {
+    simAbortRef.current?.abort();
+    setError(null);
+    setMdp(data.mdp);
+    setLoadedPreset(data.loadedPreset);
+    setStart(data.settings.startState);
+    setEpisodes(data.settings.episodes);
+    setMaxSteps(data.settings.maxSteps);
+    setBins(data.settings.bins);
+    setSeed(data.settings.seed);
+    setTargetHalfWidth(data.settings.targetHalfWidth ?? null);
+    setResult(data.result);
+    setResultSeed(data.resultSeed);
+    setOptimizationResult(data.optimizationResult);
+    setOptimizedWith(data.optimizedWith ?? null);
+    setRestoredOptimization(data.optimizationResult);
+    // Hand the saved settings to the optimizer panel too; older sessions keep the current ones
+    if (data.optimizerSettings) {
+      setOptimizerSettings(data.optimizerSettings);
+      setLinkedOptimizerSettings(data.optimizerSettings);
+    }
+  }, []);
+
+  const handleOptimizerSettingsChange = useCallback((algorithm: AgentAlgorithm, config: OptimizationConfig) => {
+    setOptimizerSettings({ algorithm, config });
+  }, []);
+
+  // Open a shared link once on load
+  useEffect(() => {
+    const payload = permalinkFromLocation();
+    if (!payload) return;
+    decodePermalink(payload)
+      .then(state => {
+        setMdp(state.mdp);
+        setLoadedPreset(null);
+        setResult(null);
+        setOptimizationResult(null);
+        setStart(state.startState);
+        setEpisodes(state.episodes);
+        setMaxSteps(state.maxSteps);
+        setBins(state.bins);
+        setTargetHalfWidth(state.targetHalfWidth ?? null);
+        if (state.seed !== undefined) setSeed(state.seed);
+        if (state.algorithm) {
+          setLinkedOptimizerSettings({ algorithm: state.algorithm, config: state.config ?? {} });
+        }
+        setLinkStatus({ ok: true, message: "Loaded model from shared link" });
+      })
+      .catch(err => setError(`Could not open shared link: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(clearPermalinkFromLocation);
+  }, []);
+
+  async function handleCopyLink() {
     if (!mdp) return;
-    setResult(runMonteCarlo(mdp, start, episodes, maxSteps));
+    try {
+      const url = await buildPermalink({
+        mdp,
+        startState: start,
+        episodes,
+        maxSteps,
+        bins,
+        seed,
+        ...(targetHalfWidth !== null && { targetHalfWidth }),
+        ...(optimizerSettings && {
+          algorithm: optimizerSettings.algorithm,
+          // NaN from a cleared input would not survive JSON
+          config: Object.fromEntries(
+            Object.entries(optimizerSettings.config).filter(([, v]) => typeof v === "boolean" || Number.isFinite(v))
+          ),
+        }),
+      });
+      await navigator.clipboard.writeText(url);
+      setLinkStatus({ ok: true, message: "Link copied to clipboard" });
+    } catch (err) {
+      setLinkStatus({ ok: false, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  // The optimizer's policy as it acts: a distribution over actions when the method randomises
+  const resultPolicy: Policy | null = optimizationResult
+    ? ("stochasticPolicy" in optimizationResult && optimizationResult.stochasticPolicy) || optimizationResult.bestPolicy
+    : null;
+
+  // The optimizer's policy as it acts
+  const optimizedPolicy = useMemo((): SimulationPolicy | null => {
+    if (!optimizationResult) return null;
+    if ("timePolicy" in optimizationResult) {
+      const policies = optimizationResult.timePolicy as Record<string, string>[];
+      return { kind: "time-indexed", policies, label: `Optimized policy (finite horizon, H = ${policies.length})` };
+    }
+    const source = "method" in optimizationResult ? optimizationResult.method : "optimized";
+    // Constrained optima and actor-critic policies randomise; simulate the distribution, not its mode
+    return simulationPolicyFor(resultPolicy ?? optimizationResult.bestPolicy, `Optimized policy (${source})`);
+  }, [optimizationResult, resultPolicy]);
+
+  // Offered to the comparison under the algorithm's name, so outputs of different optimizers stay apart
+  const comparisonCandidate = useMemo((): SimulationPolicy | null => {
+    if (!optimizedPolicy || !optimizedWith || optimizedPolicy.kind === "time-indexed") return optimizedPolicy;
+    return { ...optimizedPolicy, label: `Optimized policy (${optimizedWith})` };
+  }, [optimizedPolicy, optimizedWith]);
+
+  const simulationPolicy = useMemo((): SimulationPolicy => {
+    if (!mdp || !optimizationResult || !optimizedPolicy || activePolicyChoice === "random") return randomPolicy;
+    if (activePolicyChoice === "optimized") return optimizedPolicy;
+    const source = "method" in optimizationResult ? optimizationResult.method : "optimized";
+    // Learners keep their Q-table; planners only have V, so look one step ahead under the
+    // criterion the result was solved for. Results saved without one were discounted by the model's γ.
+    const qTable = "qTable" in optimizationResult
+      ? (optimizationResult.qTable as Record<string, Record<string, number>>)
+      : criterionActionValues(
+        mdp,
+        optimizationResult.valueFunction,
+        optimizationResult.criterion ?? { kind: "discounted", gamma: mdp.gamma ?? 0.9 }
+      );
+    return activePolicyChoice === "epsilon-greedy"
+      ? { kind: "epsilon-greedy", qTable, epsilon: policyEpsilon, label: `ε-greedy (ε = ${policyEpsilon}) over ${source} Q-values` }
+      : { kind: "softmax", qTable, temperature: policyTemperature, label: `Softmax (T = ${policyTemperature}) over ${source} Q-values` };
+  }, [mdp, optimizationResult, optimizedPolicy, activePolicyChoice, policyEpsilon, policyTemperature]);
+
+  // Exact law of the sampled returns, while the simulated policy is still the selected one
+  useEffect(() => {
+    setExactReturns(null);
+    if (!mdp || !result || result.maxSteps === undefined) return;
+    if ((result.policy?.label ?? "Uniform random") !== describePolicy(simulationPolicy)) return;
+    const controller = new AbortController();
+    runJob(
+      { kind: "return-distribution", mdp, startState: start, maxSteps: result.maxSteps, policy: simulationPolicy },
+      { signal: controller.signal }
+    )
+      .then(setExactReturns)
+      .catch(() => {
+        // Without it the histogram is simply drawn alone
+      });
+    return () => controller.abort();
+  }, [mdp, result, simulationPolicy, start]);
+
+  async function handleSim() {
+    if (!mdp) return;
+    const controller = new AbortController();
+    simAbortRef.current = controller;
+    setIsSimulating(true);
+    try {
+      const summary = await runJob(
+        { kind: "monte-carlo", mdp, startState: start, episodes, maxSteps, seed, policy: simulationPolicy, targetHalfWidth: targetHalfWidth ?? undefined },
+        { signal: controller.signal }
+      );
+      setResult(summary);
+      setResultSeed(seed);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(`Simulation failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      simAbortRef.current = null;
+      setIsSimulating(false);
+    }
   }
 
   const terminalPretty = useMemo(() => {
     if (!result?.terminalDist) return "";
     const total = result.episodes ?? 1;
-    return Object.entries(result.terminalDist)
-      .map(([s, c]) => `${s}: ${(100 * (c as number) / total).toFixed(1)}%`)
-      .join("  |  ");
+    const entries = Object.entries(result.terminalDist)
+      .map(([s, c]) => {
+        const interval = result.intervals?.terminal[s];
+        const bounds = interval ? ` [${(100 * interval.lower).toFixed(1)}, ${(100 * interval.upper).toFixed(1)}]` : "";
+        return `${s}: ${(100 * (c as number) / total).toFixed(1)}%${bounds}`;
+      });
+    if (result.truncatedEpisodes > 0) {
+      entries.push(`truncated: ${(100 * result.truncatedEpisodes / total).toFixed(1)}%`);
+    }
+    return entries.join("  |  ");
   }, [result]);
 
   const topTransitions = useMemo(() => {
@@ -101,6 +312,8 @@ export default function Home() {
           </p>
         </div>
 
+        <SessionManager data={sessionData} onRestore={handleRestoreSession} />
+
         <section className="space-y-8">
           {/* Preset Examples */}
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
@@ -169,10 +382,61 @@ export default function Home() {
                     ))}
                   </SelectContent>
                 </Select>
+                {mdp?.initialDistribution && (
+                  <p className="text-xs text-gray-500">
+                    Episodes start from the model&apos;s initial distribution; this state is only used as a fallback.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sim-policy" className="text-sm font-medium text-gray-700">Policy</Label>
+                <Select value={activePolicyChoice} onValueChange={(value) => setPolicyChoice(value as PolicyChoice)} disabled={!mdp}>
+                  <SelectTrigger id="sim-policy" className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="random">Uniform random</SelectItem>
+                    <SelectItem value="optimized" disabled={!optimizationResult}>Current optimized policy</SelectItem>
+                    <SelectItem value="epsilon-greedy" disabled={!optimizationResult}>ε-greedy over optimized Q-values</SelectItem>
+                    <SelectItem value="softmax" disabled={!optimizationResult}>Softmax over optimized Q-values</SelectItem>
+                  </SelectContent>
+                </Select>
+                {!optimizationResult && (
+                  <p className="text-xs text-gray-500">Run an optimization below to simulate its policy.</p>
+                )}
+                {simulationPolicy.kind === "time-indexed" && simulationPolicy.policies.length !== maxSteps && (
+                  <p className="text-xs text-gray-500">
+                    This policy was planned for {simulationPolicy.policies.length} steps; set Max Steps to match to simulate up to its deadline.
+                  </p>
+                )}
+                {activePolicyChoice === "epsilon-greedy" && (
+                  <input
+                    type="number"
+                    aria-label="Epsilon"
+                    className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm"
+                    value={policyEpsilon}
+                    onChange={(e) => setPolicyEpsilon(Number(e.target.value))}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                  />
+                )}
+                {activePolicyChoice === "softmax" && (
+                  <input
+                    type="number"
+                    aria-label="Temperature"
+                    className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm"
+                    value={policyTemperature}
+                    onChange={(e) => setPolicyTemperature(Number(e.target.value))}
+                    min={0.01}
+                    step={0.1}
+                  />
+                )}
               </div>
 
               <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">Episodes</label>
+                <label className="text-sm font-medium text-gray-700">{targetHalfWidth !== null ? "Max Episodes" : "Episodes"}</label>
                 <input 
                   type="number" 
                   className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm" 
@@ -181,6 +445,33 @@ export default function Home() {
                   min={1} 
                 />
               </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={targetHalfWidth !== null}
+                    onChange={(e) => setTargetHalfWidth(e.target.checked ? 0.1 : null)}
+                  />
+                  Stop at Target Precision
+                </label>
+                {targetHalfWidth !== null && (
+                  <>
+                    <input
+                      type="number"
+                      aria-label="Target half-width"
+                      className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm"
+                      value={targetHalfWidth}
+                      onChange={(e) => setTargetHalfWidth(Math.max(1e-6, Number(e.target.value) || 0.1))}
+                      min={0}
+                      step={0.01}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Samples in batches of 100 until the 95% interval of the average reward is within ± this, or Max Episodes have run.
+                    </p>
+                  </>
+                )}
+              </div>
             </div>
 
             <div className="space-y-4">
@@ -206,15 +497,36 @@ export default function Home() {
                   max={120} 
                 />
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Random Seed</label>
+                <div className="flex gap-2">
+                  <input 
+                    type="number" 
+                    className="w-full border border-gray-300 rounded-xl px-4 py-3 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 shadow-sm font-mono" 
+                    value={seed} 
+                    onChange={(e) => setSeed(Number(e.target.value) >>> 0)} 
+                    min={0} 
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSeed(randomSeed())}
+                    className="px-4 py-3 rounded-xl border border-gray-300 bg-white hover:bg-gray-50 text-sm shadow-sm"
+                    title="Draw a new random seed"
+                  >
+                    🎲
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
 
-          <div className="mt-6">
+          <div className="mt-6 flex gap-4">
             <button 
               onClick={handleSim} 
-              disabled={!canSim} 
+              disabled={!canSim || isSimulating} 
               className={`px-8 py-4 rounded-xl text-white transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 ${
-                canSim 
+                canSim && !isSimulating
                   ? "bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700" 
                   : "bg-gray-400 cursor-not-allowed"
               }`}
@@ -223,26 +535,60 @@ export default function Home() {
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1m4 0h1m-6 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                🚀 Run Monte Carlo Simulation
+                {isSimulating ? "Simulating..." : "🚀 Run Monte Carlo Simulation"}
               </span>
             </button>
+            {isSimulating && (
+              <button
+                onClick={() => simAbortRef.current?.abort()}
+                className="px-8 py-4 rounded-xl text-white bg-red-600 hover:bg-red-700 transition-all duration-300 shadow-lg font-semibold text-lg"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleCopyLink}
+              disabled={!mdp}
+              className="ml-auto px-6 py-4 rounded-xl border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-semibold shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Copy a link to this model and its settings"
+            >
+              🔗 Copy link
+            </button>
           </div>
+          {linkStatus && (
+            <p className={`mt-3 text-sm ${linkStatus.ok ? "text-green-700" : "text-red-700"}`}>{linkStatus.message}</p>
+          )}
 
           {result && (
             <div className="mt-6 p-8 bg-gradient-to-r from-blue-50 via-purple-50 to-indigo-50 rounded-2xl border border-blue-200/50 shadow-lg">
-              <h4 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">Simulation Results</h4>
+              <div className="flex items-baseline justify-between mb-6">
+                <h4 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Simulation Results</h4>
+                <span className="text-sm text-gray-600">
+                  {result.policy?.label ?? "Uniform random"}
+                  {resultSeed !== null && <span className="font-mono"> · seed {resultSeed}</span>}
+                </span>
+              </div>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
                 <div className="bg-white/90 backdrop-blur-sm p-6 rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300">
                   <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-2">Episodes</div>
                   <div className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">{result.episodes}</div>
+                  {result.stopping && (
+                    <div className={`text-xs mt-1 ${result.stopping.reached ? "text-gray-600" : "text-amber-700"}`}>
+                      {result.stopping.reached
+                        ? `reached ±${result.stopping.targetHalfWidth}`
+                        : `budget spent before ±${result.stopping.targetHalfWidth}`}
+                    </div>
+                  )}
                 </div>
                 <div className="bg-white/90 backdrop-blur-sm p-6 rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300">
                   <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-2">Avg Reward</div>
                   <div className="text-2xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">{result.avgTotalReward.toFixed(3)}</div>
+                  {result.intervals && <div className="text-xs text-gray-600 mt-1 font-mono">{formatInterval(result.intervals.totalReward, 3)}</div>}
                 </div>
                 <div className="bg-white/90 backdrop-blur-sm p-6 rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300">
                   <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-2">Avg Steps</div>
                   <div className="text-2xl font-bold bg-gradient-to-r from-orange-600 to-red-600 bg-clip-text text-transparent">{result.avgSteps.toFixed(1)}</div>
+                  {result.intervals && <div className="text-xs text-gray-600 mt-1 font-mono">{formatInterval(result.intervals.steps, 2)}</div>}
                 </div>
                 <div className="bg-white/90 backdrop-blur-sm p-6 rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300">
                   <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-2">Path Length</div>
@@ -250,7 +596,9 @@ export default function Home() {
                 </div>
               </div>
               <div className="bg-white/90 backdrop-blur-sm p-6 rounded-xl border border-white/50 shadow-lg">
-                <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-3">Terminal Distribution</div>
+                <div className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-3">
+                  Terminal Distribution{result.intervals && " (95% bootstrap intervals)"}
+                </div>
                 <div className="text-sm font-mono text-gray-800 bg-gray-50 p-4 rounded-lg border">{terminalPretty}</div>
               </div>
             </div>
@@ -262,7 +610,12 @@ export default function Home() {
         {mdp ? (
           <div>
             <h3 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">MDP Graph Visualization</h3>
-            <MDPGraph mdp={mdp} />
+            <MDPGraph
+              mdp={mdp}
+              scheduler={queryResult?.scheduler}
+              targetStates={queryResult?.targetStates}
+              avoidStates={queryResult?.avoidStates}
+            />
           </div>
         ) : (
           <div className="text-center py-12">
@@ -284,17 +637,22 @@ export default function Home() {
           {/* Results Interpretation */}
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-8">
             <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">Results Analysis</h2>
-            <ResultsInterpreter result={result} mdp={{ states: mdp!.states, actions: mdp!.actions, gamma: mdp!.gamma || 0.9 }} />
+            <ResultsInterpreter
+              result={result}
+              mdp={{ states: mdp!.states, actions: mdp!.actions, gamma: mdp!.gamma || 0.9 }}
+              gain={optimizationResult && "gain" in optimizationResult ? (optimizationResult.gain as number) : undefined}
+              robustness={optimizationResult && "worstCaseValue" in optimizationResult ? (optimizationResult as RobustValueIterationResult) : undefined}
+            />
           </div>
 
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-8">
             <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">Monte Carlo Reward Distribution</h2>
-            <DistributionChart values={result.rewards} bins={bins} />
+            <DistributionChart values={result.rewards} bins={bins} policyLabel={result.policy?.label} exact={exactReturns} />
           </div>
 
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-8">
             <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">Terminal State Distribution</h2>
-            <TerminalPie counts={result.terminalDist} />
+            <TerminalPie counts={result.terminalDist} truncated={result.truncatedEpisodes} policyLabel={result.policy?.label} />
           </div>
 
           <div className="grid md:grid-cols-2 gap-8 mt-8">
@@ -337,21 +695,50 @@ export default function Home() {
         </>
       )}
 
+      {mdp && canSim && (
+        <section>
+          <QueryPanel mdp={mdp} startState={start} onShowScheduler={setQueryResult} />
+        </section>
+      )}
+
+      {mdp && canSim && (
+        <section>
+          <SensitivityPanel mdp={mdp} startState={start} />
+        </section>
+      )}
+
+      {mdp && canSim && (
+        <section>
+          <MarkovChainPanel mdp={mdp} startState={start} policy={simulationPolicy} result={result} maxSteps={maxSteps} />
+        </section>
+      )}
+
       {/* Agent Optimizer - Only show after all Monte Carlo results */}
       {mdp && result && (
         <section className="space-y-4">
           <AgentOptimizer 
             mdp={mdp} 
             startState={start}
+            seed={seed}
             baselineResult={result}
+            restoredResult={restoredOptimization}
+            settings={linkedOptimizerSettings}
+            onSettingsChange={handleOptimizerSettingsChange}
             onOptimizedMdp={handleOptimizedMdp}
             onOptimizationComplete={(result) => {
               setOptimizationResult(result);
+              setOptimizedWith(optimizerSettings?.algorithm ?? null);
             }}
           />
         </section>
       )}
 
+      {mdp && canSim && (
+        <section>
+          <PolicyComparisonPanel mdp={mdp} startState={start} maxSteps={maxSteps} seed={seed} candidate={comparisonCandidate} />
+        </section>
+      )}
+
       {/* Advanced Visualizations and Optimizations */}
       {mdp && (
         <section className="space-y-8">
@@ -366,7 +753,7 @@ export default function Home() {
           <InteractiveCharts 
             mdp={mdp}
             valueFunction={optimizationResult?.valueFunction}
-            policy={optimizationResult?.bestPolicy}
+            policy={resultPolicy ?? undefined}
             convergenceHistory={optimizationResult?.convergenceHistory}
             progressHistory={optimizationResult?.convergenceHistory ? optimizationResult.convergenceHistory.map((delta, index) => ({
               iteration: index,
@@ -381,8 +768,10 @@ export default function Home() {
           <HyperparameterTuner 
             mdp={mdp}
             startState={start}
+            seed={seed}
             onTuningComplete={(bestConfig, bestResult) => {
               setOptimizationResult(bestResult);
+              setOptimizedWith("tuned");
             }}
           />
 
@@ -390,9 +779,11 @@ export default function Home() {
           <MultiObjectiveOptimizer 
             mdp={mdp}
             startState={start}
+            seed={seed}
             onOptimizationComplete={(results) => {
               if (results.length > 0) {
                 setOptimizationResult(results[0].result);
+                setOptimizedWith("multi-objective");
               }
             }}
           />
@@ -1,22 +1,26 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import type { MDP } from "@/types/mdp";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { expectedInitialValue, type MDP } from "@/types/mdp";
 import { 
-  valueIteration, 
-  policyIteration, 
-  qLearning,
-  sarsa,
-  actorCritic,
-  tdLambda,
-  robustOptimizeMDP,
-  robustOptimizeMDPConfiguration,
+  type AgentAlgorithm,
   type OptimizationResult,
   type RobustOptimizationResult,
   type OptimizationConfig,
   type OptimizationProgress
 } from "@/lib/optimizer";
-import { runMonteCarlo, type MonteCarloSummary } from "@/lib/sim";
+import { randomPolicy, runMonteCarlo, simulationPolicyFor, type MonteCarloSummary } from "@/lib/sim";
+import { rngFromSeed, randomSeed } from "@/lib/rng";
+import { runJob, isAbortError } from "@/lib/jobRunner";
+import { evaluatePolicyExact, type ExactEvaluationResult } from "@/lib/policyEvaluation";
+import { formatActionDistribution, tieSetPolicy, type Policy, type StochasticPolicy } from "@/lib/stochasticPolicy";
+import type { LinearProgrammingResult } from "@/lib/linearProgramming";
+import type { ConstrainedOptimizationResult } from "@/lib/constrainedMdp";
+import type { FiniteHorizonResult } from "@/lib/finiteHorizon";
+import type { AverageRewardResult } from "@/lib/averageReward";
+import { improperStates, type StochasticShortestPathResult } from "@/lib/stochasticShortestPath";
+import type { RobustValueIterationResult } from "@/lib/robustMdp";
+import type { ReturnRiskProfile, RiskSensitiveResult } from "@/lib/riskSensitive";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
@@ -24,17 +28,25 @@ import { Label } from "@/components/ui/label";
 interface AgentOptimizerProps {
   mdp: MDP;
   startState: string;
+  seed?: number;
   baselineResult?: MonteCarloSummary;
+  restoredResult?: OptimizationResult | RobustOptimizationResult | null; // shown again after a session is restored
+  settings?: { algorithm: AgentAlgorithm; config: OptimizationConfig } | null; // e.g. from a shared link
+  onSettingsChange?: (algorithm: AgentAlgorithm, config: OptimizationConfig) => void;
   onOptimizedMdp?: (mdp: MDP) => void;
   onOptimizationComplete?: (result: OptimizationResult | RobustOptimizationResult) => void;
 }
 
-export default function AgentOptimizer({ mdp, startState, baselineResult: propBaselineResult, onOptimizedMdp, onOptimizationComplete }: AgentOptimizerProps) {
-  const [algorithm, setAlgorithm] = useState<"value-iteration" | "policy-iteration" | "q-learning" | "sarsa" | "actor-critic" | "td-lambda" | "configuration" | "robust">("robust");
+export default function AgentOptimizer({ mdp, startState, seed, baselineResult: propBaselineResult, restoredResult, settings, onSettingsChange, onOptimizedMdp, onOptimizationComplete }: AgentOptimizerProps) {
+  const [algorithm, setAlgorithm] = useState<AgentAlgorithm>("robust");
   const [isRunning, setIsRunning] = useState(false);
   const [baselineResult, setBaselineResult] = useState<MonteCarloSummary | null>(null);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | RobustOptimizationResult | null>(null);
   const [progressHistory, setProgressHistory] = useState<OptimizationProgress[]>([]);
+  const [resultSeed, setResultSeed] = useState<number | undefined>(undefined);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [evaluationResult, setEvaluationResult] = useState<MonteCarloSummary | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [config, setConfig] = useState<OptimizationConfig>({
     maxIterations: 1000,
     tolerance: 1e-6,
@@ -42,125 +54,206 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
     learningRate: 0.1,
     epsilon: 0.1,
     episodes: 1000,
-    lambda: 0.7
+    lambda: 0.7,
+    seed: seed ?? 42
   });
 
-  // Use the baseline result from props or run our own if not provided
+  // The baseline is the random agent: use the page's result when it simulated one,
+  // otherwise run our own
   useEffect(() => {
     if (mdp && startState) {
-      if (propBaselineResult) {
+      if (propBaselineResult && (propBaselineResult.policy?.kind ?? "random") === "random") {
         setBaselineResult(propBaselineResult);
       } else {
-        // Fallback: run our own baseline if not provided
-        const baseline = runMonteCarlo(mdp, startState, 1000, 100);
+        const baseline = runMonteCarlo(mdp, startState, 1000, 100, rngFromSeed(seed), randomPolicy);
         setBaselineResult(baseline);
       }
-      setOptimizationResult(null);
-      setProgressHistory([]);
     }
-  }, [mdp, startState, propBaselineResult]);
+  }, [mdp, startState, seed, propBaselineResult]);
+
+  // Results belong to the model they were computed for
+  useEffect(() => {
+    setOptimizationResult(null);
+    setEvaluationResult(null);
+    setProgressHistory([]);
+  }, [mdp, startState]);
+
+  // Runs after the reset above so a restored session keeps its results
+  useEffect(() => {
+    if (restoredResult) {
+      setOptimizationResult(restoredResult);
+    }
+  }, [restoredResult]);
+
+  // Follow the page-level seed so both panels reproduce the same run
+  useEffect(() => {
+    if (seed !== undefined) {
+      setConfig(prev => ({ ...prev, seed }));
+    }
+  }, [seed]);
+
+  // Adopt settings handed down from the page, such as those in a shared link
+  useEffect(() => {
+    if (settings) {
+      setAlgorithm(settings.algorithm);
+      setConfig(prev => ({ ...prev, ...settings.config }));
+    }
+  }, [settings]);
+
+  // Report the current choice so the page can include it in a shared link
+  useEffect(() => {
+    onSettingsChange?.(algorithm, config);
+  }, [algorithm, config, onSettingsChange]);
+
+  const finiteHorizon = optimizationResult && "timePolicy" in optimizationResult
+    ? (optimizationResult as FiniteHorizonResult)
+    : null;
+  const averageReward = optimizationResult && "gain" in optimizationResult
+    ? (optimizationResult as AverageRewardResult)
+    : null;
+  const shortestPath = optimizationResult && "costToGoal" in optimizationResult
+    ? (optimizationResult as StochasticShortestPathResult)
+    : null;
+  const robustPlan = optimizationResult && "worstCaseValue" in optimizationResult
+    ? (optimizationResult as RobustValueIterationResult)
+    : null;
+  const riskPlan = optimizationResult && "riskMeasure" in optimizationResult
+    ? (optimizationResult as RiskSensitiveResult)
+    : null;
+
+  // The policy the method actually produced: randomised when it has a stochasticPolicy
+  const resultPolicy: Policy | null = optimizationResult
+    ? ("stochasticPolicy" in optimizationResult && optimizationResult.stochasticPolicy) || optimizationResult.bestPolicy
+    : null;
+  const randomised = !!optimizationResult && "stochasticPolicy" in optimizationResult && !!optimizationResult.stochasticPolicy;
+
+  // Policies worth showing alongside the result: value iteration's tie sets and the
+  // ε-greedy behaviour a Q-learner explored with
+  const companionPolicies = useMemo((): Array<{ title: string; note: string; policy: StochasticPolicy }> => {
+    if (!optimizationResult) return [];
+    const companions = [];
+    if ("optimalActions" in optimizationResult) {
+      const optimalActions = optimizationResult.optimalActions as Record<string, string[]>;
+      if (Object.values(optimalActions).some(actions => actions.length > 1)) {
+        companions.push({
+          title: "Tied Optimal Actions",
+          note: "Every mixture of these actions is optimal; the policy above takes the first of each tie.",
+          policy: tieSetPolicy(Object.fromEntries(Object.entries(optimalActions).filter(([, actions]) => actions.length > 1))),
+        });
+      }
+    }
+    if ("behaviorPolicy" in optimizationResult) {
+      companions.push({
+        title: `Behaviour Policy (ε-greedy, ε = ${config.epsilon ?? 0.1})`,
+        note: "How the agent explored while learning; the learned policy is greedy in the same Q-values.",
+        policy: optimizationResult.behaviorPolicy as StochasticPolicy,
+      });
+    }
+    return companions;
+  }, [optimizationResult, config.epsilon]);
+
+  // Undiscounted returns are only finite for policies that reach a terminal state
+  const stuckStates = useMemo(() => {
+    if (!optimizationResult || config.gamma !== 1 || "costToGoal" in optimizationResult || "timePolicy" in optimizationResult) return [];
+    return improperStates(mdp, optimizationResult.bestPolicy);
+  }, [mdp, optimizationResult, config.gamma]);
+
+  // Ground truth for the optimized policy, to check sampled estimates against;
+  // backward induction is already exact for its horizon and the gain needs no discounting
+  const exactEvaluation = useMemo((): ExactEvaluationResult | { error: string } | null => {
+    if (!optimizationResult || "timePolicy" in optimizationResult || "gain" in optimizationResult || "costToGoal" in optimizationResult) return null;
+    try {
+      return evaluatePolicyExact(mdp, resultPolicy ?? optimizationResult.bestPolicy, startState, { gamma: config.gamma });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [mdp, optimizationResult, resultPolicy, startState, config.gamma]);
 
   const handleProgress = useCallback((progress: OptimizationProgress) => {
     setProgressHistory(prev => [...prev, progress]);
   }, []);
 
   const runOptimization = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsRunning(true);
+    setStatusMessage(null);
     setOptimizationResult(null);
     setProgressHistory([]);
 
     try {
       let result: OptimizationResult | RobustOptimizationResult;
 
-      switch (algorithm) {
-        case "robust":
-          result = await robustOptimizeMDP(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "value-iteration":
-          result = valueIteration(mdp, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "policy-iteration":
-          result = policyIteration(mdp, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "q-learning":
-          result = qLearning(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "sarsa":
-          result = sarsa(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "actor-critic":
-          result = actorCritic(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "td-lambda":
-          result = tdLambda(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          break;
-        case "configuration":
-          const configResult = await robustOptimizeMDPConfiguration(mdp, startState, config, {
-            onProgress: handleProgress
-          });
-          result = configResult.bestResult;
-          if (onOptimizedMdp) {
-            onOptimizedMdp(configResult.bestMdp);
-          }
-          break;
-        default:
-          throw new Error("Unknown algorithm");
+      if (algorithm === "configuration") {
+        const configResult = await runJob(
+          { kind: "optimize-configuration", mdp, startState, config },
+          { signal: controller.signal, onProgress: handleProgress }
+        );
+        result = configResult.bestResult;
+        if (onOptimizedMdp) {
+          onOptimizedMdp(configResult.bestMdp);
+        }
+      } else {
+        result = await runJob(
+          { kind: "optimize", algorithm, mdp, startState, config },
+          { signal: controller.signal, onProgress: handleProgress }
+        );
       }
 
       setOptimizationResult(result);
+      setResultSeed(config.seed);
       onOptimizationComplete?.(result);
     } catch (error) {
-      console.error("Optimization failed:", error);
+      if (isAbortError(error)) {
+        setStatusMessage("Optimization cancelled");
+      } else {
+        console.error("Optimization failed:", error);
+        setStatusMessage(`Optimization failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     } finally {
+      abortRef.current = null;
       setIsRunning(false);
     }
   };
 
-  const [evaluationResult, setEvaluationResult] = useState<MonteCarloSummary | null>(null);
+  const cancelRun = () => {
+    abortRef.current?.abort();
+  };
+
+  // Stop any in-flight worker when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const evaluatePolicy = async () => {
     if (!optimizationResult) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsRunning(true);
+    setStatusMessage(null);
     try {
-      // Create an MDP that follows the optimized policy
-      const policyMdp = {
-        ...mdp,
-        transitions: Object.fromEntries(
-          Object.entries(mdp.transitions).map(([key, transitions]) => {
-            const [state, action] = key.split("|");
-            const optimalAction = optimizationResult.bestPolicy[state];
-            
-            // If this is the optimal action for this state, keep the transitions
-            // Otherwise, set probability to 0 (the policy won't choose this action)
-            if (action === optimalAction) {
-              return [key, transitions];
-            } else {
-              return [key, transitions.map(t => ({ ...t, probability: 0 }))];
-            }
-          })
-        )
-      };
-
-      const mcResult = runMonteCarlo(policyMdp, startState, 1000, 100);
+      const mcResult = await runJob(
+        {
+          kind: "monte-carlo",
+          mdp,
+          startState,
+          episodes: 1000,
+          maxSteps: finiteHorizon?.horizon ?? 100,
+          seed: config.seed,
+          policy: finiteHorizon
+            ? { kind: "time-indexed", policies: finiteHorizon.timePolicy, label: `Optimized policy (H = ${finiteHorizon.horizon})` }
+            : simulationPolicyFor(resultPolicy ?? optimizationResult.bestPolicy, randomised ? "Optimized randomised policy" : "Optimized policy"),
+        },
+        { signal: controller.signal }
+      );
       setEvaluationResult(mcResult);
     } catch (error) {
-      console.error("Evaluation failed:", error);
+      if (isAbortError(error)) {
+        setStatusMessage("Evaluation cancelled");
+      } else {
+        console.error("Evaluation failed:", error);
+      }
     } finally {
+      abortRef.current = null;
       setIsRunning(false);
     }
   };
@@ -179,7 +272,7 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
         </Label>
         <Select
           value={algorithm}
-          onValueChange={(value) => setAlgorithm(value as "value-iteration" | "policy-iteration" | "q-learning" | "sarsa" | "actor-critic" | "td-lambda" | "configuration" | "robust")}
+          onValueChange={(value) => setAlgorithm(value as AgentAlgorithm)}
           disabled={isRunning}
         >
                       <SelectTrigger className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50">
@@ -189,6 +282,15 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             <SelectItem value="robust">Robust Optimization (Recommended)</SelectItem>
             <SelectItem value="value-iteration">Value Iteration</SelectItem>
             <SelectItem value="policy-iteration">Policy Iteration</SelectItem>
+            <SelectItem value="linear-programming">Linear Programming</SelectItem>
+            <SelectItem value="constrained" disabled={!mdp.constraints?.length}>Constrained LP</SelectItem>
+            <SelectItem value="finite-horizon">Finite Horizon (Backward Induction)</SelectItem>
+            <SelectItem value="average-reward">Average Reward (Relative Value Iteration)</SelectItem>
+            <SelectItem value="stochastic-shortest-path">Stochastic Shortest Path (γ = 1)</SelectItem>
+            <SelectItem value="robust-value-iteration">Robust Value Iteration (Worst-Case Model)</SelectItem>
+            <SelectItem value="cvar">Risk-Sensitive: CVaR</SelectItem>
+            <SelectItem value="mean-variance">Risk-Sensitive: Mean-Variance</SelectItem>
+            <SelectItem value="exponential-utility">Risk-Sensitive: Exponential Utility</SelectItem>
             <SelectItem value="q-learning">Q-Learning</SelectItem>
             <SelectItem value="sarsa">SARSA</SelectItem>
             <SelectItem value="actor-critic">Actor-Critic</SelectItem>
@@ -196,6 +298,11 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             <SelectItem value="configuration">Configuration Optimization</SelectItem>
           </SelectContent>
         </Select>
+        {config.gamma === 1 && (algorithm === "value-iteration" || algorithm === "policy-iteration") && (
+          <p className="text-xs text-gray-500 mt-2">
+            With γ = 1 these only converge if every policy eventually reaches a terminal state. Stochastic Shortest Path checks the model first and explains when there is no finite solution.
+          </p>
+        )}
       </div>
 
       {/* Configuration Parameters */}
@@ -240,6 +347,30 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Random Seed
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={config.seed}
+              onChange={(e) => setConfig({ ...config, seed: parseInt(e.target.value) >>> 0 })}
+              disabled={isRunning}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <button
+              type="button"
+              onClick={() => setConfig({ ...config, seed: randomSeed() })}
+              disabled={isRunning}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+              title="Draw a new random seed"
+            >
+              🎲
+            </button>
+          </div>
+        </div>
         {algorithm === "q-learning" && (
           <>
             <div>
@@ -409,6 +540,94 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             </div>
           </>
         )}
+
+        {algorithm === "finite-horizon" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Horizon (H)
+            </label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={config.horizon ?? 10}
+              onChange={(e) => setConfig({ ...config, horizon: parseInt(e.target.value) })}
+              disabled={isRunning}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </div>
+        )}
+
+        {algorithm === "robust-value-iteration" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Default Uncertainty (L1 radius)
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="2"
+              step="0.05"
+              value={config.uncertaintyRadius ?? 0}
+              onChange={(e) => setConfig({ ...config, uncertaintyRadius: parseFloat(e.target.value) })}
+              disabled={isRunning}
+              title="Applied to every transition row without its own uncertainty set"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </div>
+        )}
+
+        {(algorithm === "cvar" || algorithm === "mean-variance" || algorithm === "exponential-utility") && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tail Level (α)
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                max="1"
+                step="0.01"
+                value={config.riskLevel ?? 0.1}
+                onChange={(e) => setConfig({ ...config, riskLevel: parseFloat(e.target.value) })}
+                disabled={isRunning}
+                title="CVaR averages the worst α share of outcomes; VaR and CVaR are reported at this level for every risk measure"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </div>
+            {algorithm !== "cvar" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {algorithm === "mean-variance" ? "Variance Penalty (λ)" : "Risk Aversion (β)"}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={algorithm === "mean-variance" ? "0" : undefined}
+                  value={config.riskAversion ?? 0.1}
+                  onChange={(e) => setConfig({ ...config, riskAversion: parseFloat(e.target.value) })}
+                  disabled={isRunning}
+                  title={algorithm === "mean-variance" ? "Scores the mean − λ·variance of the whole discounted return" : "Positive β is risk-averse, negative β risk-seeking"}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {algorithm === "policy-iteration" && (
+          <div className="col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={config.exactEvaluation ?? false}
+                onChange={(e) => setConfig({ ...config, exactEvaluation: e.target.checked })}
+                disabled={isRunning}
+              />
+              Exact policy evaluation (solve the linear system instead of sweeping)
+            </label>
+          </div>
+        )}
       </div>
 
       {/* Real-time Progress Chart */}
@@ -485,8 +704,23 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             </span>
           </button>
         )}
+
+        {isRunning && (
+          <button
+            onClick={cancelRun}
+            className="px-6 py-3 rounded-lg text-white transition-all duration-200 shadow-sm hover:shadow-md bg-red-600 hover:bg-red-700"
+          >
+            Cancel
+          </button>
+        )}
       </div>
 
+      {statusMessage && (
+        <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {statusMessage}
+        </div>
+      )}
+
       {/* Results Display */}
       {optimizationResult && (
         <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl border border-green-200 p-6">
@@ -503,10 +737,53 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
               <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Best Value</div>
               <div className="text-lg font-bold text-gray-800">{optimizationResult.bestValue.toFixed(3)}</div>
             </div>
+            <div className="bg-white p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">
+                {mdp.initialDistribution ? "Expected Start Value" : `Value of ${startState}`}
+              </div>
+              <div className="text-lg font-bold text-gray-800">
+                {expectedInitialValue(mdp, optimizationResult.valueFunction, startState).toFixed(3)}
+              </div>
+            </div>
             <div className="bg-white p-3 rounded-lg border border-gray-200">
               <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Iterations</div>
               <div className="text-lg font-bold text-gray-800">{optimizationResult.iterations}</div>
             </div>
+            <div className="bg-white p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Seed</div>
+              <div className="text-lg font-bold text-gray-800 font-mono">{resultSeed ?? "—"}</div>
+            </div>
+            {shortestPath ? (
+              <div className="bg-white p-3 rounded-lg border border-gray-200">
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Expected Cost to Goal</div>
+                <div className="text-lg font-bold text-gray-800">
+                  {shortestPath.startHasFiniteSolution
+                    ? (-expectedInitialValue(mdp, shortestPath.valueFunction, startState)).toFixed(3)
+                    : "No finite value"}
+                </div>
+              </div>
+            ) : averageReward ? (
+              <div className="bg-white p-3 rounded-lg border border-gray-200">
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Gain (Reward / Step)</div>
+                <div className="text-lg font-bold text-gray-800">{averageReward.gain.toFixed(4)}</div>
+              </div>
+            ) : finiteHorizon ? (
+              <div className="bg-white p-3 rounded-lg border border-gray-200">
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Horizon</div>
+                <div className="text-lg font-bold text-gray-800">{finiteHorizon.horizon} steps</div>
+              </div>
+            ) : (
+              <div className="bg-white p-3 rounded-lg border border-gray-200">
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Exact Policy Value</div>
+                {exactEvaluation && "error" in exactEvaluation ? (
+                  <div className="text-sm font-medium text-red-600" title={exactEvaluation.error}>No finite value</div>
+                ) : (
+                  <div className="text-lg font-bold text-gray-800" title={exactEvaluation ? `${exactEvaluation.solver} solve, residual ${exactEvaluation.residual.toExponential(1)}` : undefined}>
+                    {exactEvaluation?.startValue.toFixed(3)}
+                  </div>
+                )}
+              </div>
+            )}
             {('confidence' in optimizationResult) && (
               <div className="bg-white p-3 rounded-lg border border-gray-200">
                 <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Confidence</div>
@@ -515,25 +792,353 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
             )}
           </div>
 
-          {/* Policy Display */}
-          <div className="bg-white p-4 rounded-lg border border-gray-200">
-            <div className="text-sm font-medium text-gray-700 mb-2">Optimal Policy</div>
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
-              {Object.entries(optimizationResult.bestPolicy).map(([state, action]) => (
-                <div key={state} className="flex justify-between">
-                  <span className="font-mono">{state}:</span>
-                  <span className="font-medium">{action}</span>
+          {"occupancy" in optimizationResult && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Occupancy Measure (LP dual)</div>
+              <p className="text-xs text-gray-500 mb-3">
+                Expected discounted number of times each action is taken from the start; actions the optimal policy never uses are hidden.
+              </p>
+              <div className="space-y-1 text-sm">
+                {(optimizationResult as Pick<LinearProgrammingResult, "occupancy">).occupancy
+                  .filter(entry => entry.occupancy > 1e-9)
+                  .sort((a, b) => b.occupancy - a.occupancy)
+                  .map(entry => (
+                    <div key={`${entry.state}|${entry.action}`} className="flex items-center gap-3">
+                      <span className="font-mono w-40 truncate">{entry.state}</span>
+                      <span className="w-32 truncate">{entry.action}</span>
+                      <div className="flex-1 h-2 bg-gray-100 rounded">
+                        <div className="h-2 bg-blue-500 rounded" style={{ width: `${(entry.share * 100).toFixed(1)}%` }} />
+                      </div>
+                      <span className="w-28 text-right font-mono">{entry.occupancy.toFixed(3)} ({(entry.share * 100).toFixed(1)}%)</span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {robustPlan && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Robust Solution</div>
+              <p className="text-xs text-gray-500 mb-3">
+                Value from the start when an adversary picks each transition row from its uncertainty set ({robustPlan.uncertainRows} uncertain row{robustPlan.uncertainRows === 1 ? "" : "s"}), against the nominal model.
+                {robustPlan.uncertainRows === 0 && " No row is uncertain, so both policies coincide; declare uncertainty sets or raise the default radius."}
+              </p>
+              {!robustPlan.converged && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2 mb-3">
+                  Did not converge within {robustPlan.iterations} iterations; raise Max Iterations or loosen the tolerance.
+                </p>
+              )}
+              <table className="w-full text-sm mb-3">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2">Policy</th>
+                    <th className="py-2 text-right">Nominal value</th>
+                    <th className="py-2 text-right">Worst-case value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-2">Robust</td>
+                    <td className="py-2 text-right">{robustPlan.nominalValue.toFixed(3)}</td>
+                    <td className="py-2 text-right font-medium">{robustPlan.worstCaseValue.toFixed(3)}</td>
+                  </tr>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-2">Nominal optimum</td>
+                    <td className="py-2 text-right font-medium">{robustPlan.nominalPolicyValue.toFixed(3)}</td>
+                    <td className="py-2 text-right">{robustPlan.nominalPolicyWorstCase.toFixed(3)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {Object.keys(robustPlan.worstCaseTransitions).length > 0 && (
+                <>
+                  <div className="text-xs text-gray-600 font-medium uppercase tracking-wide mb-1">Worst-case rows under the robust policy</div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {Object.entries(robustPlan.worstCaseTransitions).map(([key, probabilities]) => {
+                        const [state, action] = key.split("|");
+                        return (
+                          <tr key={key} className="border-b border-gray-100">
+                            <td className="py-1 pr-3 font-mono">{state}, {action}</td>
+                            <td className="py-1 text-gray-700">
+                              {(mdp.transitions[key] ?? []).map((t, j) => `${t.nextState} ${t.probability.toFixed(2)}→${probabilities[j].toFixed(2)}`).join(", ")}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          )}
+
+          {riskPlan && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Return Risk</div>
+              <p className="text-xs text-gray-500 mb-3">
+                {riskPlan.riskMeasure === "exponential-utility"
+                  ? `The planner applies exponential utility with β = ${riskPlan.riskParameter} to every step's outcome, which for γ = 1 is the utility of the whole return, giving a certainty equivalent of ${riskPlan.riskValue.toFixed(3)} from the start.`
+                  : `The planner searched the stationary policies for the best ${riskPlan.riskMeasure === "cvar"
+                    ? `CVaR at α = ${riskPlan.riskParameter}`
+                    : `mean − ${riskPlan.riskParameter}·variance`} of the whole discounted return, ${riskPlan.riskValue.toFixed(3)} from the start, starting from the risk-neutral optimum, so it never does worse than that policy by this measure.`}
+                {" "}Mean and variance are exact; VaR and CVaR at α = {riskPlan.risk.alpha} come from {riskPlan.risk.samples} sampled episodes, the same ones for both policies.
+              </p>
+              {!riskPlan.converged && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2 mb-3">
+                  {riskPlan.riskMeasure === "exponential-utility"
+                    ? `Did not converge within ${riskPlan.iterations} iterations; raise Max Iterations or loosen the tolerance.`
+                    : `Still improving after ${riskPlan.iterations} sweeps over the states; raise Max Iterations to search further.`}
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2">Policy</th>
+                    <th className="py-2 text-right">Mean</th>
+                    <th className="py-2 text-right">Std Dev</th>
+                    <th className="py-2 text-right">Variance</th>
+                    <th className="py-2 text-right">VaR</th>
+                    <th className="py-2 text-right">CVaR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([["Risk-sensitive", riskPlan.risk], ["Risk-neutral", riskPlan.riskNeutral]] as Array<[string, ReturnRiskProfile]>).map(([label, profile]) => (
+                    <tr key={label} className="border-b border-gray-100">
+                      <td className="py-2">{label}</td>
+                      <td className="py-2 text-right">{profile.mean.toFixed(3)}</td>
+                      <td className="py-2 text-right">{Math.sqrt(profile.variance).toFixed(3)}</td>
+                      <td className="py-2 text-right">{profile.variance.toFixed(3)}</td>
+                      <td className="py-2 text-right">{profile.valueAtRisk.toFixed(3)}</td>
+                      <td className="py-2 text-right">{profile.conditionalValueAtRisk.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {Object.keys(riskPlan.bestPolicy).some(state => riskPlan.bestPolicy[state] !== riskPlan.riskNeutralPolicy[state]) ? (
+                <p className="text-xs text-gray-500 mt-2">
+                  Differs from the risk-neutral policy in {Object.keys(riskPlan.bestPolicy).filter(state => riskPlan.bestPolicy[state] !== riskPlan.riskNeutralPolicy[state]).join(", ")}.
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-2">Same policy as the risk-neutral optimum at this level of risk aversion.</p>
+              )}
+              {riskPlan.risk.truncated > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {riskPlan.risk.truncated} of {riskPlan.risk.samples} sampled episodes never reached a terminal state and were cut off once the discount had shrunk later rewards below 10⁻⁶ of their size, or after 1,000 steps.
+                </p>
+              )}
+            </div>
+          )}
+
+          {"constraints" in optimizationResult && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Constraints</div>
+              <p className="text-xs text-gray-500 mb-3">
+                Expected discounted cost from the start under the returned policy. The multiplier λ is the reward gained per extra unit of budget; it is zero when a constraint is slack.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2">Cost</th>
+                    <th className="py-2 text-right">Budget</th>
+                    <th className="py-2 text-right">Expected cost</th>
+                    <th className="py-2 text-right">Satisfied</th>
+                    <th className="py-2 text-right">λ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(optimizationResult as ConstrainedOptimizationResult).constraints.map(report => (
+                    <tr key={report.cost} className="border-b border-gray-100">
+                      <td className="py-2 font-mono">{report.cost}</td>
+                      <td className="py-2 text-right">{report.budget}</td>
+                      <td className="py-2 text-right">{report.expectedCost.toFixed(3)}</td>
+                      <td className={`py-2 text-right ${report.satisfied ? "text-green-600" : "text-red-600"}`}>{report.satisfied ? "✓" : "✗"}</td>
+                      <td className="py-2 text-right font-mono">{report.multiplier.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {stuckStates.length > 0 && (
+            <div className="p-3 mb-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              This policy is improper: from {stuckStates.join(", ")} it may never reach a terminal state, so with γ = 1 its return there is not a finite total.
+            </div>
+          )}
+
+          {shortestPath && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Stochastic Shortest Path</div>
+              <p className="text-xs text-gray-500 mb-3">
+                Minimal expected undiscounted cost (negated reward) to reach a terminal state; the discount factor is ignored.
+                {shortestPath.properPolicy
+                  ? " The policy below reaches a terminal state with probability 1 from every state with a finite cost."
+                  : " The policy below is improper in places: it ties with a policy that finishes but may loop forever."}
+              </p>
+              {shortestPath.diagnostics.messages.length > 0 && (
+                <div className={`p-3 mb-3 rounded-lg border text-sm space-y-1 ${
+                  shortestPath.startHasFiniteSolution ? "bg-yellow-50 border-yellow-200 text-yellow-800" : "bg-red-50 border-red-200 text-red-800"
+                }`}>
+                  {!shortestPath.startHasFiniteSolution && (
+                    <p className="font-medium">There is no finite solution from {startState}.</p>
+                  )}
+                  {shortestPath.diagnostics.messages.map(message => <p key={message}>{message}</p>)}
                 </div>
-              ))}
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2">State</th>
+                    <th className="py-2 text-right">Cost to goal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(shortestPath.costToGoal).map(([state, cost]) => (
+                    <tr key={state} className="border-b border-gray-100">
+                      <td className="py-2 font-mono">{state}</td>
+                      <td className="py-2 text-right">
+                        {Number.isFinite(cost) ? cost.toFixed(3) : cost > 0 ? "∞ (goal not certain)" : "−∞ (unbounded reward)"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {averageReward && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Average-Reward Solution</div>
+              <p className="text-xs text-gray-500 mb-3">
+                The gain g is the long-run reward per step; the bias h(s) is the extra total reward of starting in s rather than in {averageReward.referenceState} (h = 0 there). Discounting is ignored.
+              </p>
+              {!averageReward.converged && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2 mb-3">
+                  Did not converge within {averageReward.iterations} iterations; raise Max Iterations or loosen the tolerance.
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2">State</th>
+                    <th className="py-2 text-right">Gain g(s)</th>
+                    <th className="py-2 text-right">Bias h(s)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.keys(averageReward.bias).map(state => (
+                    <tr key={state} className="border-b border-gray-100">
+                      <td className="py-2 font-mono">{state}</td>
+                      <td className="py-2 text-right">{averageReward.gainByState[state].toFixed(4)}</td>
+                      <td className="py-2 text-right">{averageReward.bias[state].toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {Math.max(...Object.values(averageReward.gainByState)) - Math.min(...Object.values(averageReward.gainByState)) > 1e-6 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  The gain differs between states, so the model is multichain: where an episode settles decides its long-run reward.
+                </p>
+              )}
+            </div>
+          )}
+
+          {finiteHorizon && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Time-Indexed Policy</div>
+              <p className="text-xs text-gray-500 mb-3">
+                π_t(s) and V_t(s) for each step t; the deadline is after step {finiteHorizon.horizon - 1}. Highlighted cells are where the action changes from the step before.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-1 pr-3">State</th>
+                      {finiteHorizon.timePolicy.map((_, t) => (
+                        <th key={t} className="py-1 px-2 text-center font-mono" title={`${finiteHorizon.horizon - t} steps left`}>t={t}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.keys(finiteHorizon.timePolicy[0]).map(state => (
+                      <tr key={state} className="border-b border-gray-100">
+                        <td className="py-1 pr-3 font-mono whitespace-nowrap">{state}</td>
+                        {finiteHorizon.timePolicy.map((policy, t) => (
+                          <td
+                            key={t}
+                            className={`py-1 px-2 text-center whitespace-nowrap ${t > 0 && finiteHorizon.timePolicy[t - 1][state] !== policy[state] ? "bg-yellow-100 font-semibold" : ""}`}
+                            title={`V_${t}(${state}) = ${finiteHorizon.values[t][state].toFixed(3)}`}
+                          >
+                            {policy[state]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-3 text-sm text-gray-700">
+                {finiteHorizon.actionChanges.length === 0 ? (
+                  <p>The optimal action does not depend on the time left: the policy is stationary over this horizon.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {finiteHorizon.actionChanges.map(change => (
+                      <li key={`${change.state}|${change.step}`}>
+                        <span className="font-mono">{change.state}</span>: {change.from} → <span className="font-medium">{change.to}</span> with {change.stepsLeft} {change.stepsLeft === 1 ? "step" : "steps"} left
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
+          )}
+
+          {/* Policy Display */}
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="text-sm font-medium text-gray-700 mb-2">{finiteHorizon ? "Policy at Step 0" : "Optimal Policy"}</div>
+            {randomised && resultPolicy ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                {Object.keys(resultPolicy).map(state => (
+                  <div key={state} className="flex justify-between gap-2">
+                    <span className="font-mono">{state}:</span>
+                    <span className="font-medium text-right">{formatActionDistribution(resultPolicy, state)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                {Object.entries(optimizationResult.bestPolicy).map(([state, action]) => (
+                  <div key={state} className="flex justify-between">
+                    <span className="font-mono">{state}:</span>
+                    <span className="font-medium">{action}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
+
+          {companionPolicies.map(companion => (
+            <div key={companion.title} className="bg-white p-4 rounded-lg border border-gray-200">
+              <div className="text-sm font-medium text-gray-700 mb-1">{companion.title}</div>
+              <p className="text-xs text-gray-500 mb-2">{companion.note}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                {Object.keys(companion.policy).map(state => (
+                  <div key={state} className="flex justify-between gap-2">
+                    <span className="font-mono">{state}:</span>
+                    <span className="font-medium text-right">{formatActionDistribution(companion.policy, state)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
         </div>
       )}
 
       {/* Evaluation Results */}
       {evaluationResult && (
         <div className="mt-6 bg-gradient-to-r from-purple-50 to-pink-50 rounded-xl border border-purple-200 p-6">
-          <h4 className="text-lg font-semibold text-gray-800 mb-4">Policy Evaluation Results</h4>
+          <h4 className="text-lg font-semibold text-gray-800 mb-1">Policy Evaluation Results</h4>
+          <p className="text-sm text-gray-600 mb-4">{evaluationResult.policy?.label}, {evaluationResult.episodes} simulated episodes</p>
           
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
             <div className="bg-white p-3 rounded-lg border border-gray-200">
@@ -560,7 +1165,7 @@ export default function AgentOptimizer({ mdp, startState, baselineResult: propBa
               <div className="text-sm font-medium text-gray-700 mb-2">Performance Comparison</div>
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <div className="text-xs text-gray-600">Baseline Avg Reward</div>
+                  <div className="text-xs text-gray-600">Baseline Avg Reward ({baselineResult.policy?.label ?? "Uniform random"})</div>
                   <div className="font-bold">{baselineResult.avgTotalReward.toFixed(3)}</div>
                 </div>
                 <div>
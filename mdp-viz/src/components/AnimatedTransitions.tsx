@@ -3,11 +3,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { MDP } from '@/types/mdp';
+import { formatActionDistribution, policyDistance, type Policy } from '@/lib/stochasticPolicy';
 
 interface AnimatedTransitionsProps {
   mdp: MDP;
-  currentPolicy: Record<string, string>;
-  targetPolicy: Record<string, string>;
+  currentPolicy: Policy; // deterministic or state -> action -> probability
+  targetPolicy: Policy;
   valueFunction?: Record<string, number>;
   onAnimationComplete?: () => void;
 }
@@ -16,6 +17,7 @@ interface PolicyChange {
   state: string;
   oldAction: string;
   newAction: string;
+  shift: number; // total variation distance between the old and new action distributions
   valueChange: number;
 }
 
@@ -36,17 +38,17 @@ export default function AnimatedTransitions({
     const policyChanges: PolicyChange[] = [];
     
     mdp.states.forEach(state => {
-      const currentAction = currentPolicy[state];
-      const targetAction = targetPolicy[state];
+      const shift = policyDistance(currentPolicy, targetPolicy, state);
       
-      if (currentAction !== targetAction) {
+      if (shift > 1e-9) {
         const oldValue = valueFunction?.[state] ?? 0;
         const newValue = valueFunction?.[state] ?? 0;
         
         policyChanges.push({
           state,
-          oldAction: currentAction,
-          newAction: targetAction,
+          oldAction: formatActionDistribution(currentPolicy, state),
+          newAction: formatActionDistribution(targetPolicy, state),
+          shift,
           valueChange: newValue - oldValue
         });
       }
@@ -204,6 +206,15 @@ export default function AnimatedTransitions({
                   </motion.span>
                 </div>
                 
+                {change.shift < 1 - 1e-9 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">Probability Moved:</span>
+                    <span className="font-mono bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                      {(change.shift * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                )}
+                
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-600">Value Change:</span>
                   <span className={`font-mono px-2 py-1 rounded ${
@@ -1,7 +1,8 @@
 "use client";
 
 import { useMemo } from "react";
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from "recharts";
+import { goodnessOfFit, histogramBin, type ReturnDistribution } from "@/lib/returnDistribution";
 
 function makeHistogram(values: number[], bins = 30) {
   if (!values.length) return [];
@@ -10,9 +11,7 @@ function makeHistogram(values: number[], bins = 30) {
   const width = (max - min) / (bins || 1) || 1;
   const counts = Array(bins).fill(0);
   for (const v of values) {
-    let idx = Math.floor((v - min) / width);
-    if (idx >= bins) idx = bins - 1;
-    counts[idx]++;
+    counts[histogramBin(v, min, width, bins)]++;
   }
   return counts.map((c, i) => ({
     x: min + (i + 0.5) * width,
@@ -21,8 +20,25 @@ function makeHistogram(values: number[], bins = 30) {
   }));
 }
 
-export default function DistributionChart({ values, bins = 30 }: { values: number[]; bins?: number }) {
-  const data = useMemo(() => makeHistogram(values, bins), [values, bins]);
+function formatPValue(p: number) {
+  return p < 1e-4 ? "< 0.0001" : p.toFixed(4);
+}
+
+interface DistributionChartProps {
+  values: number[];
+  bins?: number;
+  policyLabel?: string;
+  exact?: ReturnDistribution | null; // the exact law of the sampled returns, drawn over the histogram
+}
+
+export default function DistributionChart({ values, bins = 30, policyLabel, exact }: DistributionChartProps) {
+  const fit = useMemo(() => (exact && values.length ? goodnessOfFit(values, exact, bins) : null), [values, exact, bins]);
+  const data = useMemo(
+    () => fit
+      ? fit.bins.map(bin => ({ ...bin, percentage: (bin.count / values.length) * 100 }))
+      : makeHistogram(values, bins),
+    [fit, values, bins]
+  );
   
   const stats = useMemo(() => {
     if (!values.length) return null;
@@ -42,9 +58,12 @@ export default function DistributionChart({ values, bins = 30 }: { values: numbe
 
   return (
     <div className="w-full">
+      {policyLabel && (
+        <p className="mb-3 text-sm text-gray-600">Returns of episodes run under: <span className="font-medium">{policyLabel}</span></p>
+      )}
       <div className="h-96 bg-white rounded-lg shadow-lg p-4">
         <ResponsiveContainer>
-          <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+          <ComposedChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis 
               dataKey="x" 
@@ -56,13 +75,17 @@ export default function DistributionChart({ values, bins = 30 }: { values: numbe
             />
             <Tooltip 
               formatter={(value: number, name: string) => [
-                name === "count" ? `${value} episodes` : `${value.toFixed(1)}%`,
-                name === "count" ? "Count" : "Percentage"
+                name === "Exact" ? `${value.toFixed(1)} episodes` : `${value} episodes`,
+                name
               ]} 
               labelFormatter={(v) => `Reward ≈ ${Number(v).toFixed(2)}`} 
             />
-            <Bar dataKey="count" fill="#4F46E5" />
-          </BarChart>
+            {fit && <Legend verticalAlign="top" />}
+            <Bar dataKey="count" name="Sampled" fill="#4F46E5" />
+            {fit && (
+              <Line type="monotone" dataKey="expected" name="Exact" stroke="#F59E0B" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
       
@@ -90,6 +113,46 @@ export default function DistributionChart({ values, bins = 30 }: { values: numbe
           </div>
         </div>
       )}
+
+      {fit && exact && (
+        <div className="mt-6 p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm">
+          <div className="font-medium text-gray-800 mb-2">
+            Fit to the {exact.exact ? "exact" : "projected"} return distribution over {exact.maxSteps} steps
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+            <div>
+              <div className="text-xs text-gray-600 uppercase tracking-wide">Exact Mean ± Std Dev</div>
+              <div className="font-mono font-bold">{exact.mean.toFixed(3)} ± {exact.std.toFixed(3)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-600 uppercase tracking-wide">χ² ({fit.degreesOfFreedom} d.f.)</div>
+              <div className="font-mono font-bold">
+                {fit.chiSquare.toFixed(2)} <span className="font-normal text-gray-600">p = {formatPValue(fit.chiSquarePValue)}</span>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-600 uppercase tracking-wide">KS Distance</div>
+              <div className="font-mono font-bold">
+                {fit.ksDistance !== null && fit.ksPValue !== null ? (
+                  <>
+                    {fit.ksDistance.toFixed(4)} <span className="font-normal text-gray-600">p = {formatPValue(fit.ksPValue)}</span>
+                  </>
+                ) : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-600 uppercase tracking-wide">95% KS Band</div>
+              <div className="font-mono font-bold">± {fit.ksCritical.toFixed(4)}</div>
+            </div>
+          </div>
+          <p className={fit.chiSquarePValue < 0.01 ? "text-red-700" : "text-gray-600"}>
+            {fit.chiSquarePValue < 0.01
+              ? "The samples are unlikely under the model (p < 0.01). Check that the simulation used this policy and step limit, or look for a sampling bug."
+              : `The samples are consistent with the model. With ${fit.samples} episodes the sampled CDF stays within ±${fit.ksCritical.toFixed(3)} of the exact one at 95% confidence; quadrupling the episodes halves that band.`}
+            {!exact.exact && ` The support outgrew ${exact.atoms.length} atoms, so neighbouring atoms were merged: the mean is exact but the shape is approximate, the KS test is skipped, and with many episodes a small χ² p-value may come from the merging rather than the sampler.`}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
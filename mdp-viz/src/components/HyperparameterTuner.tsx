@@ -1,23 +1,20 @@
 "use client";
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { MDP } from '@/types/mdp';
 import { 
-  valueIteration, 
-  policyIteration, 
-  qLearning,
-  sarsa,
-  actorCritic,
-  tdLambda,
   type OptimizationResult,
   type OptimizationConfig
 } from '@/lib/optimizer';
+import { runJob, isAbortError } from '@/lib/jobRunner';
+import { randomSeed, rngFromSeed, type RNG } from '@/lib/rng';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 
 interface HyperparameterTunerProps {
   mdp: MDP;
   startState: string;
+  seed?: number;
   onTuningComplete?: (bestConfig: OptimizationConfig, bestResult: OptimizationResult) => void;
 }
 
@@ -47,12 +44,16 @@ interface TuningConfig {
 export default function HyperparameterTuner({
   mdp,
   startState,
+  seed: pageSeed,
   onTuningComplete
 }: HyperparameterTunerProps) {
   const [isTuning, setIsTuning] = useState(false);
   const [currentTrial, setCurrentTrial] = useState(0);
   const [bestResult, setBestResult] = useState<TuningResult | null>(null);
   const [tuningHistory, setTuningHistory] = useState<TuningResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const [seed, setSeed] = useState(pageSeed ?? 42);
+  const [runSeed, setRunSeed] = useState<number | null>(null);
   const [tuningConfig, setTuningConfig] = useState<TuningConfig>({
     algorithm: 'value-iteration',
     parameterRanges: {
@@ -79,106 +80,116 @@ export default function HyperparameterTuner({
     }
   }, []);
 
-  const generateRandomConfig = useCallback((): OptimizationConfig => {
-    const config: OptimizationConfig = {};
+  // Follow the page-level seed so a run can be repeated from the same settings
+  useEffect(() => {
+    if (pageSeed !== undefined) {
+      setSeed(pageSeed);
+    }
+  }, [pageSeed]);
+
+  // Candidates and each trial's own seed come from one stream, so a tuning run repeats exactly
+  const generateRandomConfig = useCallback((rng: RNG): OptimizationConfig => {
+    const config: OptimizationConfig = { seed: Math.floor(rng() * 4294967296) };
     
     if (tuningConfig.parameterRanges.gamma) {
       const [min, max] = tuningConfig.parameterRanges.gamma;
-      config.gamma = min + Math.random() * (max - min);
+      config.gamma = min + rng() * (max - min);
     }
     
     if (tuningConfig.parameterRanges.learningRate) {
       const [min, max] = tuningConfig.parameterRanges.learningRate;
-      config.learningRate = min + Math.random() * (max - min);
+      config.learningRate = min + rng() * (max - min);
     }
     
     if (tuningConfig.parameterRanges.epsilon) {
       const [min, max] = tuningConfig.parameterRanges.epsilon;
-      config.epsilon = min + Math.random() * (max - min);
+      config.epsilon = min + rng() * (max - min);
     }
     
     if (tuningConfig.parameterRanges.episodes) {
       const [min, max] = tuningConfig.parameterRanges.episodes;
-      config.episodes = Math.floor(min + Math.random() * (max - min));
+      config.episodes = Math.floor(min + rng() * (max - min));
     }
     
     if (tuningConfig.parameterRanges.lambda) {
       const [min, max] = tuningConfig.parameterRanges.lambda;
-      config.lambda = min + Math.random() * (max - min);
+      config.lambda = min + rng() * (max - min);
     }
     
     if (tuningConfig.parameterRanges.maxIterations) {
       const [min, max] = tuningConfig.parameterRanges.maxIterations;
-      config.maxIterations = Math.floor(min + Math.random() * (max - min));
+      config.maxIterations = Math.floor(min + rng() * (max - min));
     }
     
     if (tuningConfig.parameterRanges.tolerance) {
       const [min, max] = tuningConfig.parameterRanges.tolerance;
-      config.tolerance = min + Math.random() * (max - min);
+      config.tolerance = min + rng() * (max - min);
     }
     
     return config;
   }, [tuningConfig]);
 
-  const runOptimization = useCallback(async (config: OptimizationConfig): Promise<OptimizationResult> => {
-    switch (tuningConfig.algorithm) {
-      case 'value-iteration':
-        return valueIteration(mdp, config);
-      case 'policy-iteration':
-        return policyIteration(mdp, config);
-      case 'q-learning':
-        return qLearning(mdp, startState, config);
-      case 'sarsa':
-        return sarsa(mdp, startState, config);
-      case 'actor-critic':
-        return actorCritic(mdp, startState, config);
-      case 'td-lambda':
-        return tdLambda(mdp, startState, config);
-      default:
-        return valueIteration(mdp, config);
-    }
+  const runOptimization = useCallback(async (config: OptimizationConfig, signal: AbortSignal): Promise<OptimizationResult> => {
+    return runJob(
+      { kind: 'optimize', algorithm: tuningConfig.algorithm, mdp, startState, config },
+      { signal }
+    );
   }, [mdp, startState, tuningConfig.algorithm]);
 
   const startTuning = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsTuning(true);
     setCurrentTrial(0);
     setBestResult(null);
     setTuningHistory([]);
+    setRunSeed(seed);
+    const rng = rngFromSeed(seed);
+
+    let best: TuningResult | null = null;
 
-    for (let trial = 0; trial < tuningConfig.maxTrials; trial++) {
-      setCurrentTrial(trial + 1);
-      
-      const config = generateRandomConfig();
-      const result = await runOptimization(config);
-      const score = calculateScore(result, tuningConfig.optimizationMetric);
-      
-      const tuningResult: TuningResult = {
-        config,
-        result,
-        score
-      };
-      
-      setTuningHistory(prev => [...prev, tuningResult]);
-      
-      if (!bestResult || score > bestResult.score) {
-        setBestResult(tuningResult);
+    try {
+      for (let trial = 0; trial < tuningConfig.maxTrials; trial++) {
+        setCurrentTrial(trial + 1);
+        
+        const config = generateRandomConfig(rng);
+        const result = await runOptimization(config, controller.signal);
+        const score = calculateScore(result, tuningConfig.optimizationMetric);
+        
+        const tuningResult: TuningResult = {
+          config,
+          result,
+          score
+        };
+        
+        setTuningHistory(prev => [...prev, tuningResult]);
+        
+        if (!best || score > best.score) {
+          best = tuningResult;
+          setBestResult(tuningResult);
+        }
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Tuning failed:', error);
       }
-      
-      // Small delay to allow UI updates
-      await new Promise(resolve => setTimeout(resolve, 100));
+    } finally {
+      abortRef.current = null;
+      setIsTuning(false);
     }
     
-    setIsTuning(false);
-    
-    if (bestResult) {
-      onTuningComplete?.(bestResult.config, bestResult.result);
+    if (best) {
+      onTuningComplete?.(best.config, best.result);
     }
   };
 
   const stopTuning = () => {
-    setIsTuning(false);
+    abortRef.current?.abort();
   };
 
+  // Stop any in-flight worker when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -208,7 +219,7 @@ export default function HyperparameterTuner({
       </div>
 
       {/* Configuration */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
         <div>
           <Label className="block text-sm font-medium text-gray-700 mb-2">Algorithm</Label>
           <Select
@@ -269,6 +280,29 @@ export default function HyperparameterTuner({
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Random Seed</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={seed}
+              onChange={(e) => setSeed(parseInt(e.target.value) >>> 0)}
+              disabled={isTuning}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <button
+              type="button"
+              onClick={() => setSeed(randomSeed())}
+              disabled={isTuning}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+              title="Draw a new random seed"
+            >
+              🎲
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* Progress */}
@@ -324,7 +358,10 @@ export default function HyperparameterTuner({
       {/* Tuning History */}
       {tuningHistory.length > 0 && (
         <div>
-          <h4 className="font-semibold text-gray-800 mb-3">Tuning History</h4>
+          <h4 className="font-semibold text-gray-800 mb-3">
+            Tuning History
+            {runSeed !== null && <span className="ml-2 text-sm font-normal text-gray-500 font-mono">seed {runSeed}</span>}
+          </h4>
           <div className="max-h-64 overflow-y-auto">
             <div className="grid grid-cols-1 gap-2">
               {tuningHistory.map((result, index) => (
@@ -8,12 +8,13 @@ import {
 } from 'recharts';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import type { MDP } from '@/types/mdp';
+import { actionsFromState, type MDP } from '@/types/mdp';
+import { actionDistribution, formatActionDistribution, type Policy } from '@/lib/stochasticPolicy';
 
 interface InteractiveChartsProps {
   mdp: MDP;
   valueFunction?: Record<string, number>;
-  policy?: Record<string, string>;
+  policy?: Policy; // deterministic or state -> action -> probability
   convergenceHistory?: number[];
   progressHistory?: Array<{
     iteration: number;
@@ -25,7 +26,7 @@ interface InteractiveChartsProps {
 }
 
 type ChartType = 'line' | 'area' | 'bar' | 'pie' | 'scatter';
-type DataType = 'values' | 'policy' | 'convergence' | 'progress';
+type DataType = 'values' | 'policy' | 'probabilities' | 'convergence' | 'progress';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
@@ -43,6 +44,12 @@ export default function InteractiveCharts({
   const [showGrid, setShowGrid] = useState(true);
   const [showLegend, setShowLegend] = useState(true);
 
+  // Every action some state can take, for one stacked series per action
+  const allActions = useMemo(
+    () => [...new Set(mdp.states.flatMap(state => actionsFromState(mdp, state)))],
+    [mdp]
+  );
+
   // Prepare data for different chart types
   const chartData = useMemo(() => {
     switch (dataType) {
@@ -50,19 +57,33 @@ export default function InteractiveCharts({
         return mdp.states.map(state => ({
           state,
           value: valueFunction?.[state] ?? 0,
-          policy: policy?.[state] ?? 'N/A'
+          policy: policy?.[state] !== undefined ? formatActionDistribution(policy, state) : 'N/A'
         }));
       
       case 'policy':
+        // A randomised state counts fractionally towards each action it may take
         const policyCounts: Record<string, number> = {};
         mdp.states.forEach(state => {
-          const action = policy?.[state] ?? 'N/A';
-          policyCounts[action] = (policyCounts[action] || 0) + 1;
+          const distribution = policy ? actionDistribution(policy, state) : [];
+          if (distribution.length === 0) {
+            policyCounts['N/A'] = (policyCounts['N/A'] || 0) + 1;
+          }
+          distribution.forEach(([action, p]) => {
+            policyCounts[action] = (policyCounts[action] || 0) + p;
+          });
         });
         return Object.entries(policyCounts).map(([action, count]) => ({
           action,
           count
         }));
+
+      case 'probabilities':
+        return mdp.states
+          .filter(state => policy?.[state] !== undefined)
+          .map(state => ({
+            state,
+            ...Object.fromEntries(actionDistribution(policy!, state))
+          }));
       
       case 'convergence':
         return convergenceHistory?.map((delta, index) => ({
@@ -82,13 +103,15 @@ export default function InteractiveCharts({
     }
   }, [dataType, mdp.states, valueFunction, policy, convergenceHistory, progressHistory]);
 
+  const isStateData = dataType === 'values' || dataType === 'probabilities';
+
   // Filter data based on selected states
   const filteredData = useMemo(() => {
-    if (dataType === 'values' && selectedStates.length > 0) {
+    if (isStateData && selectedStates.length > 0) {
       return chartData.filter(item => 'state' in item && selectedStates.includes(item.state));
     }
     return chartData;
-  }, [chartData, selectedStates, dataType]);
+  }, [chartData, selectedStates, isStateData]);
 
   const renderChart = () => {
     const commonProps = {
@@ -96,6 +119,22 @@ export default function InteractiveCharts({
       margin: { top: 20, right: 30, left: 20, bottom: 5 }
     };
 
+    // Action probabilities always stack to 1 per state, whatever the chart type
+    if (dataType === 'probabilities') {
+      return (
+        <BarChart {...commonProps}>
+          {showGrid && <CartesianGrid strokeDasharray="3 3" />}
+          <XAxis dataKey="state" />
+          <YAxis domain={[0, 1]} />
+          <Tooltip formatter={(value) => `${(Number(value) * 100).toFixed(1)}%`} />
+          {showLegend && <Legend />}
+          {allActions.map((action, index) => (
+            <Bar key={action} dataKey={action} stackId="policy" fill={COLORS[index % COLORS.length]} />
+          ))}
+        </BarChart>
+      );
+    }
+
     switch (chartType) {
       case 'line':
         return (
@@ -215,7 +254,7 @@ export default function InteractiveCharts({
       <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
         <div>
           <Label className="block text-sm font-medium text-gray-700 mb-1">Chart Type</Label>
-          <Select value={chartType} onValueChange={(value) => setChartType(value as ChartType)}>
+          <Select value={chartType} onValueChange={(value) => setChartType(value as ChartType)} disabled={dataType === 'probabilities'}>
                           <SelectTrigger className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500">
                 <SelectValue placeholder="Select chart type" />
               </SelectTrigger>
@@ -238,6 +277,7 @@ export default function InteractiveCharts({
             <SelectContent>
               <SelectItem value="values">Value Function</SelectItem>
               <SelectItem value="policy">Policy Distribution</SelectItem>
+              <SelectItem value="probabilities">Action Probabilities</SelectItem>
               <SelectItem value="convergence">Convergence</SelectItem>
               <SelectItem value="progress">Progress History</SelectItem>
             </SelectContent>
@@ -280,7 +320,7 @@ export default function InteractiveCharts({
           </label>
         </div>
 
-        {dataType === 'values' && (
+        {isStateData && (
           <div>
             <Label className="block text-sm font-medium text-gray-700 mb-1">Filter States</Label>
             <Select 
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { type MDP, validateTransitionMass } from "@/types/mdp";
+import { type Constraint, type MDP, type UncertaintySet, validateTransitionMass, validateUncertainty } from "@/types/mdp";
+import { detectFormat, mdpFormats, parseMdp, serializeMdp, type MdpFormat } from "@/lib/mdpFormat";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 
@@ -22,6 +23,8 @@ interface TransitionConfig {
   nextState: string;
   probability: number;
   reward: number;
+  costs?: Record<string, number>;
+  bounds?: [number, number]; // probability interval when the row's uncertainty is given as intervals
 }
 
 interface StateActionConfig {
@@ -34,6 +37,17 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
   const [states, setStates] = useState<string[]>(["S0", "S1", "S2"]);
   const [actions, setActions] = useState<string[]>(["a", "b"]);
   const [gamma, setGamma] = useState<number>(0.95);
+  const [terminalStates, setTerminalStates] = useState<string[]>([]);
+  const [terminalRewards, setTerminalRewards] = useState<Record<string, number>>({});
+  const [stateRewards, setStateRewards] = useState<Record<string, number>>({});
+  const [actionRewards, setActionRewards] = useState<Record<string, number>>({}); // key: `${state}|${action}`
+  const [initialDistribution, setInitialDistribution] = useState<Record<string, number> | null>(null);
+  const [constraints, setConstraints] = useState<Constraint[]>([]);
+  const [uncertaintyRadius, setUncertaintyRadius] = useState<Record<string, number>>({}); // L1 rows, key: `${state}|${action}`
+  const [exportFormat, setExportFormat] = useState<MdpFormat>("json");
+  const [isDragging, setIsDragging] = useState(false);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [editingStates, setEditingStates] = useState<{ [key: string]: string | undefined }>({});
   const [editingActions, setEditingActions] = useState<{ [key: string]: string | undefined }>({});
   const [transitions, setTransitions] = useState<StateActionConfig>({
@@ -71,6 +85,25 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
       
       // Update gamma
       setGamma(externalMdp.gamma || 0.95);
+
+      // Update terminal states
+      setTerminalStates(externalMdp.terminalStates ?? []);
+      setTerminalRewards(externalMdp.terminalRewards ?? {});
+
+      // Update reward layers
+      setStateRewards(externalMdp.stateRewards ?? {});
+      setActionRewards(externalMdp.actionRewards ?? {});
+
+      // Update initial distribution
+      setInitialDistribution(externalMdp.initialDistribution ?? null);
+
+      // Update constraints
+      setConstraints(externalMdp.constraints ?? []);
+
+      // Update L1 uncertainty sets; interval bounds travel with their transitions below
+      setUncertaintyRadius(Object.fromEntries(
+        Object.entries(externalMdp.uncertainty ?? {}).flatMap(([key, set]) => (set.type === "l1" ? [[key, set.radius]] : []))
+      ));
       
       // Update transitions
       const newTransitions: StateActionConfig = {};
@@ -82,10 +115,13 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
           const transitionList = externalMdp.transitions[key] || [];
           
           if (transitionList.length > 0) {
-            newTransitions[state][action] = transitionList.map(t => ({
+            const set = externalMdp.uncertainty?.[key];
+            newTransitions[state][action] = transitionList.map((t, i) => ({
               nextState: t.nextState,
               probability: t.probability,
-              reward: t.reward || 0
+              reward: t.reward || 0,
+              ...(t.costs && { costs: t.costs }),
+              ...(set?.type === "interval" && set.bounds[i] && { bounds: set.bounds[i] })
             }));
           } else {
             // Default transition if none exists
@@ -189,8 +225,37 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
       }
     }
     
+    // Check initial distribution
+    if (initialDistribution) {
+      const totalProb = states.reduce((sum, state) => sum + (initialDistribution[state] ?? 0), 0);
+      if (Math.abs(totalProb - 1.0) > 0.001) {
+        errors.push({
+          type: "probability",
+          message: `Initial distribution must sum to 1.0 (currently ${totalProb.toFixed(3)})`,
+          field: "initialDistribution"
+        });
+      }
+    }
+    
+    // Check constraints name a cost some transition carries
+    const usedChannels = new Set(
+      Object.values(transitions).flatMap(byAction => Object.values(byAction).flatMap(list => list.flatMap(t => Object.keys(t.costs ?? {}))))
+    );
+    for (const constraint of constraints) {
+      if (!constraint.cost.trim()) {
+        errors.push({ type: "general", message: "Every constraint needs a cost channel name", field: "constraints" });
+      } else if (!usedChannels.has(constraint.cost)) {
+        errors.push({
+          type: "general",
+          message: `Constraint on "${constraint.cost}" has no transition costs`,
+          details: `Give at least one transition a ${constraint.cost} cost`,
+          field: "constraints"
+        });
+      }
+    }
+    
     return errors;
-  }, [states, actions, gamma, transitions]);
+  }, [states, actions, gamma, transitions, initialDistribution, constraints]);
 
   // Update MDP when configuration changes
   useEffect(() => {
@@ -210,9 +275,11 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
       }
       
       const mdpTransitions: MDP["transitions"] = {};
+      const uncertainty: Record<string, UncertaintySet> = {};
       
-      // Convert our internal format to MDP format
+      // Convert our internal format to MDP format; terminal states have no outgoing transitions
       for (const state of states) {
+        if (terminalStates.includes(state)) continue;
         for (const action of actions) {
           const key = `${state}|${action}`;
           const transitionList = transitions[state]?.[action] || [];
@@ -221,16 +288,52 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
           const validTransitions = transitionList.filter(t => t.probability > 0);
           
           if (validTransitions.length > 0) {
-            mdpTransitions[key] = validTransitions;
+            mdpTransitions[key] = validTransitions.map(t => ({
+              nextState: t.nextState,
+              probability: t.probability,
+              reward: t.reward,
+              ...(t.costs && { costs: t.costs })
+            }));
+            if (validTransitions.some(t => t.bounds)) {
+              uncertainty[key] = {
+                type: "interval",
+                bounds: validTransitions.map(t => t.bounds ?? [t.probability, t.probability])
+              };
+            } else if (uncertaintyRadius[key] > 0) {
+              uncertainty[key] = { type: "l1", radius: uncertaintyRadius[key] };
+            }
           }
         }
       }
 
+      const activeTerminals = terminalStates.filter(s => states.includes(s));
+      const activeTerminalRewards = Object.fromEntries(
+        Object.entries(terminalRewards).filter(([s, r]) => activeTerminals.includes(s) && r !== 0)
+      );
+
+      const activeStateRewards = Object.fromEntries(
+        Object.entries(stateRewards).filter(([s, r]) => states.includes(s) && !activeTerminals.includes(s) && r !== 0)
+      );
+      const activeActionRewards = Object.fromEntries(
+        Object.entries(actionRewards).filter(([key, r]) => mdpTransitions[key] !== undefined && r !== 0)
+      );
+
       const mdp: MDP = {
         states,
         actions,
         transitions: mdpTransitions,
-        gamma
+        gamma,
+        ...(activeTerminals.length > 0 && { terminalStates: activeTerminals }),
+        ...(Object.keys(activeTerminalRewards).length > 0 && { terminalRewards: activeTerminalRewards }),
+        ...(Object.keys(activeStateRewards).length > 0 && { stateRewards: activeStateRewards }),
+        ...(Object.keys(activeActionRewards).length > 0 && { actionRewards: activeActionRewards }),
+        ...(initialDistribution && {
+          initialDistribution: Object.fromEntries(
+            states.filter(s => (initialDistribution[s] ?? 0) > 0).map(s => [s, initialDistribution[s]])
+          )
+        }),
+        ...(constraints.length > 0 && { constraints }),
+        ...(Object.keys(uncertainty).length > 0 && { uncertainty })
       };
 
       // Additional validation using existing function
@@ -241,6 +344,13 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
         return;
       }
 
+      const uncertaintyErrors = validateUncertainty(mdp);
+      if (uncertaintyErrors.length > 0) {
+        onError("Uncertainty errors: " + uncertaintyErrors.join(", "));
+        onMDPChange(null);
+        return;
+      }
+
       onError(null);
       onMDPChange(mdp);
       console.log("MDPConfigurator: Updated MDP", mdp);
@@ -248,7 +358,7 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
       onError("Invalid MDP configuration");
       onMDPChange(null);
     }
-  }, [states, actions, transitions, gamma, validateConfiguration, onError, onMDPChange]);
+  }, [states, actions, transitions, gamma, terminalStates, terminalRewards, stateRewards, actionRewards, initialDistribution, constraints, uncertaintyRadius, validateConfiguration, onError, onMDPChange]);
 
   const addState = () => {
     const newState = `S${states.length}`;
@@ -308,6 +418,21 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
     }
     
     setTransitions(newTransitions);
+    setTerminalStates(terminalStates.map(s => s === oldState ? newState : s));
+    if (terminalRewards[oldState] !== undefined) {
+      const { [oldState]: reward, ...rest } = terminalRewards;
+      setTerminalRewards({ ...rest, [newState]: reward });
+    }
+    if (initialDistribution?.[oldState] !== undefined) {
+      const { [oldState]: probability, ...rest } = initialDistribution;
+      setInitialDistribution({ ...rest, [newState]: probability });
+    }
+    if (stateRewards[oldState] !== undefined) {
+      const { [oldState]: reward, ...rest } = stateRewards;
+      setStateRewards({ ...rest, [newState]: reward });
+    }
+    setActionRewards(renameRewardKeys(actionRewards, (s, a) => `${s === oldState ? newState : s}|${a}`));
+    setUncertaintyRadius(renameRewardKeys(uncertaintyRadius, (s, a) => `${s === oldState ? newState : s}|${a}`));
     setEditingStates(prev => ({ ...prev, [oldState]: undefined }));
   };
 
@@ -335,6 +460,93 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
     }
     
     setTransitions(newTransitions);
+    setTerminalStates(terminalStates.filter(s => s !== stateToRemove));
+    if (terminalRewards[stateToRemove] !== undefined) {
+      const rest = { ...terminalRewards };
+      delete rest[stateToRemove];
+      setTerminalRewards(rest);
+    }
+    if (initialDistribution?.[stateToRemove] !== undefined) {
+      const rest = { ...initialDistribution };
+      delete rest[stateToRemove];
+      setInitialDistribution(rest);
+    }
+    if (stateRewards[stateToRemove] !== undefined) {
+      const rest = { ...stateRewards };
+      delete rest[stateToRemove];
+      setStateRewards(rest);
+    }
+    setActionRewards(renameRewardKeys(actionRewards, (s, a) => s === stateToRemove ? null : `${s}|${a}`));
+    setUncertaintyRadius(renameRewardKeys(uncertaintyRadius, (s, a) => s === stateToRemove ? null : `${s}|${a}`));
+  };
+
+  // Re-key R(s,a) entries after a rename; returning null drops the entry
+  const renameRewardKeys = (
+    rewards: Record<string, number>,
+    rekey: (state: string, action: string) => string | null
+  ): Record<string, number> => {
+    const result: Record<string, number> = {};
+    for (const [key, reward] of Object.entries(rewards)) {
+      const [state, action] = key.split("|");
+      const newKey = rekey(state, action);
+      if (newKey) result[newKey] = reward;
+    }
+    return result;
+  };
+
+  const updateStateReward = (state: string, reward: number) => {
+    setStateRewards({ ...stateRewards, [state]: reward });
+  };
+
+  const updateActionReward = (state: string, action: string, reward: number) => {
+    setActionRewards({ ...actionRewards, [`${state}|${action}`]: reward });
+  };
+
+  const toggleInitialDistribution = (enabled: boolean) => {
+    setInitialDistribution(enabled ? uniformDistribution() : null);
+  };
+
+  const uniformDistribution = () =>
+    Object.fromEntries(states.map(s => [s, 1 / states.length]));
+
+  const updateInitialProbability = (state: string, probability: number) => {
+    setInitialDistribution({ ...(initialDistribution ?? {}), [state]: probability });
+  };
+
+  // Channels named by a constraint or carried by any transition
+  const channels = [...new Set([
+    ...constraints.map(c => c.cost).filter(Boolean),
+    ...Object.values(transitions).flatMap(byAction => Object.values(byAction).flatMap(list => list.flatMap(t => Object.keys(t.costs ?? {}))))
+  ])];
+
+  const addConstraint = () => {
+    setConstraints([...constraints, { cost: channels[0] ?? "cost", budget: 1 }]);
+  };
+
+  const updateConstraint = (index: number, constraint: Constraint) => {
+    setConstraints(constraints.map((c, i) => (i === index ? constraint : c)));
+  };
+
+  const removeConstraint = (index: number) => {
+    setConstraints(constraints.filter((_, i) => i !== index));
+  };
+
+  const updateTransitionCost = (state: string, action: string, index: number, channel: string, value: number) => {
+    const transition = transitions[state][action][index];
+    const costs = Object.fromEntries(
+      Object.entries({ ...transition.costs, [channel]: value }).filter(([, cost]) => cost !== 0)
+    );
+    updateTransition(state, action, index, "costs", costs);
+  };
+
+  const toggleTerminal = (state: string) => {
+    setTerminalStates(terminalStates.includes(state)
+      ? terminalStates.filter(s => s !== state)
+      : [...terminalStates, state]);
+  };
+
+  const updateTerminalReward = (state: string, reward: number) => {
+    setTerminalRewards({ ...terminalRewards, [state]: reward });
   };
 
   const addAction = () => {
@@ -387,6 +599,8 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
     }
     
     setTransitions(newTransitions);
+    setActionRewards(renameRewardKeys(actionRewards, (s, a) => `${s}|${a === oldAction ? newAction : a}`));
+    setUncertaintyRadius(renameRewardKeys(uncertaintyRadius, (s, a) => `${s}|${a === oldAction ? newAction : a}`));
     setEditingActions(prev => ({ ...prev, [oldAction]: undefined }));
   };
 
@@ -401,9 +615,11 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
       delete newTransitions[state][actionToRemove];
     }
     setTransitions(newTransitions);
+    setActionRewards(renameRewardKeys(actionRewards, (s, a) => a === actionToRemove ? null : `${s}|${a}`));
+    setUncertaintyRadius(renameRewardKeys(uncertaintyRadius, (s, a) => a === actionToRemove ? null : `${s}|${a}`));
   };
 
-  const updateTransition = (state: string, action: string, index: number, field: keyof TransitionConfig, value: string | number) => {
+  const updateTransition = (state: string, action: string, index: number, field: keyof TransitionConfig, value: string | number | Record<string, number> | [number, number]) => {
     const newTransitions = { ...transitions };
     if (!newTransitions[state]) newTransitions[state] = {};
     if (!newTransitions[state][action]) newTransitions[state][action] = [];
@@ -421,10 +637,12 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
     if (!newTransitions[state]) newTransitions[state] = {};
     if (!newTransitions[state][action]) newTransitions[state][action] = [];
     
+    const intervalRow = newTransitions[state][action].some(t => t.bounds);
     newTransitions[state][action].push({
       nextState: states[0],
       probability: 0,
-      reward: 0
+      reward: 0,
+      ...(intervalRow && { bounds: [0, 0] as [number, number] })
     });
     
     setTransitions(newTransitions);
@@ -442,19 +660,121 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
     setTransitions(newTransitions);
   };
 
+  // Switch a row between no uncertainty, per-outcome probability intervals and an L1 ball
+  const setRowUncertainty = (state: string, action: string, kind: "none" | "interval" | "l1") => {
+    const key = `${state}|${action}`;
+    const newTransitions = { ...transitions };
+    newTransitions[state] = {
+      ...newTransitions[state],
+      [action]: (newTransitions[state]?.[action] ?? []).map(({ bounds, ...t }) =>
+        kind === "interval" ? { ...t, bounds: bounds ?? [t.probability, t.probability] } : t
+      )
+    };
+    setTransitions(newTransitions);
+    const rest = { ...uncertaintyRadius };
+    delete rest[key];
+    setUncertaintyRadius(kind === "l1" ? { ...rest, [key]: uncertaintyRadius[key] ?? 0.1 } : rest);
+  };
+
   const getTotalProbability = (state: string, action: string) => {
     const transitionList = transitions[state]?.[action] || [];
     return transitionList.reduce((sum, t) => sum + t.probability, 0);
   };
 
+  const importFile = async (file: File) => {
+    const text = await file.text();
+    const format = detectFormat(file.name, text);
+    try {
+      const imported = parseMdp(text, format);
+      setImportStatus(`Imported ${file.name} (${mdpFormats[format].label})`);
+      onMDPChange(imported);
+    } catch (error) {
+      setImportStatus(null);
+      onError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportMdp = () => {
+    if (!externalMdp) return;
+    const { extension, mimeType } = mdpFormats[exportFormat];
+    const blob = new Blob([serializeMdp(externalMdp, exportFormat)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `mdp.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) importFile(file);
+  };
+
     return (
-    <div className="space-y-8">
+    <div
+      className={`space-y-8 rounded-2xl transition-all duration-200 ${isDragging ? "ring-4 ring-blue-400 ring-offset-4" : ""}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
       {/* Header */}
       <div className="text-center mb-8">
         <h2 className="text-2xl font-bold text-gray-800 mb-2">MDP Configuration</h2>
         <p className="text-gray-600">Configure your Markov Decision Process using the interactive controls below</p>
       </div>
 
+      {/* Import / Export */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <div className="mb-6">
+          <h3 className="text-xl font-semibold text-gray-800">Import / Export</h3>
+          <p className="text-sm text-gray-600 mt-1">Load a model from a JSON, YAML or text DSL file, or drop one anywhere on this panel</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml,.mdp,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 shadow-sm hover:shadow-md"
+          >
+            Import File
+          </button>
+          <div className="flex items-center gap-2 ml-auto">
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as MdpFormat)}>
+              <SelectTrigger className="w-40 border border-gray-300 rounded-lg px-4 py-3 text-sm bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(mdpFormats) as MdpFormat[]).map(format => (
+                  <SelectItem key={format} value={format}>{mdpFormats[format].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <button
+              onClick={exportMdp}
+              disabled={!externalMdp}
+              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all duration-200 shadow-sm hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+        {importStatus && (
+          <p className="text-sm text-green-700 mt-4">{importStatus}</p>
+        )}
+      </div>
+
       {/* States Configuration */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
         <div className="flex items-center justify-between mb-6">
@@ -497,6 +817,24 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                   className="font-mono font-semibold text-gray-800 bg-transparent border-none outline-none focus:ring-2 focus:ring-blue-500 rounded px-2 py-1 min-w-0 flex-1"
                   placeholder="State name"
                 />
+                <label className="flex items-center gap-1 text-xs font-medium text-gray-600 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={terminalStates.includes(state)}
+                    onChange={() => toggleTerminal(state)}
+                  />
+                  Terminal
+                </label>
+                {terminalStates.includes(state) && (
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={terminalRewards[state] ?? 0}
+                    onChange={(e) => updateTerminalReward(state, Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                    title="Reward collected on arrival"
+                  />
+                )}
               </div>
               {states.length > 1 && (
                 <button
@@ -599,6 +937,101 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
         </div>
       </div>
 
+      {/* Initial Distribution Configuration */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">Initial Distribution</h3>
+            <p className="text-sm text-gray-600">Sample each episode&apos;s start state instead of always using the selected start state</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={initialDistribution !== null}
+              onChange={(e) => toggleInitialDistribution(e.target.checked)}
+            />
+            Use distribution
+          </label>
+        </div>
+        {initialDistribution && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {states.map((state) => (
+                <div key={state} className="flex items-center gap-2 bg-gray-50 border border-gray-200 rounded-lg p-2">
+                  <span className="font-mono text-sm font-semibold text-gray-800 flex-1 truncate">{state}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={initialDistribution[state] ?? 0}
+                    onChange={(e) => updateInitialProbability(state, Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+              <span>
+                <span className="font-medium">Total:</span>{" "}
+                {states.reduce((sum, s) => sum + (initialDistribution[s] ?? 0), 0).toFixed(3)}
+              </span>
+              <button
+                onClick={() => setInitialDistribution(uniformDistribution())}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Uniform
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Constraints Configuration */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">Cost Constraints</h3>
+            <p className="text-sm text-gray-600">Cap the expected discounted total of a cost channel; set per-transition costs below</p>
+          </div>
+          <button
+            onClick={addConstraint}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-all duration-200 shadow-sm hover:shadow-md"
+          >
+            Add Constraint
+          </button>
+        </div>
+        {constraints.length > 0 && (
+          <div className="space-y-3">
+            {constraints.map((constraint, index) => (
+              <div key={index} className="flex items-center gap-3 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                <input
+                  type="text"
+                  value={constraint.cost}
+                  onChange={(e) => updateConstraint(index, { ...constraint, cost: e.target.value.trim() })}
+                  className="w-40 border border-gray-300 rounded px-2 py-1 font-mono bg-white"
+                  placeholder="channel"
+                />
+                <span className="text-gray-600">≤</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={constraint.budget}
+                  onChange={(e) => updateConstraint(index, { ...constraint, budget: Number(e.target.value) })}
+                  className="w-24 border border-gray-300 rounded px-2 py-1 bg-white"
+                />
+                <button
+                  onClick={() => removeConstraint(index)}
+                  className="ml-auto text-red-500 hover:text-red-700 text-xl font-bold px-2"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Transitions Configuration */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
         <div className="mb-6">
@@ -614,10 +1047,29 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                 </div>
                 <h4 className="text-lg font-semibold text-gray-800">State: {state}</h4>
               </div>
+              {terminalStates.includes(state) ? (
+                <p className="text-sm text-gray-600 bg-gray-100 p-3 rounded-lg">
+                  Terminal state: episodes end here and collect a reward of {terminalRewards[state] ?? 0}.
+                </p>
+              ) : (
               <div className="space-y-6">
+                <div className="flex items-center gap-3 text-sm">
+                  <label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">State Reward R(s)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={stateRewards[state] ?? 0}
+                    onChange={(e) => updateStateReward(state, Number(e.target.value))}
+                    className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+                    title="Earned on every step taken from this state"
+                  />
+                </div>
                 {actions.map((action) => {
                   const transitionList = transitions[state]?.[action] || [];
                   const totalProb = getTotalProbability(state, action);
+                  const rowKey = `${state}|${action}`;
+                  const uncertaintyKind = transitionList.some(t => t.bounds) ? "interval" : rowKey in uncertaintyRadius ? "l1" : "none";
+                  const columns = 4 + (channels.length > 0 ? 1 : 0) + (uncertaintyKind === "interval" ? 1 : 0);
                   
                   return (
                     <div key={action} className="border-l-4 border-blue-400 pl-6 bg-white rounded-r-xl p-6 shadow-sm">
@@ -629,6 +1081,45 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                           <h5 className="font-semibold text-gray-800">Action: {action}</h5>
                         </div>
                         <div className="flex items-center gap-4">
+                          <label className="flex items-center gap-2 text-xs text-gray-600 font-semibold uppercase tracking-wide">
+                            R(s,a)
+                            <input
+                              type="number"
+                              step="0.1"
+                              value={actionRewards[`${state}|${action}`] ?? 0}
+                              onChange={(e) => updateActionReward(state, action, Number(e.target.value))}
+                              className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white normal-case"
+                              title="Earned whenever this action is taken here, whatever the outcome"
+                            />
+                          </label>
+                          <div className="flex items-center gap-2 text-xs text-gray-600 font-semibold uppercase tracking-wide">
+                            Uncertainty
+                            <Select
+                              value={uncertaintyKind}
+                              onValueChange={(value) => setRowUncertainty(state, action, value as "none" | "interval" | "l1")}
+                            >
+                              <SelectTrigger className="w-28 border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white normal-case">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">None</SelectItem>
+                                <SelectItem value="interval">Intervals</SelectItem>
+                                <SelectItem value="l1">L1 ball</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {uncertaintyKind === "l1" && (
+                              <input
+                                type="number"
+                                step="0.05"
+                                min="0"
+                                max="2"
+                                value={uncertaintyRadius[rowKey]}
+                                onChange={(e) => setUncertaintyRadius({ ...uncertaintyRadius, [rowKey]: Number(e.target.value) })}
+                                className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white normal-case"
+                                title="Any distribution over these outcomes within this L1 distance of the nominal one"
+                              />
+                            )}
+                          </div>
                           <span className={`text-sm font-medium px-3 py-2 rounded-full ${
                             totalProb === 1 ? 'text-green-700 bg-green-100 border border-green-200' : 'text-red-700 bg-red-100 border border-red-200'
                           }`}>
@@ -651,7 +1142,7 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                       <div className="space-y-4">
                         {transitionList.map((transition, index) => (
                           <div key={index} className="border border-gray-200 rounded-xl p-4 bg-gray-50">
-                            <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+                            <div className={`grid grid-cols-1 ${columns === 6 ? "xl:grid-cols-6" : columns === 5 ? "xl:grid-cols-5" : "xl:grid-cols-4"} gap-6`}>
                               <div className="space-y-2">
                                 <Label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">Next State</Label>
                                 <Select
@@ -692,7 +1183,7 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                               </div>
                               
                               <div className="space-y-2">
-                                <label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">Reward</label>
+                                <label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">Reward R(s,a,s&apos;)</label>
                                 <input
                                   type="number"
                                   step="0.1"
@@ -702,6 +1193,51 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                                 />
                               </div>
                               
+                              {transition.bounds && (
+                                <div className="space-y-2">
+                                  <label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">Probability Interval</label>
+                                  <div className="flex items-center gap-2">
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      max="1"
+                                      value={transition.bounds[0]}
+                                      onChange={(e) => updateTransition(state, action, index, 'bounds', [Number(e.target.value), transition.bounds![1]])}
+                                      className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white"
+                                    />
+                                    <span className="text-gray-500">–</span>
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      max="1"
+                                      value={transition.bounds[1]}
+                                      onChange={(e) => updateTransition(state, action, index, 'bounds', [transition.bounds![0], Number(e.target.value)])}
+                                      className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white"
+                                    />
+                                  </div>
+                                </div>
+                              )}
+                              
+                              {channels.length > 0 && (
+                                <div className="space-y-2">
+                                  <label className="text-xs text-gray-600 font-semibold uppercase tracking-wide">Costs</label>
+                                  {channels.map(channel => (
+                                    <div key={channel} className="flex items-center gap-2">
+                                      <span className="font-mono text-xs text-gray-700 w-20 truncate">{channel}</span>
+                                      <input
+                                        type="number"
+                                        step="0.1"
+                                        value={transition.costs?.[channel] ?? 0}
+                                        onChange={(e) => updateTransitionCost(state, action, index, channel, Number(e.target.value))}
+                                        className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm bg-white"
+                                      />
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                              
                               <div className="flex items-end justify-end">
                                 <button
                                   onClick={() => removeTransition(state, action, index)}
@@ -719,6 +1255,7 @@ export default function MDPConfigurator({ onMDPChange, onError, mdp: externalMdp
                   );
                 })}
               </div>
+              )}
             </div>
           ))}
         </div>
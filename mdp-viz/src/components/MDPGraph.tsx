@@ -3,8 +3,34 @@ import { useEffect, useRef } from "react";
 import type { MDP } from "@/types/mdp";
 import { Network, DataSet, Node, Edge } from "vis-network/standalone";
 
-export default function MDPGraph({ mdp }: { mdp: MDP }) {
+const NODE_COLOR = {
+  background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
+  border: "#4C51BF",
+  highlight: { 
+    background: "linear-gradient(135deg, #7C3AED 0%, #8B5CF6 100%)", 
+    border: "#5B21B6" 
+  },
+};
+
+const EDGE_COLOR = {
+  color: "#8B5CF6",
+  highlight: "#7C3AED",
+  hover: "#A855F7",
+  opacity: 0.7
+};
+
+interface MDPGraphProps {
+  mdp: MDP;
+  scheduler?: Record<string, string>; // state -> action to emphasise, e.g. a query's witnessing scheduler
+  targetStates?: string[];
+  avoidStates?: string[];
+}
+
+export default function MDPGraph({ mdp, scheduler, targetStates, avoidStates }: MDPGraphProps) {
   const ref = useRef<HTMLDivElement>(null);
+  const nodesRef = useRef<DataSet<Node> | null>(null);
+  const edgesRef = useRef<DataSet<Edge> | null>(null);
+  const edgeActions = useRef(new Map<string, { state: string; action: string }>());
 
   useEffect(() => {
     if (!ref.current) return;
@@ -16,14 +42,7 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
         label: s,
         shape: "circle",
         size: 60, // Increased size for better spacing
-        color: {
-          background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
-          border: "#4C51BF",
-          highlight: { 
-            background: "linear-gradient(135deg, #7C3AED 0%, #8B5CF6 100%)", 
-            border: "#5B21B6" 
-          },
-        },
+        color: NODE_COLOR,
         font: { 
           color: "white", 
           size: 20, 
@@ -44,11 +63,13 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
     );
 
     // Create edges with simplified labels and better spacing
+    edgeActions.current.clear();
     const edges = new DataSet<Edge>(
       Object.entries(mdp.transitions).flatMap(([key, targets]) => {
         const [state, action] = key.split("|");
         const typedTargets = targets as Array<{ nextState: string; probability: number; reward?: number }>;
-        return typedTargets.map((t) => ({
+        return typedTargets.map((t, i) => ({
+          id: `${key}|${i}`,
           from: state,
           to: t.nextState,
           // Simplified label to reduce crowding
@@ -61,12 +82,7 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
             }
           },
           smooth: { enabled: true, type: "curvedCW", roundness: 0.3 },
-          color: {
-            color: "#8B5CF6",
-            highlight: "#7C3AED",
-            hover: "#A855F7",
-            opacity: 0.7
-          },
+          color: EDGE_COLOR,
           font: { 
             size: 12, 
             face: "Inter, Arial, sans-serif",
@@ -88,6 +104,12 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
         }));
       })
     );
+    for (const [key, targets] of Object.entries(mdp.transitions)) {
+      const [state, action] = key.split("|");
+      (targets as unknown[]).forEach((_, i) => edgeActions.current.set(`${key}|${i}`, { state, action }));
+    }
+    nodesRef.current = nodes;
+    edgesRef.current = edges;
 
     const network = new Network(
       ref.current,
@@ -155,6 +177,32 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
     return () => network.destroy();
   }, [mdp]);
 
+  // Restyle in place so the layout does not jump: scheduled actions stand out, the
+  // rest fade, and target and avoid states are coloured
+  useEffect(() => {
+    const nodes = nodesRef.current;
+    const edges = edgesRef.current;
+    if (!nodes || !edges) return;
+    const targets = new Set(targetStates ?? []);
+    const avoid = new Set(avoidStates ?? []);
+    nodes.update(mdp.states.map(state => ({
+      id: state,
+      color: targets.has(state)
+        ? { background: "#059669", border: "#047857" }
+        : avoid.has(state)
+        ? { background: "#DC2626", border: "#B91C1C" }
+        : NODE_COLOR,
+    })));
+    edges.update([...edgeActions.current].map(([id, { state, action }]) => {
+      const scheduled = scheduler?.[state] === action;
+      return {
+        id,
+        width: scheduled ? 4 : 2,
+        color: !scheduler ? EDGE_COLOR : scheduled ? { ...EDGE_COLOR, color: "#059669", opacity: 1 } : { ...EDGE_COLOR, opacity: 0.15 },
+      };
+    }));
+  }, [mdp, scheduler, targetStates, avoidStates]);
+
   return (
     <div className="w-full space-y-4">
       <div 
@@ -174,6 +222,13 @@ export default function MDPGraph({ mdp }: { mdp: MDP }) {
           <span className="text-green-600 font-semibold"> Actions:</span> {mdp.actions.join(", ")} | 
           <span className="text-purple-600 font-semibold"> γ:</span> {mdp.gamma ?? 1.0}
         </p>
+        {scheduler && (
+          <p className="mt-1">
+            <span className="text-emerald-600 font-semibold">Green edges:</span> actions of the witnessing scheduler
+            {(targetStates?.length ?? 0) > 0 && <> | <span className="text-emerald-600 font-semibold">green states:</span> targets</>}
+            {(avoidStates?.length ?? 0) > 0 && <> | <span className="text-red-600 font-semibold">red states:</span> avoided</>}
+          </p>
+        )}
       </div>
     </div>
   );
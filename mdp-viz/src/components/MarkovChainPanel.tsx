@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MDP } from "@/types/mdp";
+import type { ChainClass, MarkovChainAnalysis } from "@/lib/markovChain";
+import { runJob, isAbortError } from "@/lib/jobRunner";
+import { describePolicy, type MonteCarloSummary, type SimulationPolicy } from "@/lib/sim";
+
+interface MarkovChainPanelProps {
+  mdp: MDP;
+  startState: string;
+  policy: SimulationPolicy;
+  result?: MonteCarloSummary | null; // sampled figures to set beside the exact ones
+  maxSteps: number;
+}
+
+function classLabel(chainClass: ChainClass) {
+  return chainClass.states.length === 1 ? chainClass.states[0] : `{${chainClass.states.join(", ")}}`;
+}
+
+function formatSteps(value: number) {
+  return Number.isFinite(value) ? value.toFixed(2) : "∞";
+}
+
+export default function MarkovChainPanel({ mdp, startState, policy, result, maxSteps }: MarkovChainPanelProps) {
+  const [analysis, setAnalysis] = useState<MarkovChainAnalysis | { error: string } | null>(null);
+
+  // Analysed on a worker, since large chains take a while; superseded runs are cancelled
+  useEffect(() => {
+    setAnalysis(null);
+    const controller = new AbortController();
+    runJob({ kind: "markov-chain", mdp, startState, policy }, { signal: controller.signal })
+      .then(setAnalysis)
+      .catch(err => {
+        if (!isAbortError(err)) setAnalysis({ error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => controller.abort();
+  }, [mdp, policy, startState]);
+
+  // Sampled figures only describe this chain if they came from the same policy
+  const sampled = result && (result.policy?.label ?? "Uniform random") === describePolicy(policy) ? result : null;
+
+  if (!analysis) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Markov Chain Analysis</h3>
+        <p className="text-sm text-gray-500">Analysing the chain...</p>
+      </div>
+    );
+  }
+
+  if ("error" in analysis) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Markov Chain Analysis</h3>
+        <p className="text-sm text-red-600">Could not analyse the chain: {analysis.error}</p>
+      </div>
+    );
+  }
+
+  const onlyTerminalClasses = analysis.recurrentClasses.every(c => c.terminal);
+  const neverTerminates = analysis.recurrentClasses.reduce(
+    (acc, c, k) => acc + (c.terminal ? 0 : analysis.startAbsorption[k]),
+    0
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Markov Chain Analysis</h3>
+        <p className="text-sm text-gray-600">
+          Exact analysis of the chain induced by: <span className="font-medium">{analysis.policy}</span>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+          <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Communicating Classes</div>
+          <div className="text-lg font-bold text-gray-800">{analysis.classes.length}</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+          <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Recurrent Classes</div>
+          <div className="text-lg font-bold text-gray-800">{analysis.recurrentClasses.length}</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+          <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Transient States</div>
+          <div className="text-lg font-bold text-gray-800">{analysis.transientStates.length}</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+          <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Periodicity</div>
+          <div className="text-lg font-bold text-gray-800">{analysis.aperiodic ? "Aperiodic" : "Periodic"}</div>
+        </div>
+      </div>
+
+      {/* Classes */}
+      <div className="mb-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-3">Communicating Classes</h4>
+        <div className="space-y-2">
+          {analysis.classes.map(c => (
+            <div key={classLabel(c)} className="flex flex-wrap justify-between items-center gap-2 p-3 bg-gray-50 rounded-lg text-sm">
+              <span className="font-mono">{classLabel(c)}</span>
+              <span className="text-gray-600">
+                {c.terminal ? "Terminal" : c.recurrent ? "Recurrent" : "Transient"}
+                {c.period !== null && ` · period ${c.period}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Exact vs sampled */}
+      <div className="mb-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-3">Absorption: Exact vs Sampled</h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+              <th className="py-2">Recurrent class</th>
+              <th className="py-2 text-right">Exact</th>
+              <th className="py-2 text-right">Sampled</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.recurrentClasses.map((c, k) => (
+              <tr key={classLabel(c)} className="border-b border-gray-100">
+                <td className="py-2 font-mono">{classLabel(c)}</td>
+                <td className="py-2 text-right">{(100 * analysis.startAbsorption[k]).toFixed(1)}%</td>
+                <td className="py-2 text-right">
+                  {sampled && c.terminal
+                    ? `${(100 * (sampled.terminalDist[c.states[0]] ?? 0) / sampled.episodes).toFixed(1)}%`
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+            {!onlyTerminalClasses && (
+              <tr className="border-b border-gray-100">
+                <td className="py-2 text-gray-600">Never terminates (truncated at {maxSteps} steps)</td>
+                <td className="py-2 text-right">{(100 * neverTerminates).toFixed(1)}%</td>
+                <td className="py-2 text-right">
+                  {sampled ? `${(100 * sampled.truncatedEpisodes / sampled.episodes).toFixed(1)}%` : "—"}
+                </td>
+              </tr>
+            )}
+            <tr>
+              <td className="py-2 text-gray-600">Expected steps until absorption</td>
+              <td className="py-2 text-right">{formatSteps(analysis.startStepsToAbsorption)}</td>
+              <td className="py-2 text-right">{sampled && onlyTerminalClasses ? sampled.avgSteps.toFixed(2) : "—"}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">
+          {sampled
+            ? `Sampled from the last simulation (${sampled.episodes} episodes); episodes are cut off at ${maxSteps} steps, which pulls the sampled step count down.`
+            : "Run the Monte Carlo simulation with this policy to compare against sampled results."}
+        </p>
+      </div>
+
+      {/* Per-state figures */}
+      <div>
+        <h4 className="text-lg font-semibold text-gray-800 mb-3">States</h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-600 uppercase tracking-wide border-b border-gray-200">
+              <th className="py-2">State</th>
+              <th className="py-2 text-right">{analysis.uniqueStationary ? "Stationary" : "Long-run share"}</th>
+              <th className="py-2 text-right">Hitting time from start</th>
+              <th className="py-2 text-right">Steps to absorption</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mdp.states.map(state => (
+              <tr key={state} className="border-b border-gray-100">
+                <td className="py-2 font-mono">{state}</td>
+                <td className="py-2 text-right">{(analysis.stationaryDistribution[state] ?? 0).toFixed(4)}</td>
+                <td className="py-2 text-right">{formatSteps(analysis.hittingTimes[state])}</td>
+                <td className="py-2 text-right">{formatSteps(analysis.expectedStepsToAbsorption[state])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">∞ marks states the chain may never reach.</p>
+        {!analysis.uniqueStationary && (
+          <p className="text-xs text-gray-500 mt-1">
+            With several recurrent classes there is no single stationary distribution; the long-run share weights each
+            class&apos;s stationary distribution by the chance of ending up in it from {startState}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
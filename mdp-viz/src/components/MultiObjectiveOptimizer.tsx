@@ -1,22 +1,20 @@
 "use client";
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { MDP } from '@/types/mdp';
 import { 
-  valueIteration, 
-  policyIteration, 
-  qLearning,
-  sarsa,
-  actorCritic,
-  tdLambda,
   type OptimizationResult,
-  type OptimizationConfig
+  type OptimizationConfig,
+  type OptimizerAlgorithm
 } from '@/lib/optimizer';
+import { runJob, isAbortError } from '@/lib/jobRunner';
+import { randomSeed, rngFromSeed, type RNG } from '@/lib/rng';
 
 interface MultiObjectiveOptimizerProps {
   mdp: MDP;
   startState: string;
+  seed?: number;
   onOptimizationComplete?: (results: MultiObjectiveResult[]) => void;
 }
 
@@ -44,11 +42,15 @@ interface ObjectiveWeights {
 export default function MultiObjectiveOptimizer({
   mdp,
   startState,
+  seed: pageSeed,
   onOptimizationComplete
 }: MultiObjectiveOptimizerProps) {
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [currentIteration, setCurrentIteration] = useState(0);
   const [results, setResults] = useState<MultiObjectiveResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const [seed, setSeed] = useState(pageSeed ?? 42);
+  const [runSeed, setRunSeed] = useState<number | null>(null);
   const [weights, setWeights] = useState<ObjectiveWeights>({
     value: 0.4,
     convergence: 0.2,
@@ -94,75 +96,97 @@ export default function MultiObjectiveOptimizer({
     });
   }, []);
 
-  const generateConfig = useCallback((): OptimizationConfig => {
+  // Follow the page-level seed so a run can be repeated from the same settings
+  useEffect(() => {
+    if (pageSeed !== undefined) {
+      setSeed(pageSeed);
+    }
+  }, [pageSeed]);
+
+  // Candidates, algorithm picks and each run's own seed come from one stream, so a search repeats exactly
+  const generateConfig = useCallback((rng: RNG): OptimizationConfig => {
     return {
-      gamma: 0.7 + Math.random() * 0.3,
-      learningRate: 0.01 + Math.random() * 0.19,
-      epsilon: 0.1 + Math.random() * 0.2,
-      episodes: 500 + Math.floor(Math.random() * 1000),
-      lambda: 0.5 + Math.random() * 0.5,
-      maxIterations: 100 + Math.floor(Math.random() * 900),
-      tolerance: 1e-6 + Math.random() * 1e-4
+      seed: Math.floor(rng() * 4294967296),
+      gamma: 0.7 + rng() * 0.3,
+      learningRate: 0.01 + rng() * 0.19,
+      epsilon: 0.1 + rng() * 0.2,
+      episodes: 500 + Math.floor(rng() * 1000),
+      lambda: 0.5 + rng() * 0.5,
+      maxIterations: 100 + Math.floor(rng() * 900),
+      tolerance: 1e-6 + rng() * 1e-4
     };
   }, []);
 
-  const runOptimization = useCallback(async (config: OptimizationConfig): Promise<OptimizationResult> => {
-    const algorithms = [
-      () => valueIteration(mdp, config),
-      () => policyIteration(mdp, config),
-      () => qLearning(mdp, startState, config),
-      () => sarsa(mdp, startState, config),
-      () => actorCritic(mdp, startState, config),
-      () => tdLambda(mdp, startState, config)
+  const runOptimization = useCallback(async (config: OptimizationConfig, rng: RNG, signal: AbortSignal): Promise<OptimizationResult> => {
+    const algorithms: OptimizerAlgorithm[] = [
+      'value-iteration',
+      'policy-iteration',
+      'q-learning',
+      'sarsa',
+      'actor-critic',
+      'td-lambda'
     ];
-    const algorithm = algorithms[Math.floor(Math.random() * algorithms.length)];
+    const algorithm = algorithms[Math.floor(rng() * algorithms.length)];
     
-    return algorithm();
+    return runJob({ kind: 'optimize', algorithm, mdp, startState, config }, { signal });
   }, [mdp, startState]);
 
   const startOptimization = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsOptimizing(true);
     setCurrentIteration(0);
     setResults([]);
+    setRunSeed(seed);
+    const rng = rngFromSeed(seed);
 
     const maxIterations = 50;
     const newResults: MultiObjectiveResult[] = [];
 
-    for (let i = 0; i < maxIterations; i++) {
-      setCurrentIteration(i + 1);
-      
-      const config = generateConfig();
-      const result = await runOptimization(config);
-      const metrics = calculateMetrics(result);
-      
-      const multiResult: MultiObjectiveResult = {
-        config,
-        result,
-        metrics,
-        paretoRank: 0
-      };
-      
-      newResults.push(multiResult);
-      setResults([...newResults]);
-      
-      // Calculate Pareto ranks
-      newResults.forEach((r, index) => {
-        const paretoRank = isParetoOptimal(r, newResults) ? 1 : 2;
-        newResults[index] = { ...r, paretoRank };
-      });
-      
-      // Small delay for UI updates
-      await new Promise(resolve => setTimeout(resolve, 100));
+    try {
+      for (let i = 0; i < maxIterations; i++) {
+        setCurrentIteration(i + 1);
+        
+        const config = generateConfig(rng);
+        const result = await runOptimization(config, rng, controller.signal);
+        const metrics = calculateMetrics(result);
+        
+        const multiResult: MultiObjectiveResult = {
+          config,
+          result,
+          metrics,
+          paretoRank: 0
+        };
+        
+        newResults.push(multiResult);
+        
+        // Calculate Pareto ranks
+        newResults.forEach((r, index) => {
+          const paretoRank = isParetoOptimal(r, newResults) ? 1 : 2;
+          newResults[index] = { ...r, paretoRank };
+        });
+        
+        setResults([...newResults]);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Multi-objective optimization failed:', error);
+      }
+    } finally {
+      abortRef.current = null;
+      setIsOptimizing(false);
     }
     
-    setIsOptimizing(false);
     onOptimizationComplete?.(newResults);
   };
 
   const stopOptimization = () => {
-    setIsOptimizing(false);
+    abortRef.current?.abort();
   };
 
+  // Stop any in-flight worker when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const calculateWeightedScore = useCallback((result: MultiObjectiveResult): number => {
     return (
       result.metrics.value * weights.value +
@@ -230,6 +254,28 @@ export default function MultiObjectiveOptimizer({
             </div>
           ))}
         </div>
+        <div className="mt-4 max-w-xs">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Random Seed</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={seed}
+              onChange={(e) => setSeed(parseInt(e.target.value) >>> 0)}
+              disabled={isOptimizing}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <button
+              type="button"
+              onClick={() => setSeed(randomSeed())}
+              disabled={isOptimizing}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+              title="Draw a new random seed"
+            >
+              🎲
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* Progress */}
@@ -254,7 +300,9 @@ export default function MultiObjectiveOptimizer({
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h4 className="font-semibold text-blue-800 mb-2">Pareto Optimal Solutions</h4>
             <div className="text-2xl font-bold text-blue-600">{paretoOptimalResults.length}</div>
-            <div className="text-sm text-blue-600">out of {results.length} total</div>
+            <div className="text-sm text-blue-600">
+              out of {results.length} total{runSeed !== null && <span className="font-mono"> · seed {runSeed}</span>}
+            </div>
           </div>
           
           <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
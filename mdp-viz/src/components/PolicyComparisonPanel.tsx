@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { MDP } from "@/types/mdp";
+import { describePolicy, randomPolicy, type SimulationPolicy } from "@/lib/sim";
+import { runJob, isAbortError } from "@/lib/jobRunner";
+import type { PolicyComparison } from "@/lib/policyComparison";
+
+interface PolicyComparisonPanelProps {
+  mdp: MDP;
+  startState: string;
+  maxSteps: number;
+  seed?: number;
+  candidate: SimulationPolicy | null; // the current optimizer output, offered for adding
+}
+
+function formatPValue(p: number) {
+  if (!Number.isFinite(p)) return "—";
+  return p < 1e-4 ? "< 0.0001" : p.toFixed(4);
+}
+
+function formatSigned(value: number) {
+  return `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(3)}`;
+}
+
+export default function PolicyComparisonPanel({ mdp, startState, maxSteps, seed, candidate }: PolicyComparisonPanelProps) {
+  // Each entry remembers the optimizer output it was added from, if any
+  const [entries, setEntries] = useState<Array<{ policy: SimulationPolicy; source: SimulationPolicy | null }>>([
+    { policy: randomPolicy, source: null },
+  ]);
+  const [episodes, setEpisodes] = useState(2000);
+  const [result, setResult] = useState<PolicyComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Policies and results belong to the model they were made for
+  useEffect(() => {
+    abortRef.current?.abort();
+    setEntries([{ policy: randomPolicy, source: null }]);
+    setResult(null);
+    setError(null);
+  }, [mdp, startState]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const policies = entries.map(entry => entry.policy);
+
+  // Keep labels apart so two runs of the same optimizer can be told apart
+  const addCandidate = () => {
+    if (!candidate) return;
+    const label = describePolicy(candidate);
+    const taken = policies.filter(p => describePolicy(p) === label || describePolicy(p).startsWith(`${label} #`)).length;
+    setEntries(prev => [...prev, { policy: { ...candidate, label: taken > 0 ? `${label} #${taken + 1}` : label }, source: candidate }]);
+    setResult(null);
+  };
+
+  const removePolicy = (index: number) => {
+    setEntries(prev => prev.filter((_, k) => k !== index));
+    setResult(null);
+  };
+
+  const compare = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await runJob(
+        { kind: "compare-policies", mdp, startState, policies, episodes, maxSteps, seed },
+        { signal: controller.signal }
+      ));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setResult(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Policy Comparison</h3>
+        <p className="text-sm text-gray-600">
+          Evaluates every policy on the same episodes: each episode replays one stream of random numbers for the
+          transitions and another for the action choices, whichever policy acts. Luck the policies share cancels in
+          the paired differences, so their intervals are much narrower than those of separately simulated averages.
+        </p>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {policies.map((policy, index) => (
+          <div key={`${index}-${describePolicy(policy)}`} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg text-sm">
+            <span>
+              <span className="font-mono text-gray-500 mr-2">{String.fromCharCode(65 + index)}</span>
+              {describePolicy(policy)}
+            </span>
+            <button
+              onClick={() => removePolicy(index)}
+              disabled={isRunning}
+              className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <button
+          onClick={addCandidate}
+          disabled={!candidate || entries.some(entry => entry.source === candidate) || isRunning}
+          className="px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+        >
+          Add Current Optimized Policy
+        </button>
+        {!policies.some(p => p.kind === "random") && (
+          <button
+            onClick={() => setEntries(prev => [{ policy: randomPolicy, source: null }, ...prev])}
+            disabled={isRunning}
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Add Random Baseline
+          </button>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Episodes</label>
+          <input
+            type="number"
+            min={10}
+            step={100}
+            value={episodes}
+            onChange={(e) => setEpisodes(Math.max(10, Math.floor(Number(e.target.value)) || 2000))}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {isRunning ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={compare}
+            disabled={policies.length < 2}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Compare
+          </button>
+        )}
+      </div>
+
+      {policies.length < 2 && (
+        <p className="text-xs text-gray-500 mb-4">
+          Run an optimization and add its policy; each further run can be added to compare optimizers with each other.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {result && (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              Mean Discounted Return ({result.episodes} shared episodes, seed {result.seed})
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">Policy</th>
+                  <th className="py-1 pr-4 font-medium text-right">Mean</th>
+                  <th className="py-1 pr-4 font-medium text-right">95% CI</th>
+                  <th className="py-1 font-medium text-right">Terminated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.policies.map((policy, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-1 pr-4">
+                      <span className="font-mono text-gray-500 mr-2">{String.fromCharCode(65 + index)}</span>
+                      {policy.label}
+                    </td>
+                    <td className="py-1 pr-4 text-right font-mono">{policy.meanReturn.estimate.toFixed(3)}</td>
+                    <td className="py-1 pr-4 text-right font-mono">
+                      [{policy.meanReturn.lower.toFixed(3)}, {policy.meanReturn.upper.toFixed(3)}]
+                    </td>
+                    <td className="py-1 text-right font-mono">{(100 * policy.terminatedShare).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto">
+            <div className="text-sm font-medium text-gray-700 mb-2">Paired Differences</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">Pair</th>
+                  <th className="py-1 pr-4 font-medium text-right">Difference</th>
+                  <th className="py-1 pr-4 font-medium text-right">95% CI</th>
+                  <th className="py-1 pr-4 font-medium text-right">p</th>
+                  <th className="py-1 pr-4 font-medium text-right">Holm p</th>
+                  <th className="py-1 font-medium text-right">Variance Reduction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.differences.map(difference => {
+                  const significant = difference.adjustedPValue < 1 - result.level;
+                  return (
+                    <tr
+                      key={`${difference.baseline}-${difference.challenger}`}
+                      className={`border-b border-gray-100 ${significant ? "bg-green-50" : ""}`}
+                    >
+                      <td className="py-1 pr-4 font-mono">
+                        {String.fromCharCode(65 + difference.challenger)} − {String.fromCharCode(65 + difference.baseline)}
+                      </td>
+                      <td className="py-1 pr-4 text-right font-mono">{formatSigned(difference.difference.estimate)}</td>
+                      <td className="py-1 pr-4 text-right font-mono">
+                        [{formatSigned(difference.difference.lower)}, {formatSigned(difference.difference.upper)}]
+                      </td>
+                      <td className="py-1 pr-4 text-right font-mono">{formatPValue(difference.pValue)}</td>
+                      <td className="py-1 pr-4 text-right font-mono">{formatPValue(difference.adjustedPValue)}</td>
+                      <td className="py-1 text-right font-mono">
+                        {Number.isFinite(difference.varianceReduction) ? `${difference.varianceReduction.toFixed(1)}×` : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">
+              Highlighted pairs differ at the 5% level after Holm&apos;s correction for comparing several pairs at once.
+              Variance reduction is how many times more episodes two independent runs would need for the same
+              precision; &quot;—&quot; means the policies earned identical returns on every episode.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { isTerminal, type MDP } from "@/types/mdp";
+import { checkQuery, type QueryResult } from "@/lib/modelChecking";
+
+interface QueryPanelProps {
+  mdp: MDP;
+  startState: string;
+  onShowScheduler?: (result: QueryResult | null) => void; // the result whose scheduler the graph should show
+}
+
+function formatValue(value: number) {
+  if (value === Infinity) return "∞";
+  if (value === -Infinity) return "−∞";
+  return value.toFixed(4);
+}
+
+function quote(name: string) {
+  return /^[^\s"()[\]!&|<>=]+$/.test(name) && !["F", "G", "U", "true", "false", "terminal"].includes(name)
+    ? name
+    : JSON.stringify(name);
+}
+
+export default function QueryPanel({ mdp, startState, onShowScheduler }: QueryPanelProps) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showOnGraph, setShowOnGraph] = useState(true);
+
+  const examples = useMemo(() => {
+    const goal = mdp.states.find(state => isTerminal(mdp, state) && state !== startState) ?? mdp.states[mdp.states.length - 1];
+    const other = mdp.states.find(state => state !== goal && state !== startState);
+    return [
+      `Pmax=? [ F ${quote(goal)} ]`,
+      `Pmin=? [ F<=10 ${quote(goal)} ]`,
+      ...(other ? [`Pmax=? [ !${quote(other)} U<=10 ${quote(goal)} ]`] : []),
+      `Rmax=? [ F ${quote(goal)} ]`,
+      `P>=0.9 [ F ${quote(goal)} ]`,
+    ];
+  }, [mdp, startState]);
+
+  // A new model invalidates the answer and its scheduler
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [mdp]);
+
+  useEffect(() => {
+    onShowScheduler?.(showOnGraph ? result : null);
+  }, [result, showOnGraph, onShowScheduler]);
+
+  const runQuery = (query = text) => {
+    setText(query);
+    try {
+      setResult(checkQuery(mdp, query, startState));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const steps = result?.timedScheduler ?? [];
+  const decisionStates = result ? mdp.states.filter(state => steps.some(step => state in step)) : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Model Checking</h3>
+        <p className="text-sm text-gray-600">
+          Ask for exact optimal probabilities and expected rewards over every scheduler. <span className="font-mono">F</span> is
+          eventually, <span className="font-mono">G</span> always, <span className="font-mono">a U b</span> a until b,
+          and <span className="font-mono">F&lt;=k</span> within k steps; combine states with <span className="font-mono">! &amp; |</span> and
+          quote names with spaces or brackets.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2 mb-3">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") runQuery(); }}
+          placeholder={examples[0]}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={() => runQuery()}
+          disabled={!text.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {examples.map(example => (
+          <button
+            key={example}
+            onClick={() => runQuery(example)}
+            className="px-2 py-1 text-xs font-mono bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          >
+            {example}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 col-span-2">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Query</div>
+              <div className="text-sm font-mono text-gray-800 mt-1">{result.query}</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">
+                {result.operator === "P" ? "Probability" : "Expected Reward"} ({result.objective}) from Start
+              </div>
+              <div className="text-lg font-bold text-gray-800">{formatValue(result.startValue)}</div>
+            </div>
+            {result.holds !== undefined ? (
+              <div className={`p-3 rounded-lg border ${result.holds ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}>
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Holds at Start</div>
+                <div className={`text-lg font-bold ${result.holds ? "text-green-700" : "text-red-700"}`}>
+                  {result.holds ? "Yes, for every scheduler" : "No"}
+                </div>
+              </div>
+            ) : (
+              <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+                <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Iterations</div>
+                <div className="text-lg font-bold text-gray-800">{result.iterations}</div>
+              </div>
+            )}
+          </div>
+
+          {result.messages.length > 0 && (
+            <div className="p-3 rounded-lg border bg-yellow-50 border-yellow-200 text-sm text-yellow-800 space-y-1">
+              {result.messages.map(message => <p key={message}>{message}</p>)}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">State</th>
+                  <th className="py-1 pr-4 font-medium text-right">Value</th>
+                  <th className="py-1 pr-4 font-medium">Scheduler</th>
+                  {result.satisfyingStates && <th className="py-1 font-medium">Bound</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {mdp.states.map(state => (
+                  <tr key={state} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-mono">
+                      {state}
+                      {result.targetStates.includes(state) && <span className="ml-2 text-xs text-emerald-700">target</span>}
+                      {result.avoidStates.includes(state) && <span className="ml-2 text-xs text-red-700">avoid</span>}
+                    </td>
+                    <td className="py-1 pr-4 text-right font-mono">{formatValue(result.values[state])}</td>
+                    <td className="py-1 pr-4">{result.scheduler[state] ?? "—"}</td>
+                    {result.satisfyingStates && (
+                      <td className="py-1">{result.satisfyingStates.includes(state) ? "✓" : "✗"}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {steps.length > 1 && (
+            <div className="overflow-x-auto">
+              <div className="text-sm font-medium text-gray-700 mb-2">Scheduler by Step</div>
+              <table className="text-xs">
+                <thead>
+                  <tr className="text-gray-600">
+                    <th className="py-1 pr-3 text-left font-medium">State</th>
+                    {steps.map((_, t) => <th key={t} className="py-1 px-2 font-medium">t={t}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {decisionStates.map(state => (
+                    <tr key={state} className="border-t border-gray-100">
+                      <td className="py-1 pr-3 font-mono">{state}</td>
+                      {steps.map((step, t) => (
+                        <td
+                          key={t}
+                          className={`py-1 px-2 text-center ${t > 0 && step[state] !== steps[t - 1][state] ? "bg-yellow-100 font-medium" : ""}`}
+                        >
+                          {step[state]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showOnGraph}
+              onChange={(e) => setShowOnGraph(e.target.checked)}
+              className="mr-2"
+            />
+            Show the scheduler{steps.length > 1 ? " at step 0" : ""} on the graph
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
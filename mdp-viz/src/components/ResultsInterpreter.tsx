@@ -1,28 +1,41 @@
 "use client";
 
 import { useMemo } from "react";
+import type { MonteCarloIntervals } from "@/lib/sim";
 
 interface ResultsInterpreterProps {
   result: {
     episodes: number;
     avgTotalReward: number;
+    rewardPerStep?: number;
     avgSteps: number;
     pathAnalysis: {
       avgPathLength: number;
       mostCommonPaths: Array<{ path: string; count: number }>;
     };
     terminalDist: Record<string, number>;
+    truncatedEpisodes?: number;
+    policy?: { kind: string; label: string };
+    intervals?: MonteCarloIntervals;
+    stopping?: { targetHalfWidth: number; maxEpisodes: number; reached: boolean };
   };
   mdp: {
     states: string[];
     actions: string[];
     gamma: number;
   };
+  gain?: number; // reward per step of the gain-optimal policy, from the average-reward solver
+  robustness?: { // start values from robust value iteration
+    nominalValue: number; // robust policy, nominal model
+    worstCaseValue: number; // robust policy, worst model in the uncertainty sets
+    nominalPolicyValue: number; // nominal optimum, nominal model
+    nominalPolicyWorstCase: number; // nominal optimum, worst model
+  };
 }
 
-export default function ResultsInterpreter({ result, mdp }: ResultsInterpreterProps) {
+export default function ResultsInterpreter({ result, mdp, gain, robustness }: ResultsInterpreterProps) {
   const interpretation = useMemo(() => {
-    const { episodes, avgTotalReward, avgSteps, pathAnalysis, terminalDist } = result;
+    const { episodes, avgTotalReward, avgSteps, pathAnalysis, terminalDist, truncatedEpisodes = 0 } = result;
     
     // Analyze reward performance
     const rewardAnalysis = (() => {
@@ -81,22 +94,32 @@ export default function ResultsInterpreter({ result, mdp }: ResultsInterpreterPr
     const terminalAnalysis = (() => {
       const terminalEntries = Object.entries(terminalDist);
       const totalEpisodes = episodes;
+      const truncatedPercentage = (truncatedEpisodes / totalEpisodes) * 100;
+
+      if (terminalEntries.length === 0) return {
+        level: "non-terminating",
+        message: `No episode reached a terminal state; all ${totalEpisodes} episodes were cut off at the step limit.`
+      };
+
       const mostCommonTerminal = terminalEntries.reduce((a, b) => 
         (terminalDist[a[0]] || 0) > (terminalDist[b[0]] || 0) ? a : b
       );
       const terminalPercentage = ((mostCommonTerminal[1] || 0) / totalEpisodes) * 100;
+      const truncationNote = truncatedEpisodes > 0
+        ? ` ${truncatedPercentage.toFixed(1)}% of episodes hit the step limit first.`
+        : "";
       
       if (terminalPercentage > 80) return {
         level: "highly predictable",
-        message: `The agent consistently reaches ${mostCommonTerminal[0]} (${terminalPercentage.toFixed(1)}% of episodes).`
+        message: `The agent consistently reaches ${mostCommonTerminal[0]} (${terminalPercentage.toFixed(1)}% of episodes).${truncationNote}`
       };
       if (terminalPercentage > 50) return {
         level: "predictable",
-        message: `The agent often reaches ${mostCommonTerminal[0]} (${terminalPercentage.toFixed(1)}% of episodes).`
+        message: `The agent often reaches ${mostCommonTerminal[0]} (${terminalPercentage.toFixed(1)}% of episodes).${truncationNote}`
       };
       return {
         level: "unpredictable",
-        message: `The agent shows varied terminal states, with ${mostCommonTerminal[0]} being most common (${terminalPercentage.toFixed(1)}% of episodes).`
+        message: `The agent shows varied terminal states, with ${mostCommonTerminal[0]} being most common (${terminalPercentage.toFixed(1)}% of episodes).${truncationNote}`
       };
     })();
 
@@ -137,17 +160,39 @@ export default function ResultsInterpreter({ result, mdp }: ResultsInterpreterPr
     }
     
     const terminalEntries = Object.entries(result.terminalDist);
-    if (terminalEntries.length === 1) {
+    if (terminalEntries.length === 1 && !result.truncatedEpisodes) {
       suggestions.push("The agent always reaches the same terminal state. Consider adding more variety in outcomes.");
     }
+
+    if ((result.truncatedEpisodes ?? 0) > result.episodes / 2) {
+      suggestions.push("Most episodes never reach a terminal state. Mark goal states as terminal or raise the step limit.");
+    }
     
     if (result.avgTotalReward / result.avgSteps < 0.01) {
       suggestions.push("The agent is very inefficient. Consider restructuring rewards or adding better paths.");
     }
+
+    const reward = result.intervals?.totalReward;
+    if (reward && reward.lower < 0 && reward.upper > 0) {
+      suggestions.push("The reward interval contains zero, so these episodes cannot tell a gain from a loss. Run more episodes before drawing conclusions.");
+    }
     
     return suggestions;
   }, [result]);
 
+  // Half-widths of the bootstrap intervals; absent for summaries saved before they existed
+  const precision = useMemo(() => {
+    if (!result.intervals) return null;
+    const halfWidth = ({ lower, upper }: { lower: number; upper: number }) => (upper - lower) / 2;
+    const terminal = Object.values(result.intervals.terminal).map(halfWidth);
+    return {
+      rewardHalfWidth: halfWidth(result.intervals.totalReward),
+      stepsHalfWidth: halfWidth(result.intervals.steps),
+      terminalHalfWidth: terminal.length > 0 ? Math.max(...terminal) : null,
+      resamples: result.intervals.resamples,
+    };
+  }, [result.intervals]);
+
   return (
     <div className="space-y-6">
       {/* Overall Performance Summary */}
@@ -156,8 +201,15 @@ export default function ResultsInterpreter({ result, mdp }: ResultsInterpreterPr
           Performance Analysis
         </h4>
         <p className="text-gray-700">{interpretation.rewardAnalysis.message}</p>
+        {(result.policy?.kind ?? "random") === "random" && (
+          <p className="text-sm text-gray-600 mt-2">
+            These figures describe an agent choosing uniformly at random, not an optimized one.
+          </p>
+        )}
         <p className="text-sm text-gray-600 mt-2">
-          Average reward: {result.avgTotalReward.toFixed(3)} | 
+          Policy: {result.policy?.label ?? "Uniform random"} | 
+          Average reward: {result.avgTotalReward.toFixed(3)}
+          {result.intervals && ` (95% CI ${result.intervals.totalReward.lower.toFixed(3)} to ${result.intervals.totalReward.upper.toFixed(3)})`} | 
           Average steps: {result.avgSteps.toFixed(1)} | 
           Efficiency: {(result.avgTotalReward / result.avgSteps).toFixed(4)} reward/step
         </p>
@@ -182,12 +234,73 @@ export default function ResultsInterpreter({ result, mdp }: ResultsInterpreterPr
         
         <div className="bg-white p-4 rounded-lg border border-gray-200">
           <h5 className="font-semibold text-gray-800 mb-2">Simulation Quality</h5>
-          <p className="text-sm text-gray-600">
-            Based on {result.episodes} episodes, this provides a {result.episodes > 1000 ? "very reliable" : result.episodes > 500 ? "reliable" : "preliminary"} estimate of the MDP&apos;s behavior.
-          </p>
+          {precision ? (
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                From {result.episodes} episodes the average reward is known to within ±{precision.rewardHalfWidth.toFixed(3)} and
+                the average steps to within ±{precision.stepsHalfWidth.toFixed(2)} (95% bootstrap intervals
+                from {precision.resamples} resamples).
+                {precision.terminalHalfWidth !== null && ` Terminal shares are within ±${(100 * precision.terminalHalfWidth).toFixed(1)} points.`}
+              </p>
+              <p>
+                {result.stopping
+                  ? result.stopping.reached
+                    ? `Sampling stopped once the reward interval reached ±${result.stopping.targetHalfWidth}.`
+                    : `The budget of ${result.stopping.maxEpisodes} episodes ran out before the reward interval reached ±${result.stopping.targetHalfWidth}.`
+                  : "Halving an interval takes about four times the episodes."}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Based on {result.episodes} episodes, this provides a {result.episodes > 1000 ? "very reliable" : result.episodes > 500 ? "reliable" : "preliminary"} estimate of the MDP&apos;s behavior.
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Average-reward criterion */}
+      {(result.rewardPerStep !== undefined || gain !== undefined) && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <h5 className="font-semibold text-gray-800 mb-2">Reward per Step</h5>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            {result.rewardPerStep !== undefined && (
+              <div>
+                <span className="font-medium text-gray-600">Simulated:</span> {result.rewardPerStep.toFixed(4)}
+              </div>
+            )}
+            {gain !== undefined && (
+              <div>
+                <span className="font-medium text-gray-600">Optimal gain:</span> {gain.toFixed(4)}
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Undiscounted reward divided by steps taken, across all episodes. For long-running processes this estimates the gain of the simulated policy; episodes that end early stop contributing steps, so it only matches the gain when episodes run to the step limit.
+          </p>
+        </div>
+      )}
+
+      {/* Nominal vs worst-case model */}
+      {robustness && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <h5 className="font-semibold text-gray-800 mb-2">Model Uncertainty</h5>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="font-medium text-gray-600">Robust policy:</span> {robustness.nominalValue.toFixed(3)} nominal, {robustness.worstCaseValue.toFixed(3)} worst case
+            </div>
+            <div>
+              <span className="font-medium text-gray-600">Nominal optimum:</span> {robustness.nominalPolicyValue.toFixed(3)} nominal, {robustness.nominalPolicyWorstCase.toFixed(3)} worst case
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {robustness.worstCaseValue - robustness.nominalPolicyWorstCase > 1e-6
+              ? `Planning for the worst case protects ${(robustness.worstCaseValue - robustness.nominalPolicyWorstCase).toFixed(3)} of value if the model is off, at a cost of ${(robustness.nominalPolicyValue - robustness.nominalValue).toFixed(3)} when it is right.`
+              : "The nominal optimum is already as safe as any policy against the uncertainty sets."}
+            {" "}The simulated figures above use the nominal model.
+          </p>
+        </div>
+      )}
+
       {/* Improvement Suggestions */}
       {suggestions.length > 0 && (
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-lg border border-blue-200">
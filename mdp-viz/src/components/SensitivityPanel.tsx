@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend, ReferenceLine } from "recharts";
+import type { MDP } from "@/types/mdp";
+import { sensitivityAnalysis, type SensitivityResult } from "@/lib/sensitivity";
+
+interface SensitivityPanelProps {
+  mdp: MDP;
+  startState: string;
+}
+
+const RANKED_ROWS = 20;
+
+function formatSigned(value: number) {
+  if (!Number.isFinite(value)) return "—";
+  return `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(4)}`;
+}
+
+export default function SensitivityPanel({ mdp, startState }: SensitivityPanelProps) {
+  const [probabilityDelta, setProbabilityDelta] = useState(0.05);
+  const [rewardDelta, setRewardDelta] = useState(1);
+  const [result, setResult] = useState<SensitivityResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new model invalidates the analysis
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [mdp, startState]);
+
+  const analyse = () => {
+    try {
+      setResult(sensitivityAnalysis(mdp, startState, { probabilityDelta, rewardDelta }));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const tornado = (result?.parameters ?? [])
+    .filter(p => p.swing)
+    .map(p => ({
+      label: p.label,
+      low: p.swing!.low,
+      high: p.swing!.high,
+    }));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-800 mb-2">Sensitivity Analysis</h3>
+        <p className="text-sm text-gray-600">
+          How the optimal value from the start responds to each transition probability and reward. A probability is
+          raised by taking mass from the action&apos;s other outcomes in proportion, so every distribution still sums
+          to one. The chart re-optimises the most influential parameters at ±δ.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Probability δ</label>
+          <input
+            type="number"
+            step={0.01}
+            min={0.001}
+            max={1}
+            value={probabilityDelta}
+            onChange={(e) => setProbabilityDelta(Math.min(1, Math.max(0.001, Number(e.target.value) || 0.05)))}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reward δ</label>
+          <input
+            type="number"
+            step={0.1}
+            min={0}
+            value={rewardDelta}
+            onChange={(e) => setRewardDelta(Math.max(0, Number(e.target.value) || 1))}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={analyse}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Analyse
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Optimal Value from Start</div>
+              <div className="text-lg font-bold text-gray-800">{result.startValue.toFixed(4)}</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Parameters</div>
+              <div className="text-lg font-bold text-gray-800">{result.parameters.length}</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Closest Flip</div>
+              <div className="text-lg font-bold text-gray-800">
+                {result.flips.length > 0 ? result.flips[0].state : "—"}
+              </div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+              <div className="text-xs text-gray-600 font-medium uppercase tracking-wide">Tied States</div>
+              <div className="text-lg font-bold text-gray-800">{result.tiedStates.length}</div>
+            </div>
+          </div>
+
+          {(result.tiedStates.length > 0 || result.fixedOutcomes > 0) && (
+            <div className="p-3 rounded-lg border bg-yellow-50 border-yellow-200 text-sm text-yellow-800 space-y-1">
+              {result.tiedStates.length > 0 && (
+                <p>
+                  The optimal action is tied in {result.tiedStates.join(", ")}; derivatives through these states hold
+                  for one direction only, so the swings below are the better guide.
+                </p>
+              )}
+              {result.fixedOutcomes > 0 && (
+                <p>
+                  {result.fixedOutcomes} outcome{result.fixedOutcomes === 1 ? " has" : "s have"} probability 1 and
+                  cannot be raised; only their rewards are listed.
+                </p>
+              )}
+            </div>
+          )}
+
+          {tornado.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">Change in Optimal Start Value at θ ± δ</div>
+              <div style={{ height: Math.max(200, tornado.length * 36 + 60) }}>
+                <ResponsiveContainer>
+                  <BarChart data={tornado} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" tickFormatter={(v) => Number(v).toFixed(2)} />
+                    <YAxis type="category" dataKey="label" width={220} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value: number) => formatSigned(value)} />
+                    <Legend />
+                    <ReferenceLine x={0} stroke="#374151" />
+                    <Bar dataKey="low" name="θ − δ" fill="#EF4444" />
+                    <Bar dataKey="high" name="θ + δ" fill="#10B981" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <div className="text-sm font-medium text-gray-700 mb-2">Ranked by |dV/dθ|</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">Parameter</th>
+                  <th className="py-1 pr-4 font-medium text-right">Value</th>
+                  <th className="py-1 pr-4 font-medium text-right">dV/dθ</th>
+                  <th className="py-1 font-medium text-right">Swing (−δ / +δ)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.parameters.slice(0, RANKED_ROWS).map(p => (
+                  <tr key={p.id} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-mono">{p.label}</td>
+                    <td className="py-1 pr-4 text-right font-mono">{p.value.toFixed(3)}</td>
+                    <td className="py-1 pr-4 text-right font-mono">{formatSigned(p.derivative)}</td>
+                    <td className="py-1 text-right font-mono">
+                      {p.swing ? `${formatSigned(p.swing.low)} / ${formatSigned(p.swing.high)}` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.parameters.length > RANKED_ROWS && (
+              <p className="mt-2 text-xs text-gray-500">
+                {result.parameters.length - RANKED_ROWS} more parameters with smaller derivatives.
+              </p>
+            )}
+          </div>
+
+          {result.flips.length > 0 && (
+            <div className="overflow-x-auto">
+              <div className="text-sm font-medium text-gray-700 mb-2">Smallest Change that Flips the Optimal Action</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="py-1 pr-4 font-medium">State</th>
+                    <th className="py-1 pr-4 font-medium">Optimal</th>
+                    <th className="py-1 pr-4 font-medium text-right">Q Gap</th>
+                    <th className="py-1 pr-4 font-medium">Reward Change</th>
+                    <th className="py-1 font-medium">Probability Shift</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.flips.map(flip => {
+                    const tied = result.tiedStates.includes(flip.state);
+                    return (
+                      <tr key={flip.state} className={`border-b border-gray-100 ${tied ? "bg-yellow-50" : ""}`}>
+                        <td className="py-1 pr-4 font-mono">{flip.state}</td>
+                        <td className="py-1 pr-4">{flip.action}</td>
+                        <td className="py-1 pr-4 text-right font-mono">{tied ? "tied" : flip.gap.toFixed(4)}</td>
+                        <td className="py-1 pr-4">
+                          {tied
+                            ? `tied with ${flip.rewardFlip?.action}`
+                            : flip.rewardFlip
+                              ? `+${flip.rewardFlip.change.toFixed(4)} to ${flip.rewardFlip.action}`
+                              : "—"}
+                        </td>
+                        <td className="py-1">
+                          {tied
+                            ? "—"
+                            : flip.probabilityFlip
+                              ? `${flip.probabilityFlip.shift.toFixed(4)} under ${flip.probabilityFlip.action}: ${flip.probabilityFlip.from.join(", ")} → ${flip.probabilityFlip.to}`
+                              : "not reachable by reweighting"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
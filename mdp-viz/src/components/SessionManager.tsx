@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createSession,
+  deleteSession,
+  getActiveSessionId,
+  getSession,
+  isSessionStorageAvailable,
+  listSessions,
+  saveSession,
+  setActiveSessionId,
+  type Session,
+  type SessionData
+} from "@/lib/sessions";
+import { permalinkFromLocation } from "@/lib/permalink";
+
+interface SessionManagerProps {
+  data: SessionData;
+  onRestore: (data: SessionData) => void;
+}
+
+const AUTOSAVE_DELAY_MS = 800;
+
+function pickData(session: Session): SessionData {
+  const { mdp, loadedPreset, settings, result, resultSeed, optimizationResult, optimizerSettings, optimizedWith } = session;
+  return { mdp, loadedPreset, settings, result, resultSeed, optimizationResult, optimizerSettings, optimizedWith };
+}
+
+export default function SessionManager({ data, onRestore }: SessionManagerProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [active, setActive] = useState<Session | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const dataRef = useRef(data);
+  const onRestoreRef = useRef(onRestore);
+  const activeRef = useRef<Session | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  dataRef.current = data;
+  onRestoreRef.current = onRestore;
+  activeRef.current = active;
+
+  const refreshList = async () => setSessions(await listSessions());
+
+  // Write the current workspace into the active session right away
+  const flush = async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const current = activeRef.current;
+    if (!current) return;
+    const updated = { ...current, ...dataRef.current, updatedAt: Date.now() };
+    await saveSession(updated);
+    activeRef.current = updated;
+    setActive(updated);
+    setStatus(`Saved at ${new Date(updated.updatedAt).toLocaleTimeString()}`);
+  };
+
+  const activate = (session: Session) => {
+    activeRef.current = session;
+    setActive(session);
+    setNameDraft(session.name);
+    setActiveSessionId(session.id);
+  };
+
+  // Restore the last active session on first load, or start a new one
+  useEffect(() => {
+    if (!isSessionStorageAvailable()) {
+      setStatus("Sessions are unavailable in this browser");
+      return;
+    }
+    // Checked up front: the page clears the link from the URL once it has loaded it
+    const openingLink = permalinkFromLocation() !== null;
+    let cancelled = false;
+    (async () => {
+      try {
+        const stored = await listSessions();
+        if (cancelled) return;
+        // A shared link opens in its own session instead of replacing the last one
+        const last = openingLink
+          ? undefined
+          : stored.find(s => s.id === getActiveSessionId()) ?? stored[0];
+        if (last) {
+          activate(last);
+          onRestoreRef.current(pickData(last));
+          setStatus("Restored");
+        } else {
+          const name = openingLink ? "Shared link" : `Session ${stored.length + 1}`;
+          const session = createSession(name, dataRef.current);
+          await saveSession(session);
+          activate(session);
+          stored.unshift(session);
+        }
+        setSessions(stored);
+      } catch (error) {
+        setStatus(`Could not open sessions: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Auto-save shortly after the workspace changes
+  useEffect(() => {
+    if (!activeRef.current) return;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    setStatus("Saving…");
+    saveTimerRef.current = setTimeout(() => {
+      flush().then(refreshList).catch(error => setStatus(`Auto-save failed: ${error instanceof Error ? error.message : String(error)}`));
+    }, AUTOSAVE_DELAY_MS);
+  }, [data]);
+
+  // Save pending changes when the panel goes away
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) {
+        flush();
+      }
+    };
+  }, []);
+
+  const switchTo = async (id: string) => {
+    if (id === active?.id) return;
+    await flush();
+    const session = await getSession(id);
+    if (!session) return;
+    activate(session);
+    onRestore(pickData(session));
+    setStatus(`Switched to ${session.name}`);
+    await refreshList();
+  };
+
+  const rename = async () => {
+    const name = nameDraft.trim();
+    if (!active || !name || name === active.name) {
+      setNameDraft(active?.name ?? "");
+      return;
+    }
+    activeRef.current = { ...active, name };
+    await flush();
+    await refreshList();
+  };
+
+  const duplicate = async () => {
+    if (!active) return;
+    await flush();
+    const copy = createSession(`${active.name} (copy)`, dataRef.current);
+    await saveSession(copy);
+    activate(copy);
+    setStatus(`Duplicated as ${copy.name}`);
+    await refreshList();
+  };
+
+  const remove = async () => {
+    if (!active) return;
+    if (!window.confirm(`Delete session "${active.name}"?`)) return;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    await deleteSession(active.id);
+    const remaining = await listSessions();
+    if (remaining.length > 0) {
+      activate(remaining[0]);
+      onRestore(pickData(remaining[0]));
+      setStatus(`Deleted; switched to ${remaining[0].name}`);
+      setSessions(remaining);
+    } else {
+      // Keep the workspace, but under a fresh session
+      const session = createSession("Session 1", dataRef.current);
+      await saveSession(session);
+      activate(session);
+      setStatus("Deleted; started a new session");
+      setSessions([session]);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex-1 min-w-[12rem]">
+          <h3 className="text-lg font-semibold text-gray-800">Session</h3>
+          <p className="text-xs text-gray-500">{status ?? "Your workspace is saved automatically"}</p>
+        </div>
+        <Select value={active?.id ?? ""} onValueChange={switchTo} disabled={sessions.length === 0}>
+          <SelectTrigger className="w-56 border border-gray-300 rounded-lg px-4 py-2 text-sm bg-white">
+            <SelectValue placeholder="No sessions" />
+          </SelectTrigger>
+          <SelectContent>
+            {sessions.map(session => (
+              <SelectItem key={session.id} value={session.id}>
+                {session.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input
+          type="text"
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={rename}
+          onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+          disabled={!active}
+          className="w-48 border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+          placeholder="Session name"
+        />
+        <button
+          onClick={duplicate}
+          disabled={!active}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={remove}
+          disabled={!active}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
 import { PieChart, Pie, Tooltip, Cell, ResponsiveContainer, Legend } from "recharts";
 
 const COLORS = ["#8884d8", "#82ca9d", "#ffc658", "#ff7f7f", "#8dd1e1", "#a4de6c", "#d084d0", "#ffa726"];
+const TRUNCATED_COLOR = "#9ca3af";
+const TRUNCATED_LABEL = "Truncated (max steps)";
 
-export default function TerminalPie({ counts }: { counts: Record<string, number> }) {
+export default function TerminalPie({ counts, truncated = 0, policyLabel }: { counts: Record<string, number>; truncated?: number; policyLabel?: string }) {
   const entries = Object.entries(counts);
+  if (truncated > 0) entries.push([TRUNCATED_LABEL, truncated]);
   const total = entries.reduce((sum, [, count]) => sum + count, 0);
   
   const data = entries.map(([name, value]) => ({ 
@@ -28,8 +31,8 @@ export default function TerminalPie({ counts }: { counts: Record<string, number>
               outerRadius={80}
               label={({ name, percentage }) => `${name}: ${percentage}%`}
             >
-              {data.map((_, i) => (
-                <Cell key={i} fill={COLORS[i % COLORS.length]} />
+              {data.map((entry, i) => (
+                <Cell key={i} fill={entry.name === TRUNCATED_LABEL ? TRUNCATED_COLOR : COLORS[i % COLORS.length]} />
               ))}
             </Pie>
             <Tooltip 
@@ -44,7 +47,8 @@ export default function TerminalPie({ counts }: { counts: Record<string, number>
       </div>
       
       <div className="mt-4 text-center text-sm text-gray-600">
-        <p>Total episodes ending in each terminal state</p>
+        <p>Episodes absorbed in each terminal state{truncated > 0 && "; truncated episodes hit the step limit first"}</p>
+        {policyLabel && <p className="text-xs text-gray-500 mt-1">Actions chosen by: {policyLabel}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { constrainedOptimization } from "@/lib/constrainedMdp";
+
+// One decision: a fast action that pays 10 but uses a unit of battery, or a slow free one paying 2
+const errand = (budget: number): MDP => ({
+  states: ["home", "done"],
+  actions: ["fast", "slow"],
+  gamma: 0.9,
+  transitions: {
+    "home|fast": [{ nextState: "done", probability: 1, reward: 10, costs: { battery: 1 } }],
+    "home|slow": [{ nextState: "done", probability: 1, reward: 2 }],
+  },
+  constraints: [{ cost: "battery", budget }],
+});
+
+describe("constrainedOptimization", () => {
+  it("randomises to spend a binding budget exactly", () => {
+    const result = constrainedOptimization(errand(0.25), "home");
+    expect(result.stochasticPolicy.home.fast).toBeCloseTo(0.25, 9);
+    expect(result.stochasticPolicy.home.slow).toBeCloseTo(0.75, 9);
+    expect(result.expectedReturn).toBeCloseTo(4, 9);
+    expect(result.valueFunction.home).toBeCloseTo(4, 9);
+    const [battery] = result.constraints;
+    expect(battery.expectedCost).toBeCloseTo(0.25, 9);
+    expect(battery.satisfied).toBe(true);
+    expect(battery.multiplier).toBeCloseTo(8, 9); // reward per unit of battery the budget gives up
+  });
+
+  it("ignores a slack budget", () => {
+    const result = constrainedOptimization(errand(5), "home");
+    expect(result.bestPolicy.home).toBe("fast");
+    expect(result.expectedReturn).toBeCloseTo(10, 9);
+    expect(result.constraints[0].multiplier).toBeCloseTo(0, 9);
+  });
+
+  it("fails on a budget no policy can meet", () => {
+    expect(() => constrainedOptimization(errand(-1), "home")).toThrow();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { factorDense, multiply, solveDense, solveFactored, solveSparse, toDense, toSparse } from "@/lib/linalg";
+
+// I - γP for a three-state chain 0 → 1 → 2 → 2 with γ = 0.5
+const rows = [
+  new Map([[0, 1], [1, -0.5]]),
+  new Map([[1, 1], [2, -0.5]]),
+  new Map([[2, 0.5]]),
+];
+
+describe("linalg", () => {
+  it("converts between sparse and dense form", () => {
+    const sparse = toSparse(rows);
+    expect(sparse.rowStart).toEqual([0, 2, 4, 5]);
+    expect(toDense(sparse)).toEqual([
+      [1, -0.5, 0],
+      [0, 1, -0.5],
+      [0, 0, 0.5],
+    ]);
+    expect(multiply(sparse, [1, 2, 4])).toEqual([0, 0, 2]);
+  });
+
+  it("solves the same system densely and by Gauss-Seidel", () => {
+    const b = [1, 1, 1];
+    const dense = solveDense(toDense(toSparse(rows)), b);
+    const sparse = solveSparse(toSparse(rows), b);
+    dense.forEach(v => expect(v).toBeCloseTo(2, 12));
+    sparse.forEach((v, i) => expect(v).toBeCloseTo(dense[i], 8));
+  });
+
+  it("reuses one factorisation for several right-hand sides", () => {
+    const factors = factorDense([[0, 2, 1], [1, 1, 0], [3, 0, 1]]);
+    expect(solveFactored(factors, [3, 2, 4])).toEqual(solveDense([[0, 2, 1], [1, 1, 0], [3, 0, 1]], [3, 2, 4]));
+    solveFactored(factors, [6, 3, 5]).forEach((v, i) => expect(v).toBeCloseTo([1, 2, 2][i], 12));
+  });
+
+  it("pivots past a zero on the diagonal", () => {
+    expect(solveDense([[0, 1], [1, 0]], [3, 4])).toEqual([4, 3]);
+  });
+
+  it("rejects singular systems", () => {
+    expect(() => solveDense([[1, 1], [2, 2]], [1, 2])).toThrow("singular");
+    expect(() => solveSparse(toSparse([new Map([[0, 1], [1, -1]]), new Map([[0, -1], [1, 1]])]), [1, 0], { maxIterations: 100 }))
+      .toThrow();
+  });
+});
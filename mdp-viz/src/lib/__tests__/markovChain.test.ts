@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { analyzeMarkovChain } from "@/lib/markovChain";
+import { randomPolicy } from "@/lib/sim";
+
+// `a` and `b` pass the walker back and forth until `b` lets it out to the terminal `c`
+const corridor: MDP = {
+  states: ["a", "b", "c"],
+  actions: ["go"],
+  transitions: {
+    "a|go": [{ nextState: "b", probability: 1 }],
+    "b|go": [{ nextState: "a", probability: 0.5 }, { nextState: "c", probability: 0.5 }],
+  },
+};
+
+// From `s` the walker enters the cycle x → y, where it lingers on `y` half the time
+const loop: MDP = {
+  states: ["s", "x", "y", "z"],
+  actions: ["go"],
+  transitions: {
+    "s|go": [{ nextState: "x", probability: 1 }],
+    "x|go": [{ nextState: "y", probability: 1 }],
+    "y|go": [{ nextState: "x", probability: 0.5 }, { nextState: "y", probability: 0.5 }],
+    "z|go": [{ nextState: "x", probability: 1 }],
+  },
+};
+
+describe("analyzeMarkovChain", () => {
+  it("finds absorption and hitting times through transient states", () => {
+    const analysis = analyzeMarkovChain(corridor, randomPolicy, "a");
+    expect(analysis.transientStates).toEqual(["a", "b"]);
+    expect(analysis.startAbsorption).toEqual([1]);
+    expect(analysis.startStepsToAbsorption).toBeCloseTo(4, 10);
+    expect(analysis.hittingTimes.a).toBe(0);
+    expect(analysis.hittingTimes.b).toBeCloseTo(1, 10);
+    expect(analysis.hittingTimes.c).toBeCloseTo(4, 10);
+  });
+
+  it("measures first passages inside a recurrent class and flags states never reached", () => {
+    const analysis = analyzeMarkovChain(loop, randomPolicy, "s");
+    expect(analysis.recurrentStates).toEqual(["x", "y"]);
+    expect(analysis.stationaryDistribution.x).toBeCloseTo(1 / 3, 10);
+    expect(analysis.stationaryDistribution.y).toBeCloseTo(2 / 3, 10);
+    expect(analysis.hittingTimes.x).toBeCloseTo(1, 10);
+    expect(analysis.hittingTimes.y).toBeCloseTo(2, 10);
+    expect(analysis.hittingTimes.z).toBe(Infinity);
+
+    // From y, x is a geometric wait with success probability 1/2
+    expect(analyzeMarkovChain(loop, randomPolicy, "y").hittingTimes.x).toBeCloseTo(2, 10);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { detectFormat, MdpParseError, parseMdp, serializeMdp } from "@/lib/mdpFormat";
+import { presetExamples } from "@/lib/presets";
+
+// Every field the formats carry, with names that need quoting in the DSL
+const delivery: MDP = {
+  states: ["depot", "on road", "customer", "lost"],
+  actions: ["drive", "wait"],
+  gamma: 0.95,
+  transitions: {
+    "depot|drive": [
+      { nextState: "on road", probability: 0.9, reward: -1, costs: { fuel: 2 } },
+      { nextState: "depot", probability: 0.1, reward: -1, costs: { fuel: 1 } },
+    ],
+    "depot|wait": [{ nextState: "depot", probability: 1 }],
+    "on road|drive": [
+      { nextState: "customer", probability: 0.7, reward: 5, costs: { fuel: 1, time: 3 } },
+      { nextState: "lost", probability: 0.3, reward: -2 },
+    ],
+  },
+  terminalStates: ["customer", "lost"],
+  terminalRewards: { customer: 10 },
+  initialDistribution: { depot: 0.75, "on road": 0.25 },
+  stateRewards: { "on road": -0.5 },
+  actionRewards: { "depot|wait": -0.1 },
+  constraints: [{ cost: "fuel", budget: 4 }],
+  uncertainty: {
+    "depot|drive": { type: "l1", radius: 0.2 },
+    "on road|drive": { type: "interval", bounds: [[0.6, 0.8], [0.2, 0.4]] },
+  },
+};
+
+// The DSL leaves out zero rewards, which are the default
+function withoutZeroRewards(mdp: MDP): MDP {
+  return {
+    ...mdp,
+    transitions: Object.fromEntries(Object.entries(mdp.transitions).map(([key, transitions]) => [
+      key,
+      transitions.map(({ reward, ...t }) => (reward ? { ...t, reward } : t)),
+    ])),
+  };
+}
+
+describe("mdpFormat", () => {
+  it("round-trips a model with every field through each format", () => {
+    for (const format of ["json", "yaml", "dsl"] as const) {
+      expect(parseMdp(serializeMdp(delivery, format), format)).toEqual(delivery);
+    }
+  });
+
+  it("round-trips the presets through the DSL", () => {
+    for (const preset of presetExamples) {
+      const text = serializeMdp(preset.mdp, "dsl");
+      expect(detectFormat("model.txt", text)).toBe("dsl");
+      expect(parseMdp(text, "dsl")).toEqual(withoutZeroRewards(preset.mdp));
+    }
+  });
+
+  it("detects the format from the extension or the content", () => {
+    expect(detectFormat("model.yml", "")).toBe("yaml");
+    expect(detectFormat("model", '  { "states": [] }')).toBe("json");
+    expect(detectFormat("model", "a --go[1]--> b")).toBe("dsl");
+    expect(detectFormat("model", "states: [a]")).toBe("yaml");
+  });
+
+  it("points at the line of a DSL error", () => {
+    expect(() => parseMdp("states a b\nactions go\na --go[x]--> b\n", "dsl"))
+      .toThrow(expect.objectContaining({ name: "MdpParseError", line: 3 }));
+    expect(() => parseMdp("states a b\nactions go\na --go[1.5]--> b\n", "dsl")).toThrow(MdpParseError);
+  });
+});
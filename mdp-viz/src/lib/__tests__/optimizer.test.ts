@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { criterionActionValues, isTerminal, normalizeMdp } from "@/types/mdp";
+import { runOptimizer } from "@/lib/optimizer";
+import { presetExamples } from "@/lib/presets";
+
+describe("runOptimizer", () => {
+  it("records the criterion its value function measures", async () => {
+    const { mdp } = presetExamples[0];
+    const discounted = await runOptimizer("value-iteration", mdp, mdp.states[0], { gamma: 0.5 });
+    expect(discounted.criterion).toEqual({ kind: "discounted", gamma: 0.5 });
+    const average = await runOptimizer("average-reward", mdp, mdp.states[0]);
+    expect(average.criterion?.kind).toBe("average-reward");
+  });
+
+  it.each(presetExamples.map(preset => [preset.name, preset.mdp] as const))(
+    "acts greedily on the average-reward Q-values of %s as its policy does",
+    async (_, mdp) => {
+      const result = await runOptimizer("average-reward", mdp, mdp.states[0]);
+      const qTable = criterionActionValues(mdp, result.valueFunction, result.criterion!);
+      const normalized = normalizeMdp(mdp);
+      for (const [state, action] of Object.entries(result.bestPolicy)) {
+        if (isTerminal(normalized, state)) continue;
+        expect(qTable[state][action]).toBeCloseTo(Math.max(...Object.values(qTable[state])), 4);
+      }
+    }
+  );
+});
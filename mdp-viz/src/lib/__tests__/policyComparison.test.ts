@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { comparePolicies } from "@/lib/policyComparison";
+import { randomPolicy, type SimulationPolicy } from "@/lib/sim";
+
+// Cashing out ends the game with 1; playing on pays 2 or 0 and continues half the time
+const game: MDP = {
+  states: ["table", "home"],
+  actions: ["cash", "play"],
+  gamma: 0.9,
+  transitions: {
+    "table|cash": [{ nextState: "home", probability: 1, reward: 1 }],
+    "table|play": [
+      { nextState: "table", probability: 0.5, reward: 2 },
+      { nextState: "home", probability: 0.5, reward: 0 },
+    ],
+  },
+};
+
+const cash: SimulationPolicy = { kind: "deterministic", policy: { table: "cash" }, label: "Cash" };
+const play: SimulationPolicy = { kind: "deterministic", policy: { table: "play" }, label: "Play" };
+
+describe("comparePolicies", () => {
+  it("repeats exactly for a fixed seed", () => {
+    const first = comparePolicies(game, "table", [randomPolicy, play], { episodes: 500, seed: 11 });
+    const second = comparePolicies(game, "table", [randomPolicy, play], { episodes: 500, seed: 11 });
+    expect(second).toEqual(first);
+    expect(first.seed).toBe(11);
+  });
+
+  it("finds no difference between a policy and itself", () => {
+    const result = comparePolicies(game, "table", [play, { ...play, label: "Play again" }], { episodes: 200, seed: 3 });
+    const [difference] = result.differences;
+    expect(difference.difference.estimate).toBe(0);
+    expect(difference.pValue).toBe(1);
+    expect(difference.varianceReduction).toBe(Infinity);
+  });
+
+  it("tells the better policy apart on shared episodes", () => {
+    const result = comparePolicies(game, "table", [cash, play, randomPolicy], { episodes: 2000, seed: 5 });
+    expect(result.policies.map(p => p.label)).toEqual(["Cash", "Play", "Uniform random"]);
+    expect(result.policies[0].meanReturn.estimate).toBe(1);
+    expect(result.policies[0].terminatedShare).toBe(1);
+    // Playing on is worth 1 / (1 − 0.45) ≈ 1.82
+    expect(result.policies[1].meanReturn.lower).toBeLessThan(1 / 0.55);
+    expect(result.policies[1].meanReturn.upper).toBeGreaterThan(1 / 0.55);
+    const playOverCash = result.differences.find(d => d.baseline === 0 && d.challenger === 1)!;
+    expect(playOverCash.difference.estimate).toBeGreaterThan(0);
+    expect(playOverCash.adjustedPValue).toBeLessThan(0.05);
+    expect(result.differences).toHaveLength(3);
+    result.differences.forEach(d => expect(d.adjustedPValue).toBeGreaterThanOrEqual(d.pValue));
+  });
+
+  it("needs two policies and two episodes", () => {
+    expect(() => comparePolicies(game, "table", [play])).toThrow();
+    expect(() => comparePolicies(game, "table", [play, cash], { episodes: 1 })).toThrow();
+  });
+});
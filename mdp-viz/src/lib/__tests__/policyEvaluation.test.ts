@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { evaluatePolicyExact, returnMomentsExact } from "@/lib/policyEvaluation";
+
+// From `a`, `left` pays 1 and `right` pays 3 on the way to the terminal state `end`
+const fork: MDP = {
+  states: ["a", "end"],
+  actions: ["left", "right"],
+  gamma: 0.9,
+  transitions: {
+    "a|left": [{ nextState: "end", probability: 1, reward: 1 }],
+    "a|right": [{ nextState: "end", probability: 1, reward: 3 }],
+  },
+};
+
+describe("evaluatePolicyExact", () => {
+  it("solves for the value of a deterministic policy", () => {
+    const result = evaluatePolicyExact(fork, { a: "right" }, "a");
+    expect(result.valueFunction).toEqual({ a: 3, end: 0 });
+    expect(result.startValue).toBe(3);
+    expect(result.solver).toBe("dense");
+  });
+
+  it("acts uniformly where the policy has no action, as simulation does", () => {
+    expect(evaluatePolicyExact(fork, {}, "a").startValue).toBeCloseTo(2, 12);
+    expect(returnMomentsExact(fork, {}, "a").variance).toBeCloseTo(1, 12);
+  });
+
+  it("rejects an undiscounted policy that never terminates", () => {
+    const loop: MDP = {
+      states: ["a", "end"],
+      actions: ["stay", "go"],
+      transitions: {
+        "a|stay": [{ nextState: "a", probability: 1, reward: 0 }],
+        "a|go": [{ nextState: "end", probability: 1, reward: 1 }],
+      },
+    };
+    expect(() => evaluatePolicyExact(loop, { a: "stay" }, "a", { gamma: 1 })).toThrow("terminal state");
+    expect(evaluatePolicyExact(loop, { a: "go" }, "a", { gamma: 1 }).startValue).toBe(1);
+  });
+});
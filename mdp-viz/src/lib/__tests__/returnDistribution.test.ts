@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { goodnessOfFit, histogramBin, returnDistribution } from "@/lib/returnDistribution";
+import { randomPolicy, simulateEpisode } from "@/lib/sim";
+import { createRng } from "@/lib/rng";
+
+// Each flip pays 1 and ends the game with probability 1/2, so the return is geometric
+const flips: MDP = {
+  states: ["play", "over"],
+  actions: ["flip"],
+  gamma: 1,
+  transitions: {
+    "play|flip": [
+      { nextState: "play", probability: 0.5, reward: 1 },
+      { nextState: "over", probability: 0.5, reward: 0 },
+    ],
+  },
+};
+
+describe("returnDistribution", () => {
+  it("computes the exact law, with the cut-off mass on the last atom", () => {
+    const law = returnDistribution(flips, randomPolicy, "play", { maxSteps: 10 });
+    expect(law.exact).toBe(true);
+    expect(law.atoms).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    law.atoms.slice(0, 10).forEach((k, i) => expect(law.probabilities[i]).toBeCloseTo(0.5 ** (k + 1), 12));
+    expect(law.probabilities[10]).toBeCloseTo(0.5 ** 10, 12);
+    expect(law.mean).toBeCloseTo(1 - 0.5 ** 10, 12);
+  });
+
+  it("discounts the rewards along the way", () => {
+    const law = returnDistribution(flips, randomPolicy, "play", { gamma: 0.5, maxSteps: 3 });
+    expect(law.atoms).toEqual([0, 1, 1.5, 1.75]);
+  });
+
+  it("projects a support that outgrows maxAtoms but keeps the mean", () => {
+    const law = returnDistribution(flips, randomPolicy, "play", { gamma: 0.9, maxSteps: 40, maxAtoms: 8 });
+    expect(law.exact).toBe(false);
+    expect(law.atoms.length).toBeLessThanOrEqual(8);
+    const exactMean = returnDistribution(flips, randomPolicy, "play", { gamma: 0.9, maxSteps: 40 }).mean;
+    expect(law.mean).toBeCloseTo(exactMean, 9);
+  });
+
+  it("fits the returns simulation samples with a fixed seed", () => {
+    const rng = createRng(7);
+    const samples = Array.from({ length: 2000 }, () =>
+      simulateEpisode(flips, "play", 10, rng).totalReward
+    );
+    const fit = goodnessOfFit(samples, returnDistribution(flips, randomPolicy, "play", { maxSteps: 10 }), 11);
+    expect(fit.samples).toBe(2000);
+    expect(fit.chiSquarePValue).toBeGreaterThan(0.01);
+    expect(fit.ksDistance).toBeLessThan(fit.ksCritical);
+  });
+
+  it("keeps values a rounding error below a bin edge in that bin", () => {
+    expect(histogramBin(0.3 - 1e-12, 0, 0.1, 10)).toBe(3);
+    expect(histogramBin(5, 0, 0.1, 10)).toBe(9);
+    expect(histogramBin(-1, 0, 0.1, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { MDP, Transition } from "@/types/mdp";
+import { robustValueIteration, worstCaseDistribution } from "@/lib/robustMdp";
+
+const row: Transition[] = [
+  { nextState: "good", probability: 0.5 },
+  { nextState: "bad", probability: 0.5 },
+];
+
+// A sure 1, or a coin flip between 4 and −1 that is worth 1.5 on the nominal model
+const bet: MDP = {
+  states: ["s", "g"],
+  actions: ["safe", "risky"],
+  gamma: 0.9,
+  transitions: {
+    "s|safe": [{ nextState: "g", probability: 1, reward: 1 }],
+    "s|risky": [
+      { nextState: "g", probability: 0.5, reward: 4 },
+      { nextState: "g", probability: 0.5, reward: -1 },
+    ],
+  },
+};
+
+describe("worstCaseDistribution", () => {
+  it("fills interval bounds from the worst outcome up", () => {
+    const p = worstCaseDistribution({ type: "interval", bounds: [[0.2, 0.6], [0.3, 0.8]] }, row, [5, 0]);
+    expect(p[0]).toBeCloseTo(0.2, 12);
+    expect(p[1]).toBeCloseTo(0.8, 12);
+  });
+
+  it("moves half the L1 radius onto the worst outcome", () => {
+    const p = worstCaseDistribution({ type: "l1", radius: 0.4 }, row, [5, 0]);
+    expect(p[0]).toBeCloseTo(0.3, 12);
+    expect(p[1]).toBeCloseTo(0.7, 12);
+  });
+});
+
+describe("robustValueIteration", () => {
+  it("prefers the sure action once the adversary can shift the coin", () => {
+    const result = robustValueIteration(bet, "s", { uncertaintyRadius: 0.4 });
+    expect(result.bestPolicy.s).toBe("safe");
+    expect(result.worstCaseValue).toBeCloseTo(1, 6);
+    expect(result.nominalValue).toBeCloseTo(1, 6);
+    expect(result.nominalPolicy.s).toBe("risky");
+    expect(result.nominalPolicyValue).toBeCloseTo(1.5, 6);
+    expect(result.nominalPolicyWorstCase).toBeCloseTo(0.5, 6);
+    expect(result.uncertainRows).toBe(2);
+    expect(result.worstCaseTransitions).toEqual({ "s|safe": [1] });
+    expect(result.converged).toBe(true);
+  });
+
+  it("matches nominal planning without uncertainty", () => {
+    const result = robustValueIteration(bet, "s");
+    expect(result.bestPolicy.s).toBe("risky");
+    expect(result.worstCaseValue).toBeCloseTo(1.5, 6);
+    expect(result.uncertainRows).toBe(0);
+  });
+});
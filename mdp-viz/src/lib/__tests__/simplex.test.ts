@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { solveLinearProgram } from "@/lib/simplex";
+
+describe("solveLinearProgram", () => {
+  it("finds the optimum and shadow prices of a textbook maximisation", () => {
+    // max 3x + 5y s.t. x ≤ 4, 2y ≤ 12, 3x + 2y ≤ 18
+    const solution = solveLinearProgram({
+      sense: "max",
+      objective: [3, 5],
+      constraints: [
+        { coefficients: [1, 0], relation: "<=", rhs: 4 },
+        { coefficients: [0, 2], relation: "<=", rhs: 12 },
+        { coefficients: [3, 2], relation: "<=", rhs: 18 },
+      ],
+    });
+    expect(solution.status).toBe("optimal");
+    expect(solution.values[0]).toBeCloseTo(2, 9);
+    expect(solution.values[1]).toBeCloseTo(6, 9);
+    expect(solution.objective).toBeCloseTo(36, 9);
+    [0, 1.5, 1].forEach((dual, i) => expect(solution.duals[i]).toBeCloseTo(dual, 9));
+  });
+
+  it("handles ≥ and = constraints in a minimisation", () => {
+    // min x + y s.t. x + 2y ≥ 4, x − y = 1
+    const solution = solveLinearProgram({
+      sense: "min",
+      objective: [1, 1],
+      constraints: [
+        { coefficients: [1, 2], relation: ">=", rhs: 4 },
+        { coefficients: [1, -1], relation: "=", rhs: 1 },
+      ],
+    });
+    expect(solution.status).toBe("optimal");
+    expect(solution.values[0]).toBeCloseTo(2, 9);
+    expect(solution.values[1]).toBeCloseTo(1, 9);
+    expect(solution.objective).toBeCloseTo(3, 9);
+  });
+
+  it("reports infeasible and unbounded programs", () => {
+    expect(solveLinearProgram({
+      sense: "max",
+      objective: [1],
+      constraints: [
+        { coefficients: [1], relation: "<=", rhs: 1 },
+        { coefficients: [1], relation: ">=", rhs: 2 },
+      ],
+    }).status).toBe("infeasible");
+    expect(solveLinearProgram({
+      sense: "max",
+      objective: [1, 1],
+      constraints: [{ coefficients: [1, -1], relation: "<=", rhs: 1 }],
+    }).status).toBe("unbounded");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  chiSquareSurvival,
+  gammaQ,
+  kolmogorovSurvival,
+  logGamma,
+  normalInterval,
+  normalQuantile,
+  quantile,
+  twoSidedNormalPValue
+} from "@/lib/statistics";
+
+describe("statistics", () => {
+  it("matches the gamma function at integers and one half", () => {
+    expect(logGamma(5)).toBeCloseTo(Math.log(24), 12);
+    expect(logGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 12);
+    // Q(1, x) = e^{-x}
+    expect(gammaQ(1, 0.5)).toBeCloseTo(Math.exp(-0.5), 12);
+    expect(gammaQ(1, 5)).toBeCloseTo(Math.exp(-5), 12);
+  });
+
+  it("reproduces textbook critical values", () => {
+    expect(chiSquareSurvival(3.841459, 1)).toBeCloseTo(0.05, 6);
+    expect(chiSquareSurvival(18.307038, 10)).toBeCloseTo(0.05, 6);
+    expect(twoSidedNormalPValue(1.959964)).toBeCloseTo(0.05, 6);
+    expect(twoSidedNormalPValue(-2.575829)).toBeCloseTo(0.01, 6);
+    expect(kolmogorovSurvival(1.358099)).toBeCloseTo(0.05, 5);
+  });
+
+  it("inverts the normal distribution", () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+    expect(normalQuantile(0.001)).toBeCloseTo(-3.090232, 6);
+  });
+
+  it("interpolates quantiles between order statistics", () => {
+    const sorted = [1, 2, 3, 4];
+    expect(quantile(sorted, 0)).toBe(1);
+    expect(quantile(sorted, 0.5)).toBe(2.5);
+    expect(quantile(sorted, 1)).toBe(4);
+    expect(quantile([], 0.5)).toBeNaN();
+  });
+
+  it("builds a symmetric normal interval", () => {
+    const interval = normalInterval(10, 2);
+    expect(interval.lower).toBeCloseTo(10 - 1.959964 * 2, 5);
+    expect(interval.upper).toBeCloseTo(10 + 1.959964 * 2, 5);
+    expect(normalInterval(0, 1, 0.99).upper).toBeCloseTo(2.575829, 5);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { MDP } from "@/types/mdp";
+import { improperStates, properPolicy, stochasticShortestPath } from "@/lib/stochasticShortestPath";
+
+// `start` can idle for free or head on; `middle` can finish safely or gamble on falling into `pit`
+const errand: MDP = {
+  states: ["start", "middle", "goal", "pit"],
+  actions: ["idle", "go", "finish", "gamble", "stay"],
+  transitions: {
+    "start|idle": [{ nextState: "start", probability: 1, reward: 0 }],
+    "start|go": [{ nextState: "middle", probability: 1, reward: -1 }],
+    "middle|finish": [{ nextState: "goal", probability: 1, reward: -2 }],
+    "middle|gamble": [
+      { nextState: "goal", probability: 0.5, reward: -1 },
+      { nextState: "pit", probability: 0.5, reward: -1 },
+    ],
+    "pit|stay": [{ nextState: "pit", probability: 1, reward: -1 }],
+  },
+};
+
+describe("stochasticShortestPath", () => {
+  it("finds the cheapest proper policy and flags what has no finite cost", () => {
+    const result = stochasticShortestPath(errand, "start");
+    expect(result.bestPolicy).toEqual({ start: "go", middle: "finish" });
+    expect(result.costToGoal.start).toBeCloseTo(3, 6);
+    expect(result.costToGoal.middle).toBeCloseTo(2, 6);
+    expect(result.costToGoal.goal).toBe(0);
+    expect(result.costToGoal.pit).toBe(Infinity);
+    expect(result.startHasFiniteSolution).toBe(true);
+    expect(result.properPolicy).toBe(true);
+    expect(result.diagnostics.goals).toEqual(["goal"]);
+    expect(result.diagnostics.deadEnds).toEqual(["pit"]);
+    expect(result.diagnostics.zeroCostCycles.flatMap(c => c.states)).toEqual(["start"]);
+  });
+
+  it("reports a cycle that earns reward forever as unbounded", () => {
+    const spinning: MDP = {
+      states: ["x", "goal"],
+      actions: ["spin", "exit"],
+      transitions: {
+        "x|spin": [{ nextState: "x", probability: 1, reward: 1 }],
+        "x|exit": [{ nextState: "goal", probability: 1, reward: 0 }],
+      },
+    };
+    const result = stochasticShortestPath(spinning, "x");
+    expect(result.diagnostics.rewardCycles[0].rewardActions).toEqual(["x|spin"]);
+    expect(result.diagnostics.unbounded).toEqual(["x"]);
+    expect(result.costToGoal.x).toBe(-Infinity);
+    expect(result.startHasFiniteSolution).toBe(false);
+  });
+
+  it("builds a proper policy and detects improper ones", () => {
+    expect(properPolicy(errand)).toEqual({ start: "go", middle: "finish" });
+    expect(improperStates(errand, { start: "go", middle: "finish", pit: "stay" })).toEqual(["pit"]);
+    expect(improperStates(errand, { start: "idle", middle: "gamble", pit: "stay" })).toEqual(["start", "middle", "pit"]);
+  });
+});
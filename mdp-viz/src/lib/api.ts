@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { actionsFromState, mdpSchema, referenceErrors, validateInitialDistribution, validateTransitionMass, validateUncertainty, type MDP } from "@/types/mdp";
+import { MAX_RISK_EPISODES } from "@/lib/riskSensitive";
+
+// Structured error codes returned by every /api endpoint
+export type ApiErrorCode =
+  | "INVALID_JSON"
+  | "INVALID_REQUEST"
+  | "INVALID_MDP"
+  | "UNKNOWN_STATE"
+  | "UNKNOWN_ALGORITHM"
+  | "LIMIT_EXCEEDED"
+  | "UNSOLVABLE"
+  | "INTERNAL_ERROR";
+
+const statusByCode: Record<ApiErrorCode, number> = {
+  INVALID_JSON: 400,
+  INVALID_REQUEST: 400,
+  INVALID_MDP: 422,
+  UNKNOWN_STATE: 422,
+  UNKNOWN_ALGORITHM: 400,
+  LIMIT_EXCEEDED: 413,
+  UNSOLVABLE: 422,
+  INTERNAL_ERROR: 500,
+};
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Upper bounds so a single request cannot pin the server
+export const API_LIMITS = {
+  maxEpisodes: 100_000,
+  maxSteps: 10_000,
+  maxIterations: 100_000,
+  maxRiskEpisodes: MAX_RISK_EPISODES, // CVaR scores every candidate policy on each sampled episode
+};
+
+export function errorResponse(error: unknown) {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message, details: error.details } },
+      { status: statusByCode[error.code] }
+    );
+  }
+  console.error("API request failed:", error);
+  return NextResponse.json(
+    { error: { code: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "Unexpected error" } },
+    { status: statusByCode.INTERNAL_ERROR }
+  );
+}
+
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError("INVALID_JSON", "Request body is not valid JSON");
+  }
+}
+
+// Parse a request body against a schema; values over API_LIMITS map to LIMIT_EXCEEDED
+export function parseBody<T extends z.ZodType>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issues = parsed.error.issues;
+    const limitFields = ["episodes", "maxSteps", "maxIterations"];
+    if (issues.some(issue => issue.code === "too_big" && limitFields.includes(String(issue.path[issue.path.length - 1])))) {
+      throw new ApiError("LIMIT_EXCEEDED", "Request exceeds API limits", { limits: API_LIMITS, issues: formatIssues(issues) });
+    }
+    throw new ApiError("INVALID_REQUEST", "Request body failed validation", formatIssues(issues));
+  }
+  return parsed.data;
+}
+
+export function requireValidMdp(mdp: MDP) {
+  const errors = [
+    ...validateTransitionMass(mdp),
+    ...validateInitialDistribution(mdp),
+    ...validateUncertainty(mdp),
+    ...referenceErrors(mdp),
+  ];
+  if (errors.length > 0) {
+    throw new ApiError("INVALID_MDP", "MDP failed validation", errors);
+  }
+}
+
+export function requireState(mdp: MDP, state: string) {
+  if (!mdp.states.includes(state)) {
+    throw new ApiError("UNKNOWN_STATE", `Start state "${state}" is not in the MDP`, { states: mdp.states });
+  }
+}
+
+// Every state -> action entry must name an action the MDP offers in that state
+export function requirePolicyFits(mdp: MDP, policy: Record<string, string>) {
+  const policyErrors = Object.entries(policy)
+    .filter(([state, action]) => !mdp.states.includes(state) || !actionsFromState(mdp, state).includes(action))
+    .map(([state, action]) => `"${action}" is not available in state "${state}"`);
+  if (policyErrors.length > 0) {
+    throw new ApiError("INVALID_REQUEST", "Policy does not fit the MDP", policyErrors);
+  }
+}
+
+export function formatIssues(issues: z.core.$ZodIssue[]) {
+  return issues.map(issue => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
+
+export const mdpRequestSchema = z.object({
+  mdp: mdpSchema,
+});
+
+export const optimizationConfigSchema = z.object({
+  maxIterations: z.number().int().positive().max(API_LIMITS.maxIterations).optional(),
+  tolerance: z.number().positive().optional(),
+  gamma: z.number().min(0).max(1).optional(),
+  learningRate: z.number().positive().max(1).optional(),
+  epsilon: z.number().min(0).max(1).optional(),
+  episodes: z.number().int().positive().max(API_LIMITS.maxEpisodes).optional(),
+  lambda: z.number().min(0).max(1).optional(),
+  seed: z.number().int().nonnegative().optional(),
+  exactEvaluation: z.boolean().optional(),
+  horizon: z.number().int().positive().max(API_LIMITS.maxSteps).optional(),
+  uncertaintyRadius: z.number().min(0).max(2).optional(),
+  riskLevel: z.number().positive().max(1).optional(),
+  riskAversion: z.number().optional(),
+});
+
+const qTableSchema = z.record(z.string(), z.record(z.string(), z.number()));
+
+// SimulationPolicy from @/lib/sim
+export const simulationPolicySchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("random") }),
+  z.object({ kind: z.literal("deterministic"), policy: z.record(z.string(), z.string()) }),
+  z.object({ kind: z.literal("time-indexed"), policies: z.array(z.record(z.string(), z.string())).min(1).max(API_LIMITS.maxSteps) }),
+  z.object({ kind: z.literal("stochastic"), probabilities: z.record(z.string(), z.record(z.string(), z.number().min(0))) }),
+  z.object({ kind: z.literal("epsilon-greedy"), qTable: qTableSchema, epsilon: z.number().min(0).max(1) }),
+  z.object({ kind: z.literal("softmax"), qTable: qTableSchema, temperature: z.number().positive() }),
+]);
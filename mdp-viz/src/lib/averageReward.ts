@@ -0,0 +1,125 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+export interface AverageRewardResult extends OptimizationResult {
+  gain: number; // long-run reward per step from the start state or initial distribution
+  gainByState: Record<string, number>; // differs between states only in multichain models
+  bias: Record<string, number>; // h(s): transient advantage of starting in s, with h(reference) = 0
+  referenceState: string;
+  converged: boolean;
+}
+
+// Aperiodicity transform: P̃ = τP + (1 - τ)I and r̃ = τr keep the optimal policy and
+// the bias, scale the gain by τ, and make relative value iteration converge on
+// periodic chains
+const TAU = 0.5;
+
+// Relative value iteration for the average-reward (gain) criterion. Each sweep
+// applies the undiscounted Bellman operator and subtracts the value of the
+// reference state so the iterates stay bounded; the per-state increments
+// (T h - h)(s) converge to τ·g(s). States without actions are absorbing and earn
+// nothing, so episodic models have gain 0 unless a policy can avoid termination.
+export function relativeValueIteration(
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  _callback?: OptimizationCallback
+): AverageRewardResult {
+  mdp = normalizeMdp(mdp);
+  const { maxIterations = 1000, tolerance = 1e-6 } = config;
+  const states = mdp.states;
+  const referenceState = states.includes(startState) ? startState : states[0];
+
+  const backup = (h: Record<string, number>, state: string, action: string) =>
+    (1 - TAU) * h[state] + TAU * transitionsFor(mdp, state, action).reduce(
+      (acc, t) => acc + t.probability * ((t.reward ?? 0) + (h[t.nextState] ?? 0)),
+      0
+    );
+  const greedy = (h: Record<string, number>, state: string) => {
+    let bestAction = "";
+    let bestValue = -Infinity;
+    for (const action of actionsFromState(mdp, state)) {
+      const value = backup(h, state, action);
+      if (value > bestValue) {
+        bestValue = value;
+        bestAction = action;
+      }
+    }
+    return { action: bestAction, value: bestValue };
+  };
+
+  let h: Record<string, number> = Object.fromEntries(states.map(state => [state, 0]));
+  let increments: Record<string, number> = Object.fromEntries(states.map(state => [state, 0]));
+  const convergenceHistory: number[] = [];
+  const policyHistory: Record<string, string>[] = [];
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const next: Record<string, number> = {};
+    const policy: Record<string, string> = {};
+    for (const state of states) {
+      if (actionsFromState(mdp, state).length === 0) {
+        next[state] = h[state];
+        continue;
+      }
+      const { action, value } = greedy(h, state);
+      next[state] = value;
+      policy[state] = action;
+    }
+    const nextIncrements = Object.fromEntries(states.map(state => [state, next[state] - h[state]]));
+    const delta = Math.max(...states.map(state => Math.abs(nextIncrements[state] - increments[state])));
+    const offset = next[referenceState];
+    h = Object.fromEntries(states.map(state => [state, next[state] - offset]));
+    increments = nextIncrements;
+    convergenceHistory.push(delta);
+
+    _callback?.onProgress?.({
+      iteration: iterations,
+      delta,
+      valueFunction: { ...h },
+      policy,
+      method: "Relative Value Iteration"
+    });
+
+    if (iterations > 1 && delta < tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  const gainByState = Object.fromEntries(states.map(state => [state, increments[state] / TAU]));
+  // In multichain models the relative values drift apart by n·(g(s) - g(ref));
+  // take that drift out to recover the bias
+  const bias = Object.fromEntries(states.map(state => [
+    state,
+    h[state] - iterations * (increments[state] - increments[referenceState]),
+  ]));
+
+  const bestPolicy: Record<string, string> = {};
+  for (const state of states) {
+    if (actionsFromState(mdp, state).length > 0) bestPolicy[state] = greedy(h, state).action;
+  }
+  policyHistory.push(bestPolicy);
+
+  const gain = initialStates(mdp, startState).reduce(
+    (acc, { state, probability }) => acc + probability * (gainByState[state] ?? 0),
+    0
+  );
+
+  return {
+    bestPolicy,
+    bestValue: Math.max(...Object.values(bias)),
+    iterations,
+    convergenceHistory,
+    policyHistory,
+    valueFunction: bias,
+    gain,
+    gainByState,
+    bias,
+    referenceState,
+    converged,
+  };
+}
@@ -0,0 +1,156 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { solveLinearProgram, type LinearConstraint } from "@/lib/simplex";
+import { evaluateRandomizedPolicyExact } from "@/lib/policyEvaluation";
+import type { OccupancyEntry } from "@/lib/linearProgramming";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+export interface ConstraintReport {
+  cost: string;
+  budget: number;
+  expectedCost: number; // expected discounted cost from the start under the returned policy
+  satisfied: boolean;
+  multiplier: number; // Lagrange multiplier: reward given up per extra unit of budget
+}
+
+export interface ConstrainedOptimizationResult extends OptimizationResult {
+  stochasticPolicy: Record<string, Record<string, number>>; // state -> action -> probability
+  occupancy: OccupancyEntry[];
+  expectedReturn: number; // expected discounted return from the start distribution
+  constraints: ConstraintReport[];
+}
+
+// Maximises expected discounted reward subject to each of the MDP's constraints,
+// E[Σ γ^t C_k] ≤ B_k, by solving the occupancy-measure LP
+//
+//   max Σ x(s,a) r(s,a)
+//   s.t. Σ_a x(s',a) - γ Σ_{s,a} P(s'|s,a) x(s,a) = μ0(s')
+//        Σ x(s,a) c_k(s,a) ≤ B_k,  x ≥ 0
+//
+// The optimal policy may need to randomise: π(a|s) = x(s,a) / Σ_a' x(s,a').
+// States the optimal occupancy never reaches take the action that is best for the
+// Lagrangian reward r - Σ_k λ_k c_k.
+export function constrainedOptimization(
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  _callback?: OptimizationCallback
+): ConstrainedOptimizationResult {
+  mdp = normalizeMdp(mdp);
+  const gamma = config.gamma ?? mdp.gamma ?? 0.9;
+  const constraints = mdp.constraints ?? [];
+  const active = mdp.states.filter(state => actionsFromState(mdp, state).length > 0);
+  const position = new Map(active.map((state, i) => [state, i]));
+  const pairs = active.flatMap(state => actionsFromState(mdp, state).map(action => {
+    const transitions = transitionsFor(mdp, state, action);
+    return {
+      state,
+      action,
+      reward: transitions.reduce((acc, t) => acc + t.probability * (t.reward ?? 0), 0),
+      costs: constraints.map(c => transitions.reduce((acc, t) => acc + t.probability * (t.costs?.[c.cost] ?? 0), 0)),
+      next: transitions.flatMap(t => {
+        const j = position.get(t.nextState);
+        return j === undefined ? [] : [{ j, probability: t.probability }];
+      }),
+    };
+  }));
+
+  const mu0 = new Array<number>(active.length).fill(0);
+  for (const { state, probability } of initialStates(mdp, startState)) {
+    const i = position.get(state);
+    if (i !== undefined) mu0[i] += probability;
+  }
+
+  const flow: LinearConstraint[] = active.map((_, target) => ({
+    coefficients: pairs.map(pair =>
+      (position.get(pair.state) === target ? 1 : 0) -
+      gamma * pair.next.reduce((acc, { j, probability }) => acc + (j === target ? probability : 0), 0)
+    ),
+    relation: "=",
+    rhs: mu0[target],
+  }));
+  const budgets: LinearConstraint[] = constraints.map((c, k) => ({
+    coefficients: pairs.map(pair => pair.costs[k]),
+    relation: "<=",
+    rhs: c.budget,
+  }));
+  const solution = solveLinearProgram({
+    sense: "max",
+    objective: pairs.map(pair => pair.reward),
+    constraints: [...flow, ...budgets],
+  });
+  if (solution.status === "infeasible") {
+    throw new Error(
+      `No policy keeps every expected cost within budget (${constraints.map(c => `${c.cost} ≤ ${c.budget}`).join(", ")})`
+    );
+  }
+  if (solution.status === "unbounded") {
+    throw new Error("The constrained LP is unbounded: with γ = 1 some policy collects unbounded reward");
+  }
+
+  const x = solution.values;
+  const multipliers = solution.duals.slice(active.length);
+  // Flow duals are the values of the Lagrangian problem
+  const lagrangianValue = solution.duals.slice(0, active.length);
+
+  const stochasticPolicy: Record<string, Record<string, number>> = {};
+  const bestPolicy: Record<string, string> = {};
+  for (const state of active) {
+    const entries = pairs.flatMap((pair, p) => (pair.state === state ? [{ pair, x: x[p] }] : []));
+    const total = entries.reduce((acc, e) => acc + e.x, 0);
+    if (total > 1e-12) {
+      stochasticPolicy[state] = Object.fromEntries(
+        entries.filter(e => e.x / total > 1e-9).map(e => [e.pair.action, e.x / total])
+      );
+    } else {
+      const lagrangianQ = (pair: typeof pairs[number]) =>
+        pair.reward - pair.costs.reduce((acc, c, k) => acc + multipliers[k] * c, 0) +
+        gamma * pair.next.reduce((acc, { j, probability }) => acc + probability * lagrangianValue[j], 0);
+      const best = entries.reduce((a, b) => (lagrangianQ(b.pair) > lagrangianQ(a.pair) ? b : a));
+      stochasticPolicy[state] = { [best.pair.action]: 1 };
+    }
+    bestPolicy[state] = Object.entries(stochasticPolicy[state]).reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+  }
+
+  const totalOccupancy = x.reduce((acc, v) => acc + v, 0);
+  const occupancy: OccupancyEntry[] = pairs.map((pair, p) => ({
+    state: pair.state,
+    action: pair.action,
+    occupancy: x[p],
+    share: totalOccupancy > 0 ? x[p] / totalOccupancy : 0,
+  }));
+
+  const reports: ConstraintReport[] = constraints.map((c, k) => {
+    const expectedCost = pairs.reduce((acc, pair, p) => acc + x[p] * pair.costs[k], 0);
+    return {
+      cost: c.cost,
+      budget: c.budget,
+      expectedCost,
+      satisfied: expectedCost <= c.budget + 1e-6,
+      multiplier: Math.max(0, multipliers[k]),
+    };
+  });
+
+  const { valueFunction } = evaluateRandomizedPolicyExact(mdp, stochasticPolicy, startState, { gamma });
+
+  _callback?.onProgress?.({
+    iteration: solution.pivots,
+    delta: 0,
+    valueFunction,
+    policy: bestPolicy,
+    method: "Constrained LP"
+  });
+
+  return {
+    bestPolicy,
+    bestValue: Math.max(...Object.values(valueFunction)),
+    iterations: solution.pivots,
+    convergenceHistory: solution.objectiveHistory,
+    policyHistory: [bestPolicy],
+    valueFunction,
+    stochasticPolicy,
+    occupancy,
+    expectedReturn: solution.objective,
+    constraints: reports,
+  };
+}
@@ -0,0 +1,105 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, normalizeMdp, transitionsFor } from "@/types/mdp";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+export interface ActionChange {
+  state: string;
+  step: number; // first step that uses `to`
+  stepsLeft: number; // decisions remaining at that step, including this one
+  from: string;
+  to: string;
+}
+
+export interface FiniteHorizonResult extends OptimizationResult {
+  horizon: number;
+  values: Record<string, number>[]; // values[t][s] = V_t(s), optimal return with H - t decisions left; values[H] is all zeros
+  timePolicy: Record<string, string>[]; // timePolicy[t] = π_t, the action to take at step t
+  actionChanges: ActionChange[]; // where π_t(s) differs from π_{t-1}(s)
+}
+
+const TIE_TOLERANCE = 1e-9;
+
+// Backward induction over a horizon of H decisions:
+// V_H = 0, V_t(s) = max_a Σ P(s'|s,a) [r + γ V_{t+1}(s')], π_t(s) = the maximising action.
+// Ties keep the action chosen one step later, so the policy only changes where it has to.
+export function backwardInduction(
+  mdp: MDP,
+  config: OptimizationConfig = {},
+  _callback?: OptimizationCallback
+): FiniteHorizonResult {
+  mdp = normalizeMdp(mdp);
+  const gamma = config.gamma ?? mdp.gamma ?? 0.9;
+  const horizon = config.horizon ?? 10;
+  if (!Number.isInteger(horizon) || horizon < 1) {
+    throw new Error(`Horizon must be a positive integer (got ${horizon})`);
+  }
+
+  const values: Record<string, number>[] = new Array(horizon + 1);
+  const timePolicy: Record<string, string>[] = new Array(horizon);
+  values[horizon] = Object.fromEntries(mdp.states.map(state => [state, 0]));
+  const convergenceHistory: number[] = [];
+  const policyHistory: Record<string, string>[] = [];
+
+  for (let t = horizon - 1; t >= 0; t--) {
+    const next = values[t + 1];
+    const current: Record<string, number> = {};
+    const policy: Record<string, string> = {};
+    let delta = 0;
+    for (const state of mdp.states) {
+      const actions = actionsFromState(mdp, state);
+      if (actions.length === 0) {
+        current[state] = 0;
+        continue;
+      }
+      const later = timePolicy[t + 1]?.[state];
+      let bestValue = -Infinity;
+      let bestAction = actions[0];
+      for (const action of actions) {
+        const q = transitionsFor(mdp, state, action).reduce(
+          (acc, tr) => acc + tr.probability * ((tr.reward ?? 0) + gamma * (next[tr.nextState] ?? 0)),
+          0
+        );
+        if (q > bestValue + TIE_TOLERANCE || (q > bestValue - TIE_TOLERANCE && action === later)) {
+          bestValue = Math.max(q, bestValue);
+          bestAction = action;
+        }
+      }
+      current[state] = bestValue;
+      policy[state] = bestAction;
+      delta = Math.max(delta, Math.abs(bestValue - next[state]));
+    }
+    values[t] = current;
+    timePolicy[t] = policy;
+    convergenceHistory.push(delta);
+    policyHistory.push(policy);
+
+    _callback?.onProgress?.({
+      iteration: horizon - t,
+      delta,
+      valueFunction: { ...current },
+      policy,
+      method: "Finite Horizon"
+    });
+  }
+
+  const actionChanges: ActionChange[] = [];
+  for (let t = 1; t < horizon; t++) {
+    for (const [state, action] of Object.entries(timePolicy[t])) {
+      const previous = timePolicy[t - 1][state];
+      if (previous !== action) actionChanges.push({ state, step: t, stepsLeft: horizon - t, from: previous, to: action });
+    }
+  }
+
+  return {
+    bestPolicy: timePolicy[0],
+    bestValue: Math.max(...Object.values(values[0])),
+    iterations: horizon,
+    convergenceHistory,
+    policyHistory,
+    valueFunction: values[0],
+    horizon,
+    values,
+    timePolicy,
+    actionChanges,
+  };
+}
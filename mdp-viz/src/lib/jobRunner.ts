@@ -0,0 +1,68 @@
+import type { OptimizationProgress } from "@/lib/optimizer";
+import { executeJob, type Job, type JobResult, type WorkerMessage } from "@/lib/jobs";
+
+export interface RunJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: OptimizationProgress) => void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function abortError() {
+  return new DOMException("Job cancelled", "AbortError");
+}
+
+// Run a job on a dedicated worker. Aborting terminates the worker, which is the
+// only way to interrupt the synchronous optimizer loops.
+export function runJob<J extends Job>(job: J, options: RunJobOptions = {}): Promise<JobResult<J>> {
+  const { signal, onProgress } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  if (typeof Worker === "undefined") {
+    return executeJob(job, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./jobs.worker.ts", import.meta.url));
+
+    const cleanup = () => {
+      signal?.removeEventListener("abort", handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "result":
+          cleanup();
+          resolve(message.result as JobResult<J>);
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Worker failed"));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+    worker.postMessage(job);
+  });
+}
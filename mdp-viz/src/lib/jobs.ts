@@ -0,0 +1,79 @@
+import type { MDP } from "@/types/mdp";
+import {
+  runOptimizer,
+  robustOptimizeMDPConfiguration,
+  type OptimizationConfig,
+  type OptimizationProgress,
+  type OptimizationResult,
+  type OptimizerAlgorithm,
+  type RobustOptimizationResult
+} from "@/lib/optimizer";
+import { runMonteCarlo, runMonteCarloAdaptive, type MonteCarloSummary, type SimulationPolicy } from "@/lib/sim";
+import { rngFromSeed } from "@/lib/rng";
+import { returnDistribution, type ReturnDistribution } from "@/lib/returnDistribution";
+import { comparePolicies, type PolicyComparison } from "@/lib/policyComparison";
+import { analyzeMarkovChain, type MarkovChainAnalysis } from "@/lib/markovChain";
+
+// Long-running computations that can be shipped to a Web Worker
+export type Job =
+  | { kind: "optimize"; algorithm: OptimizerAlgorithm; mdp: MDP; startState: string; config: OptimizationConfig }
+  | { kind: "optimize-configuration"; mdp: MDP; startState: string; config: OptimizationConfig }
+  // With targetHalfWidth, `episodes` is the budget of an adaptive run
+  | { kind: "monte-carlo"; mdp: MDP; startState: string; episodes: number; maxSteps: number; seed?: number; policy?: SimulationPolicy; targetHalfWidth?: number }
+  | { kind: "return-distribution"; mdp: MDP; startState: string; maxSteps: number; policy: SimulationPolicy }
+  | { kind: "compare-policies"; mdp: MDP; startState: string; policies: SimulationPolicy[]; episodes: number; maxSteps: number; seed?: number }
+  | { kind: "markov-chain"; mdp: MDP; startState: string; policy: SimulationPolicy };
+
+export interface JobResults {
+  "optimize": OptimizationResult | RobustOptimizationResult;
+  "optimize-configuration": Awaited<ReturnType<typeof robustOptimizeMDPConfiguration>>;
+  "monte-carlo": MonteCarloSummary;
+  "return-distribution": ReturnDistribution;
+  "compare-policies": PolicyComparison;
+  "markov-chain": MarkovChainAnalysis;
+}
+
+export type JobResult<J extends Job> = JobResults[J["kind"]];
+
+// Messages posted from the worker back to the page
+export type WorkerMessage =
+  | { type: "progress"; progress: OptimizationProgress }
+  | { type: "result"; result: JobResults[Job["kind"]] }
+  | { type: "error"; message: string };
+
+// Runs a job in-process; the worker calls this, and so does the fallback path
+export async function executeJob<J extends Job>(
+  job: J,
+  onProgress?: (progress: OptimizationProgress) => void
+): Promise<JobResult<J>> {
+  switch (job.kind) {
+    case "optimize":
+      return await runOptimizer(job.algorithm, job.mdp, job.startState, job.config, { onProgress }) as JobResult<J>;
+    case "optimize-configuration":
+      return await robustOptimizeMDPConfiguration(job.mdp, job.startState, job.config, { onProgress }) as JobResult<J>;
+    case "monte-carlo":
+      if (job.targetHalfWidth !== undefined) {
+        return runMonteCarloAdaptive(
+          job.mdp,
+          job.startState,
+          { targetHalfWidth: job.targetHalfWidth, maxEpisodes: job.episodes },
+          job.maxSteps,
+          rngFromSeed(job.seed),
+          job.policy
+        ) as JobResult<J>;
+      }
+      return runMonteCarlo(job.mdp, job.startState, job.episodes, job.maxSteps, rngFromSeed(job.seed), job.policy) as JobResult<J>;
+    case "return-distribution":
+      return returnDistribution(job.mdp, job.policy, job.startState, { maxSteps: job.maxSteps }) as JobResult<J>;
+    case "compare-policies":
+      return comparePolicies(job.mdp, job.startState, job.policies, {
+        episodes: job.episodes,
+        maxSteps: job.maxSteps,
+        seed: job.seed,
+      }) as JobResult<J>;
+    case "markov-chain":
+      return analyzeMarkovChain(job.mdp, job.policy, job.startState) as JobResult<J>;
+    default:
+      throw new Error("Unknown job kind");
+  }
+}
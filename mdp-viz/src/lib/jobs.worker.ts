@@ -0,0 +1,16 @@
+import { executeJob, type Job, type WorkerMessage } from "@/lib/jobs";
+
+const ctx = self as unknown as Worker;
+
+function post(message: WorkerMessage) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = async (event: MessageEvent<Job>) => {
+  try {
+    const result = await executeJob(event.data, progress => post({ type: "progress", progress }));
+    post({ type: "result", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,132 @@
+// Small linear algebra helpers for solving A x = b
+
+// Compressed sparse row matrix
+export interface SparseMatrix {
+  size: number;
+  rowStart: number[]; // row i occupies [rowStart[i], rowStart[i + 1])
+  columns: number[];
+  values: number[];
+}
+
+export function toSparse(rows: Array<Map<number, number>>): SparseMatrix {
+  const rowStart = [0];
+  const columns: number[] = [];
+  const values: number[] = [];
+  for (const row of rows) {
+    for (const [column, value] of [...row.entries()].sort(([a], [b]) => a - b)) {
+      if (value === 0) continue;
+      columns.push(column);
+      values.push(value);
+    }
+    rowStart.push(columns.length);
+  }
+  return { size: rows.length, rowStart, columns, values };
+}
+
+export function toDense(matrix: SparseMatrix): number[][] {
+  const dense = Array.from({ length: matrix.size }, () => new Array<number>(matrix.size).fill(0));
+  for (let i = 0; i < matrix.size; i++) {
+    for (let k = matrix.rowStart[i]; k < matrix.rowStart[i + 1]; k++) {
+      dense[i][matrix.columns[k]] += matrix.values[k];
+    }
+  }
+  return dense;
+}
+
+export function multiply(matrix: SparseMatrix, x: number[]): number[] {
+  const result = new Array<number>(matrix.size).fill(0);
+  for (let i = 0; i < matrix.size; i++) {
+    for (let k = matrix.rowStart[i]; k < matrix.rowStart[i + 1]; k++) {
+      result[i] += matrix.values[k] * x[matrix.columns[k]];
+    }
+  }
+  return result;
+}
+
+// LU decomposition with partial pivoting, L below the diagonal of `lu` and U on and above it
+export interface LUFactors {
+  lu: number[][];
+  pivots: number[]; // row of `a` that ended up in each row of `lu`
+}
+
+// Factors once so that every further right-hand side costs O(n²); throws if the system is singular
+export function factorDense(a: number[][]): LUFactors {
+  const n = a.length;
+  const lu = a.map(row => [...row]);
+  const pivots = lu.map((_, i) => i);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(lu[row][col]) > Math.abs(lu[pivot][col])) pivot = row;
+    }
+    if (Math.abs(lu[pivot][col]) < 1e-12) {
+      throw new Error("Linear system is singular");
+    }
+    [lu[col], lu[pivot]] = [lu[pivot], lu[col]];
+    [pivots[col], pivots[pivot]] = [pivots[pivot], pivots[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = lu[row][col] / lu[col][col];
+      lu[row][col] = factor;
+      if (factor === 0) continue;
+      for (let k = col + 1; k < n; k++) {
+        lu[row][k] -= factor * lu[col][k];
+      }
+    }
+  }
+  return { lu, pivots };
+}
+
+export function solveFactored({ lu, pivots }: LUFactors, b: number[]): number[] {
+  const n = pivots.length;
+  const x = pivots.map(row => b[row]);
+  for (let row = 1; row < n; row++) {
+    for (let k = 0; k < row; k++) x[row] -= lu[row][k] * x[k];
+  }
+  for (let row = n - 1; row >= 0; row--) {
+    for (let k = row + 1; k < n; k++) x[row] -= lu[row][k] * x[k];
+    x[row] /= lu[row][row];
+  }
+  return x;
+}
+
+// Gaussian elimination with partial pivoting; throws if the system is singular
+export function solveDense(a: number[][], b: number[]): number[] {
+  return solveFactored(factorDense(a), b);
+}
+
+// Gauss-Seidel iteration; converges for the diagonally dominant systems policy
+// evaluation produces and throws if it does not within `maxIterations`
+export function solveSparse(
+  matrix: SparseMatrix,
+  b: number[],
+  { tolerance = 1e-10, maxIterations = 100_000 }: { tolerance?: number; maxIterations?: number } = {}
+): number[] {
+  const x = new Array<number>(matrix.size).fill(0);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let delta = 0;
+    for (let i = 0; i < matrix.size; i++) {
+      let diagonal = 0;
+      let sum = b[i];
+      for (let k = matrix.rowStart[i]; k < matrix.rowStart[i + 1]; k++) {
+        const j = matrix.columns[k];
+        if (j === i) {
+          diagonal += matrix.values[k];
+        } else {
+          sum -= matrix.values[k] * x[j];
+        }
+      }
+      if (Math.abs(diagonal) < 1e-12) {
+        throw new Error("Linear system is singular");
+      }
+      const next = sum / diagonal;
+      delta = Math.max(delta, Math.abs(next - x[i]));
+      x[i] = next;
+    }
+    if (!Number.isFinite(delta)) break;
+    if (delta < tolerance) return x;
+  }
+  throw new Error("Sparse solver did not converge; the linear system may be singular");
+}
@@ -0,0 +1,149 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { solveLinearProgram, type LinearConstraint } from "@/lib/simplex";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+export interface OccupancyEntry {
+  state: string;
+  action: string;
+  occupancy: number; // expected discounted number of times `action` is taken in `state`
+  share: number; // fraction of all discounted action choices
+}
+
+export interface LinearProgrammingResult extends OptimizationResult {
+  occupancy: OccupancyEntry[];
+  primalObjective: number; // Σ_s V*(s) / |S| over states with actions
+  dualObjective: number; // expected discounted return from the start distribution
+}
+
+// Solves the MDP as a pair of linear programs.
+//
+// Primal: minimise Σ_s V(s)/|S| subject to V(s) ≥ r(s,a) + γ Σ_s' P(s'|s,a) V(s')
+// for every action, which gives V* at every state.
+//
+// Dual: maximise Σ_{s,a} x(s,a) r(s,a) subject to
+// Σ_a x(s',a) - γ Σ_{s,a} P(s'|s,a) x(s,a) = μ0(s') and x ≥ 0, whose solution is
+// the discounted state-action occupancy measure from the start distribution μ0.
+//
+// States without actions are worth 0 and have no occupancy variables.
+export function linearProgramming(
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  _callback?: OptimizationCallback
+): LinearProgrammingResult {
+  mdp = normalizeMdp(mdp);
+  const gamma = config.gamma ?? mdp.gamma ?? 0.9;
+  const active = mdp.states.filter(state => actionsFromState(mdp, state).length > 0);
+  const position = new Map(active.map((state, i) => [state, i]));
+  const pairs = active.flatMap(state => actionsFromState(mdp, state).map(action => {
+    const transitions = transitionsFor(mdp, state, action);
+    return {
+      state,
+      action,
+      reward: transitions.reduce((acc, t) => acc + t.probability * (t.reward ?? 0), 0),
+      next: transitions.flatMap(t => {
+        const j = position.get(t.nextState);
+        return j === undefined ? [] : [{ j, probability: t.probability }];
+      }),
+    };
+  }));
+  const k = active.length;
+
+  // Primal: V is free, so each V(s) is split into V⁺(s) - V⁻(s)
+  const primalConstraints: LinearConstraint[] = pairs.map(pair => {
+    const coefficients = new Array<number>(2 * k).fill(0);
+    const i = position.get(pair.state)!;
+    coefficients[i] += 1;
+    coefficients[k + i] -= 1;
+    for (const { j, probability } of pair.next) {
+      coefficients[j] -= gamma * probability;
+      coefficients[k + j] += gamma * probability;
+    }
+    return { coefficients, relation: ">=", rhs: pair.reward };
+  });
+  const primal = solveLinearProgram({
+    sense: "min",
+    objective: [...active.map(() => 1 / k), ...active.map(() => -1 / k)],
+    constraints: primalConstraints,
+  });
+  if (primal.status !== "optimal") {
+    throw new Error(
+      primal.status === "unbounded"
+        ? "The primal LP is unbounded: some policy earns unbounded return (with γ = 1 every policy must terminate)"
+        : "The primal LP is infeasible: no finite value function satisfies the Bellman inequalities"
+    );
+  }
+
+  const mu0 = new Array<number>(k).fill(0);
+  for (const { state, probability } of initialStates(mdp, startState)) {
+    const i = position.get(state);
+    if (i !== undefined) mu0[i] += probability;
+  }
+  const dualConstraints: LinearConstraint[] = active.map((_, target) => ({
+    coefficients: pairs.map(pair =>
+      (position.get(pair.state) === target ? 1 : 0) -
+      gamma * pair.next.reduce((acc, { j, probability }) => acc + (j === target ? probability : 0), 0)
+    ),
+    relation: "=",
+    rhs: mu0[target],
+  }));
+  const dual = solveLinearProgram({
+    sense: "max",
+    objective: pairs.map(pair => pair.reward),
+    constraints: dualConstraints,
+  });
+  if (dual.status !== "optimal") {
+    throw new Error(
+      dual.status === "unbounded"
+        ? "The dual LP is unbounded: the start distribution can collect unbounded return"
+        : "The dual LP is infeasible: with γ = 1 some start state cannot reach a terminal state"
+    );
+  }
+
+  const valueFunction: Record<string, number> = Object.fromEntries(mdp.states.map(state => [state, 0]));
+  active.forEach((state, i) => { valueFunction[state] = primal.values[i] - primal.values[k + i]; });
+
+  const totalOccupancy = dual.values.reduce((acc, v) => acc + v, 0);
+  const occupancy: OccupancyEntry[] = pairs.map((pair, p) => ({
+    state: pair.state,
+    action: pair.action,
+    occupancy: dual.values[p],
+    share: totalOccupancy > 0 ? dual.values[p] / totalOccupancy : 0,
+  }));
+
+  // Greedy in V*; among tied actions prefer the one the dual actually uses
+  const bestPolicy: Record<string, string> = {};
+  const bestQ: Record<string, { q: number; occupancy: number }> = {};
+  pairs.forEach((pair, p) => {
+    const q = pair.reward + gamma * pair.next.reduce(
+      (acc, { j, probability }) => acc + probability * valueFunction[active[j]],
+      0
+    );
+    const best = bestQ[pair.state];
+    if (!best || q > best.q + 1e-9 || (q > best.q - 1e-9 && dual.values[p] > best.occupancy)) {
+      bestQ[pair.state] = { q, occupancy: dual.values[p] };
+      bestPolicy[pair.state] = pair.action;
+    }
+  });
+
+  _callback?.onProgress?.({
+    iteration: primal.pivots + dual.pivots,
+    delta: 0,
+    valueFunction,
+    policy: bestPolicy,
+    method: "Linear Programming"
+  });
+
+  return {
+    bestPolicy,
+    bestValue: Math.max(...Object.values(valueFunction)),
+    iterations: primal.pivots + dual.pivots,
+    convergenceHistory: primal.objectiveHistory,
+    policyHistory: [bestPolicy],
+    valueFunction,
+    occupancy,
+    primalObjective: primal.objective,
+    dualObjective: dual.objective,
+  };
+}
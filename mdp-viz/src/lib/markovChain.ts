@@ -0,0 +1,269 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { actionProbabilities, describePolicy, type SimulationPolicy } from "@/lib/sim";
+import { factorDense, solveDense, solveFactored, solveSparse, toDense, toSparse } from "@/lib/linalg";
+
+export interface ChainClass {
+  states: string[];
+  recurrent: boolean; // closed: no transition leaves the class
+  terminal: boolean; // a single state with no actions, where episodes end
+  period: number | null; // null when the class has no internal transitions
+}
+
+export interface MarkovChainAnalysis {
+  policy: string;
+  transitionMatrix: Record<string, Record<string, number>>; // state -> next state -> probability
+  classes: ChainClass[];
+  recurrentClasses: ChainClass[];
+  transientStates: string[];
+  recurrentStates: string[];
+  aperiodic: boolean;
+  // Long-run fraction of time in each state starting from the start distribution;
+  // the stationary distribution itself when there is a single recurrent class
+  stationaryDistribution: Record<string, number>;
+  uniqueStationary: boolean;
+  absorptionProbabilities: Record<string, number[]>; // state -> probability of ending in each recurrent class
+  startAbsorption: number[]; // the same, from the start distribution
+  expectedStepsToAbsorption: Record<string, number>; // 0 for recurrent states
+  startStepsToAbsorption: number;
+  hittingTimes: Record<string, number>; // expected steps from the start to first reach each state; Infinity if it may never
+}
+
+const DENSE_STATE_LIMIT = 200;
+const PROBABILITY_EPSILON = 1e-9;
+
+// Prepares a system for many right-hand sides: small ones are LU-factored once
+function solverFor(rows: Array<Map<number, number>>): (b: number[]) => number[] {
+  if (rows.length === 0) return () => [];
+  const matrix = toSparse(rows);
+  if (rows.length > DENSE_STATE_LIMIT) return b => solveSparse(matrix, b);
+  const factors = factorDense(toDense(matrix));
+  return b => solveFactored(factors, b);
+}
+
+// Rows of (I - P) restricted to `subset`, in subset order
+function identityMinus(P: number[][], subset: number[]): Array<Map<number, number>> {
+  const position = new Map(subset.map((state, i) => [state, i]));
+  return subset.map((state, i) => {
+    const row = new Map<number, number>([[i, 1]]);
+    P[state].forEach((p, next) => {
+      const j = position.get(next);
+      if (p > 0 && j !== undefined) row.set(j, (row.get(j) ?? 0) - p);
+    });
+    return row;
+  });
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Tarjan's algorithm; components come out in reverse topological order
+export function stronglyConnectedComponents(successors: number[][]): number[][] {
+  const n = successors.length;
+  const index = new Array<number>(n).fill(-1);
+  const lowLink = new Array<number>(n).fill(0);
+  const onStack = new Array<boolean>(n).fill(false);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  const visit = (v: number) => {
+    index[v] = lowLink[v] = counter++;
+    stack.push(v);
+    onStack[v] = true;
+    for (const w of successors[v]) {
+      if (index[w] === -1) {
+        visit(w);
+        lowLink[v] = Math.min(lowLink[v], lowLink[w]);
+      } else if (onStack[w]) {
+        lowLink[v] = Math.min(lowLink[v], index[w]);
+      }
+    }
+    if (lowLink[v] === index[v]) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack[w] = false;
+        component.push(w);
+      } while (w !== v);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (let v = 0; v < n; v++) {
+    if (index[v] === -1) visit(v);
+  }
+  return components;
+}
+
+// gcd of cycle lengths, from BFS levels: every edge u -> v inside the class
+// contributes level[u] + 1 - level[v]
+function classPeriod(members: number[], successors: number[][]): number | null {
+  const inClass = new Set(members);
+  const level = new Map<number, number>([[members[0], 0]]);
+  const queue = [members[0]];
+  let period = 0;
+  while (queue.length > 0) {
+    const u = queue.shift()!;
+    for (const v of successors[u]) {
+      if (!inClass.has(v)) continue;
+      if (!level.has(v)) {
+        level.set(v, level.get(u)! + 1);
+        queue.push(v);
+      } else {
+        period = gcd(period, Math.abs(level.get(u)! + 1 - level.get(v)!));
+      }
+    }
+  }
+  return period === 0 ? null : period;
+}
+
+// Solves π(P - I) = 0 with Σπ = 1 by replacing the last balance equation
+function classStationary(P: number[][], members: number[]): number[] {
+  const k = members.length;
+  if (k === 1) return [1];
+  const a = members.map((_, row) =>
+    members.map(from => (from === members[row] ? P[from][members[row]] - 1 : P[from][members[row]]))
+  );
+  const b = new Array<number>(k).fill(0);
+  a[k - 1] = new Array<number>(k).fill(1);
+  b[k - 1] = 1;
+  return solveDense(a, b);
+}
+
+// Analyses the Markov chain an MDP becomes once `policy` fixes how actions are
+// chosen. States without actions are absorbing, as they are in simulation.
+export function analyzeMarkovChain(mdp: MDP, policy: SimulationPolicy, startState: string): MarkovChainAnalysis {
+  if (policy.kind === "time-indexed") {
+    throw new Error("A time-indexed policy changes with the step, so it does not induce a single Markov chain");
+  }
+  mdp = normalizeMdp(mdp);
+  const states = mdp.states;
+  const n = states.length;
+  const index = new Map(states.map((state, i) => [state, i]));
+
+  const P = states.map(() => new Array<number>(n).fill(0));
+  const isTerminalState = states.map(state => actionsFromState(mdp, state).length === 0);
+  for (const [i, state] of states.entries()) {
+    const available = actionsFromState(mdp, state);
+    if (available.length === 0) {
+      P[i][i] = 1;
+      continue;
+    }
+    for (const [action, weight] of Object.entries(actionProbabilities(policy, state, available))) {
+      for (const t of transitionsFor(mdp, state, action)) {
+        const j = index.get(t.nextState);
+        if (j !== undefined) P[i][j] += weight * t.probability;
+      }
+    }
+  }
+  const successors = P.map(row => row.flatMap((p, j) => (p > 0 ? [j] : [])));
+
+  const components = stronglyConnectedComponents(successors);
+  const classOf = new Array<number>(n);
+  components.forEach((members, c) => members.forEach(state => { classOf[state] = c; }));
+  const closed = components.map((members, c) => members.every(state => successors[state].every(next => classOf[next] === c)));
+
+  const classes: ChainClass[] = components.map((members, c) => ({
+    states: members.map(i => states[i]),
+    recurrent: closed[c],
+    terminal: members.length === 1 && isTerminalState[members[0]],
+    period: classPeriod(members, successors),
+  }));
+  const recurrentIds = components.flatMap((_, c) => (closed[c] ? [c] : []));
+  const transient = components.flatMap((members, c) => (closed[c] ? [] : members)).sort((a, b) => a - b);
+
+  // Absorption into each recurrent class and time to absorption, over the transient states
+  const solveTransient = solverFor(identityMinus(P, transient));
+  const absorption: number[][] = states.map((_, i) => recurrentIds.map(c => (classOf[i] === c ? 1 : 0)));
+  recurrentIds.forEach((c, k) => {
+    const b = transient.map(i => components[c].reduce((acc, j) => acc + P[i][j], 0));
+    solveTransient(b).forEach((value, t) => { absorption[transient[t]][k] = value; });
+  });
+  const stepsToAbsorption = new Array<number>(n).fill(0);
+  solveTransient(transient.map(() => 1)).forEach((value, t) => { stepsToAbsorption[transient[t]] = value; });
+
+  const starts = initialStates(mdp, startState).flatMap(({ state, probability }) => {
+    const i = index.get(state);
+    return i === undefined ? [] : [{ i, probability }];
+  });
+  const fromStart = (values: number[]) => starts.reduce((acc, { i, probability }) => acc + probability * values[i], 0);
+  const startAbsorption = recurrentIds.map((_, k) => fromStart(absorption.map(row => row[k])));
+
+  const stationary = new Array<number>(n).fill(0);
+  const stationaryOf = new Map(recurrentIds.map(c => [c, classStationary(P, components[c])]));
+  recurrentIds.forEach((c, k) => {
+    stationaryOf.get(c)!.forEach((value, m) => {
+      stationary[components[c][m]] += startAbsorption[k] * value;
+    });
+  });
+
+  // Hitting times from the fundamental matrix N = (I - P_T)^-1 over the transient states T,
+  // one solve per target against systems factored once. A transient target j is reached
+  // from i with probability N_ij / N_jj, after r_i - N_ij r_j / N_jj steps when that is
+  // certain, where r = N1 holds the steps to absorption.
+  const transientPosition = new Map(transient.map((i, t) => [i, t]));
+  const hittingTimes: Record<string, number> = {};
+  const record = (target: number, time: (i: number) => number) => {
+    const times = starts.map(({ i, probability }) => (probability > 0 ? time(i) : 0));
+    hittingTimes[states[target]] = times.some(t => t === Infinity)
+      ? Infinity
+      : starts.reduce((acc, { probability }, s) => acc + probability * times[s], 0);
+  };
+  for (const target of transient) {
+    const column = solveTransient(transient.map(i => (i === target ? 1 : 0)));
+    const diagonal = column[transientPosition.get(target)!];
+    record(target, i => {
+      if (i === target) return 0;
+      const t = transientPosition.get(i);
+      if (t === undefined || column[t] / diagonal <= 1 - PROBABILITY_EPSILON) return Infinity;
+      return stepsToAbsorption[i] - column[t] * stepsToAbsorption[target] / diagonal;
+    });
+  }
+  // Inside a recurrent class C with stationary π, pinning w_a = 0 at an anchor a and solving
+  // (I - P) w = e_j - π_j 1 on the rest gives the mean first passage m_kj = (w_j - w_k) / π_j.
+  // From a transient state, add the steps to enter C to the passage from where it is entered.
+  recurrentIds.forEach((c, k) => {
+    const members = components[c];
+    const position = new Map(members.map((state, m) => [state, m]));
+    const pi = stationaryOf.get(c)!;
+    const rest = members.slice(1);
+    const solveClass = solverFor(identityMinus(P, rest));
+    for (const target of members) {
+      const share = pi[position.get(target)!];
+      const w = new Array<number>(n).fill(0);
+      solveClass(rest.map(i => (i === target ? 1 : 0) - share)).forEach((value, m) => { w[rest[m]] = value; });
+      // Σ_{l in T} N_il Σ_{m in C} P_lm w_m, the bias of the state C is entered at
+      const entered = solveTransient(transient.map(l => members.reduce((acc, m) => acc + P[l][m] * w[m], 0)));
+      record(target, i => {
+        if (classOf[i] === c) return (w[target] - w[i]) / share;
+        const t = transientPosition.get(i);
+        if (t === undefined || absorption[i][k] <= 1 - PROBABILITY_EPSILON) return Infinity;
+        return stepsToAbsorption[i] + (w[target] * absorption[i][k] - entered[t]) / share;
+      });
+    }
+  });
+
+  const recurrentClasses = recurrentIds.map(c => classes[c]);
+  return {
+    policy: describePolicy(policy),
+    transitionMatrix: Object.fromEntries(states.map((state, i) => [
+      state,
+      Object.fromEntries(successors[i].map(j => [states[j], P[i][j]])),
+    ])),
+    classes,
+    recurrentClasses,
+    transientStates: transient.map(i => states[i]),
+    recurrentStates: recurrentIds.flatMap(c => components[c].map(i => states[i])),
+    aperiodic: recurrentClasses.every(c => c.period === 1),
+    stationaryDistribution: Object.fromEntries(states.map((state, i) => [state, stationary[i]])),
+    uniqueStationary: recurrentIds.length === 1,
+    absorptionProbabilities: Object.fromEntries(states.map((state, i) => [state, absorption[i]])),
+    startAbsorption,
+    expectedStepsToAbsorption: Object.fromEntries(states.map((state, i) => [state, stepsToAbsorption[i]])),
+    startStepsToAbsorption: fromStart(stepsToAbsorption),
+    hittingTimes,
+  };
+}
@@ -0,0 +1,476 @@
+import yaml from "js-yaml";
+import {
+  mdpSchema,
+  referenceErrors,
+  validateInitialDistribution,
+  validateTransitionMass,
+  validateUncertainty,
+  type Constraint,
+  type MDP,
+  type Transition,
+  type UncertaintySet
+} from "@/types/mdp";
+
+// Text formats an MDP can be imported from and exported to
+export type MdpFormat = "json" | "yaml" | "dsl";
+
+export const mdpFormats: Record<MdpFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  yaml: { label: "YAML", extension: "yaml", mimeType: "application/yaml" },
+  dsl: { label: "Text DSL", extension: "mdp", mimeType: "text/plain" },
+};
+
+export class MdpParseError extends Error {
+  constructor(
+    public reason: string,
+    public line?: number, // 1-based
+    public column?: number, // 1-based
+    public details: string[] = []
+  ) {
+    super(
+      (line !== undefined ? `Line ${line}, column ${column}: ${reason}` : reason) +
+      (details.length > 0 ? ` (${details.join("; ")})` : "")
+    );
+    this.name = "MdpParseError";
+  }
+}
+
+// Pick a format from the file extension, falling back to sniffing the content
+export function detectFormat(fileName: string, text: string): MdpFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "yaml" || extension === "yml") return "yaml";
+  if (extension === "mdp" || extension === "txt") return "dsl";
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("{")) return "json";
+  if (text.includes("-->")) return "dsl";
+  return "yaml";
+}
+
+export function parseMdp(text: string, format: MdpFormat): MDP {
+  switch (format) {
+    case "json":
+      return validateParsed(parseJson(text));
+    case "yaml":
+      return validateParsed(parseYaml(text));
+    case "dsl":
+      return validateParsed(parseDsl(text));
+  }
+}
+
+export function serializeMdp(mdp: MDP, format: MdpFormat): string {
+  // Drop undefined fields so every format round-trips the same model
+  const clean = JSON.parse(JSON.stringify(mdp)) as MDP;
+  switch (format) {
+    case "json":
+      return JSON.stringify(clean, null, 2) + "\n";
+    case "yaml":
+      return yaml.dump(clean, { noRefs: true, lineWidth: -1 });
+    case "dsl":
+      return toDsl(clean);
+  }
+}
+
+function validateParsed(data: unknown): MDP {
+  const parsed = mdpSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new MdpParseError(
+      "Not a valid MDP",
+      undefined,
+      undefined,
+      parsed.error.issues.map(issue => `${issue.path.map(String).join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+
+  const mdp = parsed.data;
+  const errors = [
+    ...validateTransitionMass(mdp),
+    ...validateInitialDistribution(mdp),
+    ...validateUncertainty(mdp),
+    ...referenceErrors(mdp),
+  ];
+  if (errors.length > 0) {
+    throw new MdpParseError("MDP failed validation", undefined, undefined, errors);
+  }
+  return mdp;
+}
+
+function lineColumnAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    const position = message.match(/at position (\d+)/);
+    const reason = message
+      .replace(/\s*\(line \d+ column \d+\)/, "")
+      .replace(/ in JSON at position \d+/, "")
+      .replace(/, "[\s\S]*" is not valid JSON$/, "");
+    if (lineColumn) {
+      throw new MdpParseError(reason, Number(lineColumn[1]), Number(lineColumn[2]));
+    }
+    const { line, column } = lineColumnAt(text, position ? Number(position[1]) : text.length);
+    throw new MdpParseError(reason, line, column);
+  }
+}
+
+function parseYaml(text: string): unknown {
+  try {
+    return yaml.load(text);
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new MdpParseError(error.reason, error.mark.line + 1, error.mark.column + 1);
+    }
+    throw error;
+  }
+}
+
+/*
+ * Text DSL, one statement per line; `#` starts a comment:
+ *
+ *   gamma 0.95
+ *   states S0 S1 Goal          # optional, otherwise inferred in order of use
+ *   actions a b                # optional, otherwise inferred in order of use
+ *   terminal Goal=10 Pit       # terminal states with optional arrival rewards
+ *   init S0=0.5 S1=0.5         # initial distribution
+ *   reward S1 = -1             # R(s)
+ *   reward S0 a = -0.1         # R(s,a)
+ *   S0 --a[0.9, r=1]--> S1     # transition with probability and R(s,a,s')
+ *   S0 --a[0.1, cost.battery=2]--> S0  # with a cost on the "battery" channel
+ *   constraint battery <= 20   # expected discounted battery cost at most 20
+ *   S0 --a[0.9, lo=0.8, hi=0.95]--> S1  # probability interval for robust planning
+ *   uncertainty S0 b l1 0.2    # or an L1 ball of radius 0.2 around the row
+ *   S0 --b--> S1               # probability defaults to 1
+ *
+ * Names containing spaces or any of `"[]=#` are written as JSON strings: "Room A".
+ */
+
+const directives = ["gamma", "states", "actions", "terminal", "init", "reward", "constraint", "uncertainty"];
+const bareName = /^[^\s"[\]=#]+$/;
+
+function quoteName(name: string): string {
+  return bareName.test(name) && !name.includes("--") && !name.endsWith("-") ? name : JSON.stringify(name);
+}
+
+function toDsl(mdp: MDP): string {
+  const lines: string[] = [];
+  if (mdp.gamma !== undefined) lines.push(`gamma ${mdp.gamma}`);
+  lines.push(`states ${mdp.states.map(quoteName).join(" ")}`);
+  lines.push(`actions ${mdp.actions.map(quoteName).join(" ")}`);
+
+  const terminals = [...new Set([...(mdp.terminalStates ?? []), ...Object.keys(mdp.terminalRewards ?? {})])];
+  if (terminals.length > 0) {
+    lines.push(`terminal ${terminals.map(s =>
+      mdp.terminalRewards?.[s] !== undefined ? `${quoteName(s)}=${mdp.terminalRewards[s]}` : quoteName(s)
+    ).join(" ")}`);
+  }
+  if (mdp.initialDistribution) {
+    lines.push(`init ${Object.entries(mdp.initialDistribution).map(([s, p]) => `${quoteName(s)}=${p}`).join(" ")}`);
+  }
+  for (const [state, reward] of Object.entries(mdp.stateRewards ?? {})) {
+    lines.push(`reward ${quoteName(state)} = ${reward}`);
+  }
+  for (const [key, reward] of Object.entries(mdp.actionRewards ?? {})) {
+    const [state, action] = key.split("|");
+    lines.push(`reward ${quoteName(state)} ${quoteName(action)} = ${reward}`);
+  }
+  for (const constraint of mdp.constraints ?? []) {
+    lines.push(`constraint ${quoteName(constraint.cost)} <= ${constraint.budget}`);
+  }
+  for (const [key, set] of Object.entries(mdp.uncertainty ?? {})) {
+    if (set.type !== "l1") continue;
+    const [state, action] = key.split("|");
+    lines.push(`uncertainty ${quoteName(state)} ${quoteName(action)} l1 ${set.radius}`);
+  }
+
+  lines.push("");
+  for (const [key, transitions] of Object.entries(mdp.transitions)) {
+    const [state, action] = key.split("|");
+    const set = mdp.uncertainty?.[key];
+    (transitions as Transition[]).forEach((t, i) => {
+      const reward = t.reward ? `, r=${t.reward}` : "";
+      const costs = Object.entries(t.costs ?? {}).map(([channel, cost]) => `, cost.${quoteName(channel)}=${cost}`).join("");
+      const bounds = set?.type === "interval" ? `, lo=${set.bounds[i][0]}, hi=${set.bounds[i][1]}` : "";
+      lines.push(`${quoteName(state)} --${quoteName(action)}[${t.probability}${reward}${costs}${bounds}]--> ${quoteName(t.nextState)}`);
+    });
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Cursor over a single line of DSL source
+class LineScanner {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  fail(reason: string, at = this.pos): never {
+    throw new MdpParseError(reason, this.line, at + 1);
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  atEnd(): boolean {
+    this.skipSpace();
+    return this.pos >= this.text.length || this.text[this.pos] === "#";
+  }
+
+  lookingAt(token: string): boolean {
+    this.skipSpace();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  expect(token: string) {
+    if (!this.lookingAt(token)) this.fail(`expected "${token}"`);
+    this.pos += token.length;
+  }
+
+  name(): string {
+    this.skipSpace();
+    const start = this.pos;
+    if (this.text[this.pos] === '"') {
+      let end = this.pos + 1;
+      while (end < this.text.length && this.text[end] !== '"') {
+        end += this.text[end] === "\\" ? 2 : 1;
+      }
+      if (end >= this.text.length) this.fail("unterminated quoted name", start);
+      this.pos = end + 1;
+      try {
+        return JSON.parse(this.text.slice(start, this.pos)) as string;
+      } catch {
+        this.fail("invalid quoted name", start);
+      }
+    }
+    while (
+      this.pos < this.text.length &&
+      !/[\s"[\]=#]/.test(this.text[this.pos]) &&
+      !this.text.startsWith("--", this.pos)
+    ) {
+      this.pos++;
+    }
+    if (this.pos === start) this.fail("expected a name");
+    return this.text.slice(start, this.pos);
+  }
+
+  number(): number {
+    this.skipSpace();
+    const match = this.text.slice(this.pos).match(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+    if (!match) this.fail("expected a number");
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+}
+
+function parseDsl(text: string): MDP {
+  let gamma: number | undefined;
+  let declaredStates: string[] | null = null;
+  let declaredActions: string[] | null = null;
+  const usedStates: Array<{ name: string; line: number; column: number }> = [];
+  const usedActions: Array<{ name: string; line: number; column: number }> = [];
+  const transitions: MDP["transitions"] = {};
+  const terminalStates: string[] = [];
+  const terminalRewards: Record<string, number> = {};
+  const initialDistribution: Record<string, number> = {};
+  const stateRewards: Record<string, number> = {};
+  const actionRewards: Record<string, number> = {};
+  const constraints: Constraint[] = [];
+  const uncertainty: Record<string, UncertaintySet> = {};
+  const intervals: Record<string, Array<{ lower?: number; upper?: number }>> = {}; // per transition, in order
+
+  text.split(/\r?\n/).forEach((source, index) => {
+    const line = index + 1;
+    const scanner = new LineScanner(source, line);
+    if (scanner.atEnd()) return;
+
+    const readState = () => {
+      scanner.skipSpace();
+      const column = scanner.position + 1;
+      const name = scanner.name();
+      usedStates.push({ name, line, column });
+      return name;
+    };
+    const readAction = () => {
+      scanner.skipSpace();
+      const column = scanner.position + 1;
+      const name = scanner.name();
+      usedActions.push({ name, line, column });
+      return name;
+    };
+
+    const wordStart = scanner.position;
+    const quoted = source[wordStart] === '"';
+    const first = scanner.name();
+
+    if (!quoted && directives.includes(first) && !scanner.lookingAt("--")) {
+      switch (first) {
+        case "gamma":
+          gamma = scanner.number();
+          break;
+        case "states":
+          declaredStates = declaredStates ?? [];
+          while (!scanner.atEnd()) declaredStates.push(scanner.name());
+          break;
+        case "actions":
+          declaredActions = declaredActions ?? [];
+          while (!scanner.atEnd()) declaredActions.push(scanner.name());
+          break;
+        case "terminal":
+          do {
+            const state = readState();
+            terminalStates.push(state);
+            if (scanner.lookingAt("=")) {
+              scanner.expect("=");
+              terminalRewards[state] = scanner.number();
+            }
+          } while (!scanner.atEnd());
+          break;
+        case "init":
+          do {
+            const state = readState();
+            scanner.expect("=");
+            initialDistribution[state] = scanner.number();
+          } while (!scanner.atEnd());
+          break;
+        case "reward": {
+          const state = readState();
+          if (scanner.lookingAt("=")) {
+            scanner.expect("=");
+            stateRewards[state] = scanner.number();
+          } else {
+            const action = readAction();
+            scanner.expect("=");
+            actionRewards[`${state}|${action}`] = scanner.number();
+          }
+          break;
+        }
+        case "constraint": {
+          const cost = scanner.name();
+          scanner.expect("<=");
+          constraints.push({ cost, budget: scanner.number() });
+          break;
+        }
+        case "uncertainty": {
+          const state = readState();
+          const action = readAction();
+          scanner.expect("l1");
+          uncertainty[`${state}|${action}`] = { type: "l1", radius: scanner.number() };
+          break;
+        }
+      }
+    } else {
+      // Transition: S0 --a[0.9, r=1]--> S1
+      usedStates.push({ name: first, line, column: wordStart + 1 });
+      scanner.expect("--");
+      const action = readAction();
+      let probability = 1;
+      let reward: number | undefined;
+      const costs: Record<string, number> = {};
+      const bounds: { lower?: number; upper?: number } = {};
+      if (scanner.lookingAt("[")) {
+        scanner.expect("[");
+        for (;;) {
+          if (scanner.lookingAt("lo")) {
+            scanner.expect("lo");
+            scanner.expect("=");
+            bounds.lower = scanner.number();
+          } else if (scanner.lookingAt("hi")) {
+            scanner.expect("hi");
+            scanner.expect("=");
+            bounds.upper = scanner.number();
+          } else if (scanner.lookingAt("cost.")) {
+            scanner.expect("cost.");
+            const channel = scanner.name();
+            scanner.expect("=");
+            costs[channel] = scanner.number();
+          } else if (scanner.lookingAt("r")) {
+            scanner.expect("r");
+            scanner.expect("=");
+            reward = scanner.number();
+          } else {
+            if (scanner.lookingAt("p")) {
+              scanner.expect("p");
+              scanner.expect("=");
+            }
+            probability = scanner.number();
+          }
+          if (!scanner.lookingAt(",")) break;
+          scanner.expect(",");
+        }
+        scanner.expect("]");
+      }
+      scanner.expect("-->");
+      const nextState = readState();
+      const key = `${first}|${action}`;
+      transitions[key] = [
+        ...(transitions[key] ?? []),
+        {
+          nextState,
+          probability,
+          ...(reward !== undefined && { reward }),
+          ...(Object.keys(costs).length > 0 && { costs }),
+        },
+      ];
+      intervals[key] = [...(intervals[key] ?? []), bounds];
+    }
+
+    if (!scanner.atEnd()) scanner.fail("unexpected text");
+  });
+
+  // A row with any bounds is an interval set; unbounded outcomes keep their nominal probability
+  for (const [key, rowBounds] of Object.entries(intervals)) {
+    if (rowBounds.every(b => b.lower === undefined && b.upper === undefined)) continue;
+    uncertainty[key] = {
+      type: "interval",
+      bounds: rowBounds.map((b, i) => {
+        const p = transitions[key][i].probability;
+        return [b.lower ?? p, b.upper ?? p];
+      }),
+    };
+  }
+
+  const states = resolveNames(declaredStates, usedStates, "state");
+  const actions = resolveNames(declaredActions, usedActions, "action");
+
+  return {
+    states,
+    actions,
+    transitions,
+    ...(gamma !== undefined && { gamma }),
+    ...(terminalStates.length > 0 && { terminalStates }),
+    ...(Object.keys(terminalRewards).length > 0 && { terminalRewards }),
+    ...(Object.keys(initialDistribution).length > 0 && { initialDistribution }),
+    ...(Object.keys(stateRewards).length > 0 && { stateRewards }),
+    ...(Object.keys(actionRewards).length > 0 && { actionRewards }),
+    ...(constraints.length > 0 && { constraints }),
+    ...(Object.keys(uncertainty).length > 0 && { uncertainty }),
+  };
+}
+
+// Declared names win; otherwise names are collected in order of first use
+function resolveNames(
+  declared: string[] | null,
+  used: Array<{ name: string; line: number; column: number }>,
+  kind: string
+): string[] {
+  if (declared) {
+    const undeclared = used.find(u => !declared.includes(u.name));
+    if (undeclared) {
+      throw new MdpParseError(`undeclared ${kind} "${undeclared.name}"`, undeclared.line, undeclared.column);
+    }
+    return declared;
+  }
+  return [...new Set(used.map(u => u.name))];
+}
@@ -0,0 +1,633 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, scaleRewards, transitionsFor } from "@/types/mdp";
+import { stochasticShortestPath } from "@/lib/stochasticShortestPath";
+
+/*
+ * Queries in the spirit of PCTL, over undiscounted paths of the MDP:
+ *
+ *   Pmax=? [ F "S2" ]                      max probability of eventually reaching S2
+ *   Pmin=? [ F<=10 Goal ]                  min probability of reaching Goal within 10 steps
+ *   Pmax=? [ !X U<=10 Goal ]               reach Goal within 10 steps, never passing through X
+ *   Pmax=? [ G !Crash ]                    never visit Crash
+ *   Rmax=? [ F Goal ]                      expected reward collected until reaching Goal
+ *   P>=0.9 [ F Goal ]                      does every scheduler reach Goal with probability ≥ 0.9?
+ *
+ * State formulas combine state names with ! & | and parentheses; `terminal`, `true`
+ * and `false` are keywords. Names containing spaces or any of "()[]!&|<>= must be
+ * quoted, as must states called F, G, U, true, false or terminal.
+ */
+
+export type StateFormula =
+  | { kind: "constant"; value: boolean }
+  | { kind: "terminal" } // states without actions
+  | { kind: "state"; name: string }
+  | { kind: "not"; operand: StateFormula }
+  | { kind: "and" | "or"; left: StateFormula; right: StateFormula };
+
+export type PathFormula =
+  | { kind: "eventually"; target: StateFormula; bound?: number } // F
+  | { kind: "globally"; formula: StateFormula; bound?: number } // G
+  | { kind: "until"; hold: StateFormula; target: StateFormula; bound?: number }; // U
+
+export type Relation = "<" | "<=" | ">" | ">=";
+
+export interface Query {
+  operator: "P" | "R"; // probability of a path formula, or expected reward until a target
+  objective?: "min" | "max"; // Pmax=? and friends
+  threshold?: { relation: Relation; value: number }; // P>=0.9: must hold under every scheduler
+  path: PathFormula;
+}
+
+export interface QueryResult {
+  query: string; // canonical form of the query
+  operator: Query["operator"];
+  objective: "min" | "max"; // the optimum computed; thresholds use the scheduler that comes closest to violating them
+  values: Record<string, number>;
+  startValue: number; // over the start state or initial distribution
+  satisfyingStates?: string[]; // threshold queries: states where the bound holds for every scheduler
+  holds?: boolean; // threshold queries: the bound holds in every start state
+  scheduler: Record<string, string>; // witnessing memoryless scheduler; for bounded queries, its first step
+  timedScheduler?: Record<string, string>[]; // bounded queries: timedScheduler[t] is the action at step t
+  targetStates: string[];
+  avoidStates: string[]; // states the path must not pass through
+  infiniteStates: string[]; // reward queries: no scheduler reaches the target with probability 1
+  iterations: number;
+  converged: boolean;
+  messages: string[];
+}
+
+export interface QueryOptions {
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+export class QueryParseError extends Error {
+  constructor(
+    public reason: string,
+    public column: number // 1-based
+  ) {
+    super(`Column ${column}: ${reason}`);
+    this.name = "QueryParseError";
+  }
+}
+
+const KEYWORDS = new Set(["F", "G", "U", "true", "false", "terminal"]);
+const bareName = /^[^\s"()[\]!&|<>=]+$/;
+
+function quoteName(name: string): string {
+  return bareName.test(name) && !KEYWORDS.has(name) ? name : JSON.stringify(name);
+}
+
+// Cursor over the query text
+class QueryScanner {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  fail(reason: string, at = this.pos): never {
+    throw new QueryParseError(reason, at + 1);
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  atEnd(): boolean {
+    this.skipSpace();
+    return this.pos >= this.text.length;
+  }
+
+  lookingAt(token: string): boolean {
+    this.skipSpace();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  accept(token: string): boolean {
+    if (!this.lookingAt(token)) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  expect(token: string) {
+    if (!this.accept(token)) this.fail(`expected "${token}"`);
+  }
+
+  // A bare word, without consuming it
+  peekWord(): string {
+    this.skipSpace();
+    const match = this.text.slice(this.pos).match(/^[^\s"()[\]!&|<>=]+/);
+    return match ? match[0] : "";
+  }
+
+  acceptKeyword(keyword: string): boolean {
+    if (this.peekWord() !== keyword) return false;
+    this.pos += keyword.length;
+    return true;
+  }
+
+  name(): { name: string; quoted: boolean } {
+    this.skipSpace();
+    const start = this.pos;
+    if (this.text[this.pos] === '"') {
+      let end = this.pos + 1;
+      while (end < this.text.length && this.text[end] !== '"') {
+        end += this.text[end] === "\\" ? 2 : 1;
+      }
+      if (end >= this.text.length) this.fail("unterminated quoted name", start);
+      this.pos = end + 1;
+      try {
+        return { name: JSON.parse(this.text.slice(start, this.pos)) as string, quoted: true };
+      } catch {
+        this.fail("invalid quoted name", start);
+      }
+    }
+    const word = this.peekWord();
+    if (!word) this.fail("expected a state name");
+    this.pos += word.length;
+    return { name: word, quoted: false };
+  }
+
+  number(): number {
+    this.skipSpace();
+    const match = this.text.slice(this.pos).match(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+    if (!match) this.fail("expected a number");
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+}
+
+export function parseQuery(text: string): Query {
+  // Annotated so that scanner.fail() narrows like a throw
+  const scanner: QueryScanner = new QueryScanner(text);
+  const head = scanner.peekWord();
+  const operatorMatch = head.match(/^(P|R)(max|min)?$/);
+  if (!operatorMatch) scanner.fail('expected "Pmax", "Pmin", "Rmax", "Rmin", "P" or "R"');
+  scanner.acceptKeyword(head);
+  const operator = operatorMatch[1] as Query["operator"];
+  let objective = operatorMatch[2] as Query["objective"];
+  let threshold: Query["threshold"];
+
+  if (scanner.accept("=?")) {
+    if (!objective) {
+      scanner.fail(`an MDP has one value per scheduler: ask for ${operator}max=? or ${operator}min=?`);
+    }
+  } else {
+    const at = scanner.position;
+    const relation = (["<=", ">=", "<", ">"] as Relation[]).find(r => scanner.accept(r));
+    if (!relation) scanner.fail('expected "=?" or a bound such as ">=0.9"');
+    if (objective) scanner.fail(`a bound applies to every scheduler, so write ${operator}${relation}… without "${objective}"`, at);
+    const value = scanner.number();
+    if (operator === "P" && (value < 0 || value > 1)) {
+      scanner.fail("a probability bound must lie between 0 and 1");
+    }
+    threshold = { relation, value };
+    // The scheduler that comes closest to violating the bound decides it
+    objective = relation.startsWith(">") ? "min" : "max";
+  }
+
+  scanner.expect("[");
+  const path = parsePath(scanner);
+  scanner.expect("]");
+  if (!scanner.atEnd()) scanner.fail("unexpected text after the query");
+  if (operator === "R" && (path.kind !== "eventually" || path.bound !== undefined)) {
+    scanner.fail('reward queries take the form R…[ F target ]', 0);
+  }
+  return { operator, objective, threshold, path };
+}
+
+function parseBound(scanner: QueryScanner): number | undefined {
+  if (!scanner.accept("<=")) return undefined;
+  const at = scanner.position;
+  const bound = scanner.number();
+  if (!Number.isInteger(bound) || bound < 0) scanner.fail("a step bound must be a whole number", at);
+  return bound;
+}
+
+function parsePath(scanner: QueryScanner): PathFormula {
+  if (scanner.acceptKeyword("F")) {
+    const bound = parseBound(scanner);
+    return { kind: "eventually", target: parseStateFormula(scanner), bound };
+  }
+  if (scanner.acceptKeyword("G")) {
+    const bound = parseBound(scanner);
+    return { kind: "globally", formula: parseStateFormula(scanner), bound };
+  }
+  const hold = parseStateFormula(scanner);
+  if (!scanner.acceptKeyword("U")) scanner.fail('expected "U" after the state formula, or start the path with "F" or "G"');
+  const bound = parseBound(scanner);
+  return { kind: "until", hold, target: parseStateFormula(scanner), bound };
+}
+
+function parseStateFormula(scanner: QueryScanner): StateFormula {
+  let left = parseConjunction(scanner);
+  while (scanner.accept("|")) left = { kind: "or", left, right: parseConjunction(scanner) };
+  return left;
+}
+
+function parseConjunction(scanner: QueryScanner): StateFormula {
+  let left = parseNegation(scanner);
+  while (scanner.accept("&")) left = { kind: "and", left, right: parseNegation(scanner) };
+  return left;
+}
+
+function parseNegation(scanner: QueryScanner): StateFormula {
+  if (scanner.accept("!")) return { kind: "not", operand: parseNegation(scanner) };
+  if (scanner.accept("(")) {
+    const inner = parseStateFormula(scanner);
+    scanner.expect(")");
+    return inner;
+  }
+  const at = scanner.position;
+  const { name, quoted } = scanner.name();
+  if (!quoted) {
+    if (name === "true" || name === "false") return { kind: "constant", value: name === "true" };
+    if (name === "terminal") return { kind: "terminal" };
+    if (KEYWORDS.has(name)) scanner.fail(`"${name}" is a keyword; quote it to name a state`, at);
+  }
+  return { kind: "state", name };
+}
+
+function formatStateFormula(formula: StateFormula, parent = 0): string {
+  switch (formula.kind) {
+    case "constant":
+      return String(formula.value);
+    case "terminal":
+      return "terminal";
+    case "state":
+      return quoteName(formula.name);
+    case "not":
+      return `!${formatStateFormula(formula.operand, 3)}`;
+    case "and":
+    case "or": {
+      const precedence = formula.kind === "and" ? 2 : 1;
+      const text = `${formatStateFormula(formula.left, precedence)} ${formula.kind === "and" ? "&" : "|"} ${formatStateFormula(formula.right, precedence)}`;
+      return parent > precedence ? `(${text})` : text;
+    }
+  }
+}
+
+export function formatQuery(query: Query): string {
+  const bound = (b?: number) => (b === undefined ? "" : `<=${b}`);
+  const path = query.path;
+  const pathText = path.kind === "eventually"
+    ? `F${bound(path.bound)} ${formatStateFormula(path.target)}`
+    : path.kind === "globally"
+    ? `G${bound(path.bound)} ${formatStateFormula(path.formula)}`
+    : `${formatStateFormula(path.hold)} U${bound(path.bound)} ${formatStateFormula(path.target)}`;
+  const head = query.threshold
+    ? `${query.operator}${query.threshold.relation}${query.threshold.value}`
+    : `${query.operator}${query.objective}=?`;
+  return `${head} [ ${pathText} ]`;
+}
+
+// States satisfying a state formula
+function satisfying(mdp: MDP, formula: StateFormula): Set<string> {
+  switch (formula.kind) {
+    case "constant":
+      return new Set(formula.value ? mdp.states : []);
+    case "terminal":
+      return new Set(mdp.states.filter(state => actionsFromState(mdp, state).length === 0));
+    case "state":
+      if (!mdp.states.includes(formula.name)) throw new Error(`Unknown state "${formula.name}"`);
+      return new Set([formula.name]);
+    case "not": {
+      const operand = satisfying(mdp, formula.operand);
+      return new Set(mdp.states.filter(state => !operand.has(state)));
+    }
+    case "and":
+    case "or": {
+      const left = satisfying(mdp, formula.left);
+      const right = satisfying(mdp, formula.right);
+      return new Set(mdp.states.filter(state =>
+        formula.kind === "and" ? left.has(state) && right.has(state) : left.has(state) || right.has(state)
+      ));
+    }
+  }
+}
+
+const successorsOf = (mdp: MDP, state: string, action: string) =>
+  transitionsFor(mdp, state, action).filter(t => t.probability > 0).map(t => t.nextState);
+
+// Pmax = 0: no path through `hold` states reaches a target
+function maxProbabilityZero(mdp: MDP, hold: Set<string>, targets: Set<string>): Set<string> {
+  const reach = new Set(targets);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const state of mdp.states) {
+      if (reach.has(state) || !hold.has(state)) continue;
+      if (actionsFromState(mdp, state).some(action => successorsOf(mdp, state, action).some(next => reach.has(next)))) {
+        reach.add(state);
+        changed = true;
+      }
+    }
+  }
+  return new Set(mdp.states.filter(state => !reach.has(state)));
+}
+
+// Pmin = 0: some scheduler avoids the targets surely. The complement is the set of
+// states where every action risks moving closer to a target.
+function minProbabilityZero(mdp: MDP, hold: Set<string>, targets: Set<string>): Set<string> {
+  const forced = new Set(targets);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const state of mdp.states) {
+      if (forced.has(state) || !hold.has(state)) continue;
+      const actions = actionsFromState(mdp, state);
+      if (actions.length > 0 && actions.every(action => successorsOf(mdp, state, action).some(next => forced.has(next)))) {
+        forced.add(state);
+        changed = true;
+      }
+    }
+  }
+  return new Set(mdp.states.filter(state => !forced.has(state)));
+}
+
+// Pmax = 1: repeatedly drop states that cannot reach a target with actions that
+// stay inside the candidate set
+function maxProbabilityOne(mdp: MDP, hold: Set<string>, targets: Set<string>): Set<string> {
+  let candidates = new Set(mdp.states);
+  while (true) {
+    const reach = new Set([...targets].filter(state => candidates.has(state)));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const state of candidates) {
+        if (reach.has(state) || !hold.has(state)) continue;
+        const ok = actionsFromState(mdp, state).some(action => {
+          const next = successorsOf(mdp, state, action);
+          return next.every(s => candidates.has(s)) && next.some(s => reach.has(s));
+        });
+        if (ok) {
+          reach.add(state);
+          changed = true;
+        }
+      }
+    }
+    if (reach.size === candidates.size) return reach;
+    candidates = reach;
+  }
+}
+
+// Iterated values are only approximate, so actions this close to the best count as optimal
+const TIE_SLACK = 1e-6;
+
+interface ReachabilitySolution {
+  values: Record<string, number>;
+  scheduler: Record<string, string>;
+  timedScheduler?: Record<string, string>[];
+  iterations: number;
+  converged: boolean;
+}
+
+// Optimal probability of `hold U target`, optionally within `bound` steps
+function reachability(
+  mdp: MDP,
+  hold: Set<string>,
+  targets: Set<string>,
+  objective: "min" | "max",
+  bound: number | undefined,
+  { maxIterations = 10000, tolerance = 1e-10 }: QueryOptions
+): ReachabilitySolution {
+  const better = (a: number, b: number) => (objective === "max" ? a > b : a < b);
+  // States whose value is still open: not yet a target, not yet failed
+  const open = mdp.states.filter(state => !targets.has(state) && hold.has(state) && actionsFromState(mdp, state).length > 0);
+  const q = (x: Record<string, number>, state: string, action: string) =>
+    transitionsFor(mdp, state, action).reduce((acc, t) => acc + t.probability * (x[t.nextState] ?? 0), 0);
+  const bestAction = (x: Record<string, number>, state: string) => {
+    let best = "";
+    let bestValue = objective === "max" ? -Infinity : Infinity;
+    for (const action of actionsFromState(mdp, state)) {
+      const value = q(x, state, action);
+      if (better(value, bestValue)) {
+        bestValue = value;
+        best = action;
+      }
+    }
+    return { action: best, value: bestValue };
+  };
+
+  let x: Record<string, number> = Object.fromEntries(mdp.states.map(state => [state, targets.has(state) ? 1 : 0]));
+
+  if (bound !== undefined) {
+    // Backward over the steps left; x holds the probability of success within j steps
+    const timedScheduler: Record<string, string>[] = new Array(bound);
+    for (let j = 1; j <= bound; j++) {
+      const next = { ...x };
+      const policy: Record<string, string> = {};
+      for (const state of open) {
+        const { action, value } = bestAction(x, state);
+        next[state] = value;
+        policy[state] = action;
+      }
+      timedScheduler[bound - j] = policy;
+      x = next;
+    }
+    return { values: x, scheduler: timedScheduler[0] ?? {}, timedScheduler, iterations: bound, converged: true };
+  }
+
+  // Graph precomputation makes the 0s (and, for max, the 1s) exact
+  const zero = objective === "max" ? maxProbabilityZero(mdp, hold, targets) : minProbabilityZero(mdp, hold, targets);
+  const one = objective === "max" ? maxProbabilityOne(mdp, hold, targets) : targets;
+  for (const state of one) x[state] = 1;
+  const unknown = open.filter(state => !zero.has(state) && !one.has(state));
+
+  let iterations = 0;
+  let converged = unknown.length === 0;
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+    let delta = 0;
+    const next = { ...x };
+    for (const state of unknown) {
+      next[state] = bestAction(x, state).value;
+      delta = Math.max(delta, Math.abs(next[state] - x[state]));
+    }
+    x = next;
+    if (delta < tolerance) converged = true;
+  }
+
+  const scheduler: Record<string, string> = {};
+  if (objective === "min") {
+    for (const state of open) {
+      // Where the target can be avoided surely, stay on actions that never risk it
+      const avoiding = zero.has(state)
+        ? actionsFromState(mdp, state).find(action => successorsOf(mdp, state, action).every(next => zero.has(next)))
+        : undefined;
+      scheduler[state] = avoiding ?? bestAction(x, state).action;
+    }
+  } else {
+    // Greedy actions can tie with ones that circle forever, so make progress: a state
+    // takes an optimal action once that action can move to a state already settled
+    const settled = new Set(targets);
+    const optimal = (state: string) => {
+      const best = bestAction(x, state).value;
+      return actionsFromState(mdp, state).filter(action => q(x, state, action) >= best - TIE_SLACK);
+    };
+    const positive = open.filter(state => x[state] > 0);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const state of positive) {
+        if (settled.has(state)) continue;
+        const action = optimal(state).find(a => successorsOf(mdp, state, a).some(next => settled.has(next)));
+        if (action !== undefined) {
+          scheduler[state] = action;
+          settled.add(state);
+          changed = true;
+        }
+      }
+    }
+    for (const state of open) {
+      if (!(state in scheduler)) scheduler[state] = bestAction(x, state).action;
+    }
+  }
+
+  return { values: x, scheduler, iterations, converged };
+}
+
+const STAY = "(stay)";
+
+// Expected undiscounted reward until the first visit to a target, over the schedulers
+// that reach it with probability 1. Solved as a stochastic shortest path problem whose
+// goals are the targets; absorbing non-targets can never reach one.
+function rewardUntil(
+  mdp: MDP,
+  targets: Set<string>,
+  objective: "min" | "max",
+  startState: string,
+  { maxIterations = 10000, tolerance = 1e-10 }: QueryOptions
+) {
+  const transitions: MDP["transitions"] = {};
+  for (const state of mdp.states) {
+    if (targets.has(state)) continue;
+    const actions = actionsFromState(mdp, state);
+    if (actions.length === 0) transitions[`${state}|${STAY}`] = [{ nextState: state, probability: 1, reward: 0 }];
+    for (const action of actions) transitions[`${state}|${action}`] = transitionsFor(mdp, state, action);
+  }
+  const goalMdp: MDP = { ...mdp, transitions, terminalStates: [...targets], gamma: 1 };
+  // Shortest path maximises reward, so minimising reward maximises its negation
+  const result = stochasticShortestPath(
+    objective === "max" ? goalMdp : scaleRewards(goalMdp, -1),
+    startState,
+    { maxIterations, tolerance }
+  );
+
+  const infiniteStates = mdp.states.filter(state => result.costToGoal[state] === Infinity);
+  const values = Object.fromEntries(mdp.states.map(state => {
+    const cost = result.costToGoal[state] ?? 0;
+    if (cost === Infinity) return [state, Infinity];
+    return [state, objective === "max" ? -cost : cost];
+  }));
+  const scheduler = Object.fromEntries(
+    Object.entries(result.bestPolicy).filter(([state, action]) => action !== STAY && Number.isFinite(values[state]))
+  );
+  return { values, scheduler, infiniteStates, unbounded: result.diagnostics.unbounded, iterations: result.iterations };
+}
+
+function compare(value: number, relation: Relation, threshold: number) {
+  switch (relation) {
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+  }
+}
+
+function listStates(states: string[]) {
+  return states.length <= 6 ? states.join(", ") : `${states.slice(0, 6).join(", ")} and ${states.length - 6} more`;
+}
+
+export function checkQuery(
+  mdp: MDP,
+  query: Query | string,
+  startState: string,
+  options: QueryOptions = {}
+): QueryResult {
+  mdp = normalizeMdp(mdp);
+  const parsed = typeof query === "string" ? parseQuery(query) : query;
+  const objective = parsed.objective ?? "max";
+  const path = parsed.path;
+  const messages: string[] = [];
+  const all = new Set(mdp.states);
+
+  let values: Record<string, number>;
+  let scheduler: Record<string, string>;
+  let timedScheduler: Record<string, string>[] | undefined;
+  let targets: Set<string>;
+  let avoid: Set<string>;
+  let infiniteStates: string[] = [];
+  let iterations: number;
+  let converged = true;
+
+  if (parsed.operator === "R") {
+    targets = satisfying(mdp, path.kind === "eventually" ? path.target : { kind: "constant", value: false });
+    avoid = new Set();
+    const solution = rewardUntil(mdp, targets, objective, startState, options);
+    ({ values, scheduler, infiniteStates, iterations } = solution);
+    if (infiniteStates.length > 0) {
+      messages.push(
+        `No scheduler reaches the target with probability 1 from ${listStates(infiniteStates)}, so the expected reward there is reported as ∞.`
+      );
+    }
+    if (solution.unbounded.length > 0) {
+      messages.push(
+        `From ${listStates(solution.unbounded)} a scheduler can repeat a cycle that changes the reward on every lap before reaching the target, so the ${objective} is unbounded.`
+      );
+    }
+  } else if (path.kind === "globally") {
+    // G φ holds exactly when F ¬φ fails, and the best scheduler for one is the worst for the other
+    const bad = new Set(mdp.states.filter(state => !satisfying(mdp, path.formula).has(state)));
+    const solution = reachability(mdp, all, bad, objective === "max" ? "min" : "max", path.bound, options);
+    values = Object.fromEntries(Object.entries(solution.values).map(([state, p]) => [state, 1 - p]));
+    ({ scheduler, timedScheduler, iterations, converged } = solution);
+    targets = new Set();
+    avoid = bad;
+  } else {
+    const hold = path.kind === "until" ? satisfying(mdp, path.hold) : all;
+    targets = satisfying(mdp, path.target);
+    avoid = new Set(mdp.states.filter(state => !hold.has(state) && !targets.has(state)));
+    const solution = reachability(mdp, hold, targets, objective, path.bound, options);
+    ({ values, scheduler, timedScheduler, iterations, converged } = solution);
+  }
+
+  if (!converged) {
+    messages.push(`Value iteration stopped after ${iterations} iterations before converging; values are lower bounds.`);
+  }
+  if (parsed.operator === "P" && targets.size === 0 && path.kind !== "globally") {
+    messages.push("No state satisfies the target formula, so every probability is 0.");
+  }
+
+  const starts = initialStates(mdp, startState);
+  const startValue = starts.reduce((acc, { state, probability }) => acc + probability * (values[state] ?? 0), 0);
+
+  let satisfyingStates: string[] | undefined;
+  let holds: boolean | undefined;
+  if (parsed.threshold) {
+    const { relation, value } = parsed.threshold;
+    satisfyingStates = mdp.states.filter(state => compare(values[state], relation, value));
+    holds = starts.every(({ state }) => satisfyingStates!.includes(state));
+  }
+
+  return {
+    query: formatQuery(parsed),
+    operator: parsed.operator,
+    objective,
+    values,
+    startValue,
+    satisfyingStates,
+    holds,
+    scheduler,
+    timedScheduler,
+    targetStates: [...targets],
+    avoidStates: [...avoid],
+    infiniteStates,
+    iterations,
+    converged,
+    messages,
+  };
+}
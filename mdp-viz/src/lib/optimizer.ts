@@ -1,5 +1,16 @@
-import type { MDP, Transition } from "@/types/mdp";
-import { actionsFromState, transitionsFor } from "@/types/mdp";
+import type { MDP, Transition, ValueCriterion } from "@/types/mdp";
+import { actionsFromState, hasTerminalStates, normalizeMdp, scaleRewards, transitionsFor } from "@/types/mdp";
+import { rngFromSeed, type RNG } from "@/lib/rng";
+import { chooseAction, policyDistribution, sampleStartState } from "@/lib/sim";
+import { toStochasticPolicy, type Policy, type StochasticPolicy } from "@/lib/stochasticPolicy";
+import { evaluatePolicyExact } from "@/lib/policyEvaluation";
+import { linearProgramming } from "@/lib/linearProgramming";
+import { constrainedOptimization } from "@/lib/constrainedMdp";
+import { backwardInduction } from "@/lib/finiteHorizon";
+import { relativeValueIteration } from "@/lib/averageReward";
+import { properPolicy, stochasticShortestPath } from "@/lib/stochasticShortestPath";
+import { robustValueIteration } from "@/lib/robustMdp";
+import { riskSensitivePlanning } from "@/lib/riskSensitive";
 
 export interface OptimizationResult {
   bestPolicy: Record<string, string>; // state -> action
@@ -8,6 +19,8 @@ export interface OptimizationResult {
   convergenceHistory: number[];
   policyHistory: Record<string, string>[];
   valueFunction: Record<string, number>;
+  stochasticPolicy?: StochasticPolicy; // present when the policy the method found or learned randomises
+  criterion?: ValueCriterion; // what valueFunction measures, set by runOptimizer
 }
 
 export interface PolicyIterationResult extends OptimizationResult {
@@ -16,11 +29,13 @@ export interface PolicyIterationResult extends OptimizationResult {
 
 export interface ValueIterationResult extends OptimizationResult {
   deltaHistory: number[];
+  optimalActions: Record<string, string[]>; // tie sets: every action whose backup is within tolerance of the best
 }
 
 export interface QLearningResult extends OptimizationResult {
   qTable: Record<string, Record<string, number>>; // state -> action -> value
   learningCurve: number[];
+  behaviorPolicy: StochasticPolicy; // the ε-greedy policy the agent explored with, over the final Q-table
 }
 
 export interface OptimizationConfig {
@@ -31,6 +46,12 @@ export interface OptimizationConfig {
   epsilon?: number;
   episodes?: number;
   lambda?: number;
+  seed?: number; // seeds the RNG so stochastic runs are reproducible
+  exactEvaluation?: boolean; // policy iteration solves for V^π exactly instead of sweeping
+  horizon?: number; // number of decisions left for finite-horizon planning
+  uncertaintyRadius?: number; // L1 radius for rows without a declared uncertainty set in robust planning
+  riskLevel?: number; // α: the tail share of returns CVaR averages over, and the level VaR and CVaR are reported at
+  riskAversion?: number; // λ for the mean-variance penalty, β for exponential utility
 }
 
 export interface OptimizationProgress {
@@ -54,6 +75,7 @@ export function valueIteration(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): ValueIterationResult {
+  mdp = normalizeMdp(mdp);
   const {
     maxIterations = 1000,
     tolerance = 1e-6,
@@ -145,30 +167,25 @@ export function valueIteration(
     }
   }
 
-  // Extract optimal policy
+  // Extract optimal policy, keeping every action that ties for the best backup.
+  // The values are only accurate to about the tolerance, so closer actions count as ties.
   const bestPolicy: Record<string, string> = {};
+  const optimalActions: Record<string, string[]> = {};
   for (const state of states) {
     const actions = actionsFromState(mdp, state);
     if (actions.length === 0) continue;
 
-    let maxValue = -Infinity;
-
-    for (const action of actions) {
-      const transitions = transitionsFor(mdp, state, action);
-      let actionValue = 0;
-
-      for (const transition of transitions) {
-        const reward = transition.reward ?? 0;
-        const nextValue = valueFunction[transition.nextState] ?? 0;
-        actionValue += transition.probability * (reward + gamma * nextValue);
-      }
-
-      if (actionValue > maxValue) {
-        maxValue = actionValue;
-      }
-    }
+    const qValues = actions.map(action =>
+      transitionsFor(mdp, state, action).reduce(
+        (acc, transition) =>
+          acc + transition.probability * ((transition.reward ?? 0) + gamma * (valueFunction[transition.nextState] ?? 0)),
+        0
+      )
+    );
+    const maxValue = Math.max(...qValues);
 
-    bestPolicy[state] = actions[0]; // Fallback to first action if all are equal
+    optimalActions[state] = actions.filter((_, i) => qValues[i] >= maxValue - tolerance);
+    bestPolicy[state] = actions[qValues.indexOf(maxValue)];
   }
 
   const bestValue = Math.max(...Object.values(valueFunction));
@@ -180,7 +197,8 @@ export function valueIteration(
     convergenceHistory,
     policyHistory: [bestPolicy],
     valueFunction,
-    deltaHistory
+    deltaHistory,
+    optimalActions
   };
 }
 
@@ -190,6 +208,7 @@ export function policyIteration(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): PolicyIterationResult {
+  mdp = normalizeMdp(mdp);
   const {
     maxIterations = 1000,
     tolerance = 1e-6,
@@ -201,45 +220,62 @@ export function policyIteration(
   const deltaHistory: number[] = [];
   const convergenceHistory: number[] = [];
   let valueFunction: Record<string, number> = {};
+  const rng = rngFromSeed(config.seed);
 
-  // Initialize random policy
-  const policy: Record<string, string> = {};
+  // Initialize random policy. Undiscounted values are only finite for a policy that
+  // terminates, so exact evaluation with γ = 1 starts from one wherever one exists.
+  const policy: Record<string, string> = config.exactEvaluation && gamma >= 1 ? properPolicy(mdp) : {};
   for (const state of states) {
     const actions = actionsFromState(mdp, state);
-    if (actions.length > 0) {
-      policy[state] = actions[Math.floor(Math.random() * actions.length)];
+    if (actions.length > 0 && !policy[state]) {
+      policy[state] = actions[Math.floor(rng() * actions.length)];
     }
   }
 
   for (let iteration = 0; iteration < maxIterations; iteration++) {
     // Policy Evaluation
-    valueFunction = {};
-    states.forEach(state => {
-      valueFunction[state] = 0;
-    });
-
     let delta = 0;
-    for (let evalIter = 0; evalIter < 100; evalIter++) {
-      delta = 0;
-      for (const state of states) {
-        const action = policy[state];
-        if (!action) continue;
+    let exactValues: Record<string, number> | null = null;
+    if (config.exactEvaluation) {
+      try {
+        exactValues = evaluatePolicyExact(mdp, policy, states[0], { gamma }).valueFunction;
+      } catch {
+        // Singular when some state never terminates with γ = 1; truncated sweeps still give finite values
+      }
+    }
+    if (exactValues) {
+      const previous = valueFunction;
+      valueFunction = exactValues;
+      // Report how far the values moved since the last policy
+      delta = Math.max(...states.map(state => Math.abs(valueFunction[state] - (previous[state] ?? 0))));
+    } else {
+      valueFunction = {};
+      states.forEach(state => {
+        valueFunction[state] = 0;
+      });
 
-        const transitions = transitionsFor(mdp, state, action);
-        let newValue = 0;
+      for (let evalIter = 0; evalIter < 100; evalIter++) {
+        delta = 0;
+        for (const state of states) {
+          const action = policy[state];
+          if (!action) continue;
 
-        for (const transition of transitions) {
-          const reward = transition.reward ?? 0;
-          const nextValue = valueFunction[transition.nextState] ?? 0;
-          newValue += transition.probability * (reward + gamma * nextValue);
+          const transitions = transitionsFor(mdp, state, action);
+          let newValue = 0;
+
+          for (const transition of transitions) {
+            const reward = transition.reward ?? 0;
+            const nextValue = valueFunction[transition.nextState] ?? 0;
+            newValue += transition.probability * (reward + gamma * nextValue);
+          }
+
+          const oldValue = valueFunction[state];
+          valueFunction[state] = newValue;
+          delta = Math.max(delta, Math.abs(newValue - oldValue));
         }
 
-        const oldValue = valueFunction[state];
-        valueFunction[state] = newValue;
-        delta = Math.max(delta, Math.abs(newValue - oldValue));
+        if (delta < tolerance) break;
       }
-
-      if (delta < tolerance) break;
     }
 
     // Policy Improvement
@@ -277,6 +313,16 @@ export function policyIteration(
     deltaHistory.push(delta);
     convergenceHistory.push(delta);
 
+    if (_callback?.onProgress) {
+      _callback.onProgress({
+        iteration,
+        delta,
+        valueFunction: { ...valueFunction },
+        policy: { ...policy },
+        method: "Policy Iteration"
+      });
+    }
+
     if (policyStable) {
       break;
     }
@@ -302,6 +348,7 @@ export function qLearning(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): QLearningResult {
+  mdp = normalizeMdp(mdp);
   const {
     learningRate = 0.1,
     gamma = mdp.gamma ?? 0.9,
@@ -312,6 +359,7 @@ export function qLearning(
   const states = mdp.states;
   const qTable: Record<string, Record<string, number>> = {};
   const learningCurve: number[] = [];
+  const rng = rngFromSeed(config.seed);
 
   // Initialize Q-table
   for (const state of states) {
@@ -323,7 +371,7 @@ export function qLearning(
   }
 
   for (let episode = 0; episode < episodes; episode++) {
-    let state = startState;
+    let state = sampleStartState(mdp, startState, rng);
     let totalReward = 0;
     let steps = 0;
     const maxSteps = 100;
@@ -334,8 +382,8 @@ export function qLearning(
 
       // Epsilon-greedy action selection
       let action: string;
-      if (Math.random() < epsilon) {
-        action = actions[Math.floor(Math.random() * actions.length)];
+      if (rng() < epsilon) {
+        action = actions[Math.floor(rng() * actions.length)];
       } else {
         action = actions.reduce((best, current) => 
           (qTable[state][current] ?? 0) > (qTable[state][best] ?? 0) ? current : best
@@ -346,7 +394,7 @@ export function qLearning(
       if (transitions.length === 0) break;
 
       // Sample next state
-      const r = Math.random();
+      const r = rng();
       let acc = 0;
       let selectedTransition: Transition | null = null;
       
@@ -381,6 +429,32 @@ export function qLearning(
     }
 
     learningCurve.push(totalReward);
+
+    // Report progress
+    if (_callback?.onProgress && episode % 100 === 0) {
+      const currentPolicy: Record<string, string> = {};
+      for (const s of states) {
+        const availableActions = actionsFromState(mdp, s);
+        if (availableActions.length > 0) {
+          currentPolicy[s] = availableActions.reduce((best, current) => 
+            (qTable[s][current] ?? 0) > (qTable[s][best] ?? 0) ? current : best
+          );
+        }
+      }
+
+      _callback.onProgress({
+        iteration: episode,
+        delta: learningCurve[learningCurve.length - 1] - (learningCurve[learningCurve.length - 2] ?? 0),
+        valueFunction: Object.fromEntries(
+          states.map(s => {
+            const available = actionsFromState(mdp, s);
+            return [s, available.length > 0 ? Math.max(...available.map(a => qTable[s][a] ?? 0)) : 0];
+          })
+        ),
+        policy: currentPolicy,
+        method: "Q-Learning"
+      });
+    }
   }
 
   // Extract optimal policy
@@ -415,7 +489,8 @@ export function qLearning(
     policyHistory: [bestPolicy],
     valueFunction,
     qTable,
-    learningCurve
+    learningCurve,
+    behaviorPolicy: policyDistribution(mdp, { kind: "epsilon-greedy", qTable, epsilon })
   };
 }
 
@@ -426,6 +501,7 @@ export function sarsa(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): QLearningResult {
+  mdp = normalizeMdp(mdp);
   const {
     learningRate = 0.1,
     gamma = mdp.gamma ?? 0.9,
@@ -436,6 +512,7 @@ export function sarsa(
   const states = mdp.states;
   const qTable: Record<string, Record<string, number>> = {};
   const learningCurve: number[] = [];
+  const rng = rngFromSeed(config.seed);
 
   // Initialize Q-table
   for (const state of states) {
@@ -447,18 +524,18 @@ export function sarsa(
   }
 
   for (let episode = 0; episode < episodes; episode++) {
-    let state = startState;
+    let state = sampleStartState(mdp, startState, rng);
     let totalReward = 0;
     let steps = 0;
     const maxSteps = 100;
 
-    // Choose initial action
+    // Choose initial action; a terminal start leaves nothing to learn this episode
     const actions = actionsFromState(mdp, state);
-    if (actions.length === 0) break;
+    if (actions.length === 0) continue;
 
     let action: string;
-    if (Math.random() < epsilon) {
-      action = actions[Math.floor(Math.random() * actions.length)];
+    if (rng() < epsilon) {
+      action = actions[Math.floor(rng() * actions.length)];
     } else {
       action = actions.reduce((best, current) => 
         (qTable[state][current] ?? 0) > (qTable[state][best] ?? 0) ? current : best
@@ -470,7 +547,7 @@ export function sarsa(
       if (transitions.length === 0) break;
 
       // Sample next state
-      const r = Math.random();
+      const r = rng();
       let acc = 0;
       let selectedTransition: Transition | null = null;
       
@@ -492,10 +569,16 @@ export function sarsa(
       // Choose next action (SARSA is on-policy)
       const nextActions = actionsFromState(mdp, nextState);
       let nextAction: string;
-      if (nextActions.length === 0) break;
+      if (nextActions.length === 0) {
+        // Terminal state: bootstrap from zero and end the episode
+        const currentQ = qTable[state][action] ?? 0;
+        qTable[state][action] = currentQ + learningRate * (reward - currentQ);
+        totalReward += reward;
+        break;
+      }
 
-      if (Math.random() < epsilon) {
-        nextAction = nextActions[Math.floor(Math.random() * nextActions.length)];
+      if (rng() < epsilon) {
+        nextAction = nextActions[Math.floor(rng() * nextActions.length)];
       } else {
         nextAction = nextActions.reduce((best, current) => 
           (qTable[nextState][current] ?? 0) > (qTable[nextState][best] ?? 0) ? current : best
@@ -554,9 +637,11 @@ export function sarsa(
   const valueFunction: Record<string, number> = {};
   for (const state of states) {
     const actions = actionsFromState(mdp, state);
-    if (actions.length > 0) {
-      valueFunction[state] = Math.max(...actions.map(a => qTable[state][a] ?? 0));
+    if (actions.length === 0) {
+      valueFunction[state] = 0;
+      continue;
     }
+    valueFunction[state] = Math.max(...actions.map(a => qTable[state][a] ?? 0));
   }
 
   return {
@@ -567,7 +652,8 @@ export function sarsa(
     policyHistory: [bestPolicy],
     valueFunction,
     qTable,
-    learningCurve
+    learningCurve,
+    behaviorPolicy: policyDistribution(mdp, { kind: "epsilon-greedy", qTable, epsilon })
   };
 }
 
@@ -578,6 +664,7 @@ export function actorCritic(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): OptimizationResult {
+  mdp = normalizeMdp(mdp);
   const {
     learningRate = 0.01,
     gamma = mdp.gamma ?? 0.9,
@@ -591,6 +678,7 @@ export function actorCritic(
   // Critic: value function
   const criticParams: Record<string, number> = {};
   const learningCurve: number[] = [];
+  const rng = rngFromSeed(config.seed);
 
   // Initialize parameters
   for (const state of states) {
@@ -603,7 +691,7 @@ export function actorCritic(
   }
 
   for (let episode = 0; episode < episodes; episode++) {
-    let state = startState;
+    let state = sampleStartState(mdp, startState, rng);
     let totalReward = 0;
     let steps = 0;
     const maxSteps = 100;
@@ -620,7 +708,7 @@ export function actorCritic(
       const probs = expPrefs.map(exp => exp / sumExp);
 
       // Sample action
-      const r = Math.random();
+      const r = rng();
       let acc = 0;
       let selectedAction = availableActions[0];
       for (let i = 0; i < availableActions.length; i++) {
@@ -635,7 +723,7 @@ export function actorCritic(
       if (transitions.length === 0) break;
 
       // Sample next state
-      const r2 = Math.random();
+      const r2 = rng();
       let acc2 = 0;
       let selectedTransition: Transition | null = null;
       
@@ -709,13 +797,18 @@ export function actorCritic(
     }
   }
 
+  // The actor's softmax over its preferences is the policy it actually learned;
+  // bestPolicy is only its most likely action
+  const stochasticPolicy = policyDistribution(mdp, { kind: "softmax", qTable: actorParams, temperature: 1 });
+
   return {
     bestPolicy,
     bestValue: Math.max(...Object.values(criticParams)),
     iterations: episodes,
     convergenceHistory: learningCurve,
     policyHistory: [bestPolicy],
-    valueFunction: criticParams
+    valueFunction: criticParams,
+    stochasticPolicy
   };
 }
 
@@ -726,6 +819,7 @@ export function tdLambda(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): OptimizationResult {
+  mdp = normalizeMdp(mdp);
   const {
     learningRate = 0.1,
     gamma = mdp.gamma ?? 0.9,
@@ -737,6 +831,7 @@ export function tdLambda(
   const valueFunction: Record<string, number> = {};
   const eligibilityTraces: Record<string, number> = {};
   const learningCurve: number[] = [];
+  const rng = rngFromSeed(config.seed);
 
   // Initialize value function
   for (const state of states) {
@@ -744,7 +839,7 @@ export function tdLambda(
   }
 
   for (let episode = 0; episode < episodes; episode++) {
-    let state = startState;
+    let state = sampleStartState(mdp, startState, rng);
     let totalReward = 0;
     let steps = 0;
     const maxSteps = 100;
@@ -759,13 +854,13 @@ export function tdLambda(
       if (availableActions.length === 0) break;
 
       // Choose action (random for simplicity)
-      const action = availableActions[Math.floor(Math.random() * availableActions.length)];
+      const action = availableActions[Math.floor(rng() * availableActions.length)];
       const transitions = transitionsFor(mdp, state, action);
       
       if (transitions.length === 0) break;
 
       // Sample next state
-      const r = Math.random();
+      const r = rng();
       let acc = 0;
       let selectedTransition: Transition | null = null;
       
@@ -884,29 +979,39 @@ export function tdLambda(
 // Monte Carlo Policy Evaluation
 export function evaluatePolicy(
   mdp: MDP,
-  policy: Record<string, string>,
+  policy: Policy,
   startState: string,
-  episodes = 1000
+  episodes = 1000,
+  rng: RNG = Math.random
 ): { valueFunction: Record<string, number>; avgReward: number } {
-  const valueFunction: Record<string, number> = {};
+  mdp = normalizeMdp(mdp);
+  const probabilities = toStochasticPolicy(policy);
+  const returnSums: Record<string, number> = {};
+  const visitCounts: Record<string, number> = {};
   let totalReward = 0;
 
   for (let episode = 0; episode < episodes; episode++) {
-    let state = startState;
+    let state = sampleStartState(mdp, startState, rng);
     let episodeReward = 0;
     let steps = 0;
+    const visitedStates: string[] = [];
+    const stepRewards: number[] = [];
     const maxSteps = 100;
     const gamma = mdp.gamma ?? 0.9;
 
     while (steps < maxSteps) {
-      const action = policy[state];
-      if (!action) break;
+      // Sure actions are taken without drawing, so deterministic runs use the RNG as before
+      const choices = Object.keys(probabilities[state] ?? {}).filter(a => probabilities[state][a] > 0);
+      if (choices.length === 0) break;
+      const action = choices.length === 1
+        ? choices[0]
+        : chooseAction({ kind: "stochastic", probabilities }, state, choices, rng);
 
       const transitions = transitionsFor(mdp, state, action);
       if (transitions.length === 0) break;
 
       // Sample next state
-      const r = Math.random();
+      const r = rng();
       let acc = 0;
       let selectedTransition: Transition | null = null;
       
@@ -924,11 +1029,27 @@ export function evaluatePolicy(
 
       const reward = selectedTransition.reward ?? 0;
       episodeReward += Math.pow(gamma, steps) * reward;
+      visitedStates.push(state);
+      stepRewards.push(reward);
       state = selectedTransition.nextState;
       steps++;
     }
 
     totalReward += episodeReward;
+
+    // Every-visit estimate: credit each visited state with the discounted return that followed it
+    let futureReturn = 0;
+    for (let i = visitedStates.length - 1; i >= 0; i--) {
+      futureReturn = stepRewards[i] + gamma * futureReturn;
+      returnSums[visitedStates[i]] = (returnSums[visitedStates[i]] ?? 0) + futureReturn;
+      visitCounts[visitedStates[i]] = (visitCounts[visitedStates[i]] ?? 0) + 1;
+    }
+  }
+
+  const valueFunction: Record<string, number> = {};
+  for (const state of mdp.states) {
+    // States the policy never reached (terminal states included) are worth 0
+    valueFunction[state] = visitCounts[state] ? returnSums[state] / visitCounts[state] : 0;
   }
 
   return {
@@ -958,7 +1079,7 @@ export function optimizeMDPConfiguration(
   
   for (const gamma of gammaValues) {
     const testMdp = { ...baseMdp, gamma };
-    const result = valueIteration(testMdp, config, callback);
+    const result = { ...valueIteration(testMdp, config, callback), criterion: criterionFor("value-iteration", testMdp, config) };
     
     optimizationHistory.push({ mdp: testMdp, result });
     
@@ -973,20 +1094,9 @@ export function optimizeMDPConfiguration(
   const rewardMultipliers = [0.5, 1.0, 1.5, 2.0];
   
   for (const multiplier of rewardMultipliers) {
-    const testMdp = {
-      ...baseMdp,
-      transitions: Object.fromEntries(
-        Object.entries(baseMdp.transitions).map(([key, transitions]) => [
-          key,
-          transitions.map(t => ({
-            ...t,
-            reward: (t.reward ?? 0) * multiplier
-          }))
-        ])
-      )
-    };
+    const testMdp = scaleRewards(baseMdp, multiplier);
     
-    const result = valueIteration(testMdp, config, callback);
+    const result = { ...valueIteration(testMdp, config, callback), criterion: criterionFor("value-iteration", testMdp, config) };
     
     optimizationHistory.push({ mdp: testMdp, result });
     
@@ -1015,6 +1125,7 @@ export interface RobustOptimizationResult {
   convergenceHistory: number[];
   valueFunction: Record<string, number>;
   policyHistory: Record<string, string>[];
+  criterion?: ValueCriterion;
   validationResults: {
     mcReward: number;
     mcStdDev: number;
@@ -1072,8 +1183,8 @@ export async function robustOptimizeMDP(
       console.log(`Trying ${method.name}...`);
       const result = await method.optimize(mdp, startState, config);
       
-      // Validate the result with Monte Carlo simulation
-      const validation = validatePolicyWithMonteCarlo(mdp, result.bestPolicy, startState);
+      // Validate the result with Monte Carlo simulation; every method replays the same seeded stream
+      const validation = validatePolicyWithMonteCarlo(mdp, result.bestPolicy, startState, rngFromSeed(config.seed));
       
       results.push({
         method: method.name,
@@ -1104,15 +1215,17 @@ export function monteCarloPolicySearch(
   config: OptimizationConfig = {},
   _callback?: OptimizationCallback
 ): OptimizationResult {
+  mdp = normalizeMdp(mdp);
   const { episodes = 1000 } = config;
   const states = mdp.states;
+  const rng = rngFromSeed(config.seed);
   
   // Initialize random policy
   const policy: Record<string, string> = {};
   for (const state of states) {
     const availableActions = actionsFromState(mdp, state);
     if (availableActions.length > 0) {
-      policy[state] = availableActions[Math.floor(Math.random() * availableActions.length)];
+      policy[state] = availableActions[Math.floor(rng() * availableActions.length)];
     }
   }
 
@@ -1126,7 +1239,7 @@ export function monteCarloPolicySearch(
     
     // Evaluate current policy
     for (let episode = 0; episode < episodes / 50; episode++) {
-      const episodeReward = simulateEpisodeWithPolicy(mdp, policy, startState);
+      const episodeReward = simulateEpisodeWithPolicy(mdp, policy, startState, rng).totalReward;
       totalReward += episodeReward;
     }
     
@@ -1137,6 +1250,14 @@ export function monteCarloPolicySearch(
       bestReward = avgReward;
       bestPolicy = { ...policy };
     }
+
+    _callback?.onProgress?.({
+      iteration,
+      delta: avgReward - (convergenceHistory[convergenceHistory.length - 2] ?? 0),
+      valueFunction: Object.fromEntries(states.map(s => [s, avgReward])),
+      policy: { ...policy },
+      method: "Monte Carlo Policy Search"
+    });
     
     // Policy improvement: try different actions for each state
     for (const state of states) {
@@ -1154,7 +1275,7 @@ export function monteCarloPolicySearch(
         let testReward = 0;
         
         for (let testEpisode = 0; testEpisode < 10; testEpisode++) {
-          testReward += simulateEpisodeWithPolicy(mdp, testPolicy, startState);
+          testReward += simulateEpisodeWithPolicy(mdp, testPolicy, startState, rng).totalReward;
         }
         
         if (testReward > bestActionReward) {
@@ -1188,14 +1309,18 @@ function simulateEpisodeWithPolicy(
   mdp: MDP,
   policy: Record<string, string>,
   startState: string,
+  rng: RNG,
   maxSteps = 100
-): number {
-  let state = startState;
+): { totalReward: number; steps: number; terminated: boolean } {
+  mdp = normalizeMdp(mdp);
+  let state = sampleStartState(mdp, startState, rng);
   let totalReward = 0;
   const gamma = mdp.gamma ?? 0.9;
   let discount = 1.0;
+  let steps = 0;
 
-  for (let step = 0; step < maxSteps; step++) {
+  for (; steps < maxSteps; steps++) {
+    if (actionsFromState(mdp, state).length === 0) break;
     const action = policy[state];
     if (!action) break;
 
@@ -1203,7 +1328,7 @@ function simulateEpisodeWithPolicy(
     if (transitions.length === 0) break;
 
     // Sample next state
-    const r = Math.random();
+    const r = rng();
     let acc = 0;
     let selectedTransition: Transition | null = null;
     
@@ -1225,7 +1350,7 @@ function simulateEpisodeWithPolicy(
     state = selectedTransition.nextState;
   }
 
-  return totalReward;
+  return { totalReward, steps, terminated: actionsFromState(mdp, state).length === 0 };
 }
 
 // Validate policy with Monte Carlo simulation
@@ -1233,6 +1358,7 @@ function validatePolicyWithMonteCarlo(
   mdp: MDP,
   policy: Record<string, string>,
   startState: string,
+  rng: RNG,
   episodes = 1000
 ): {
   mcReward: number;
@@ -1243,20 +1369,25 @@ function validatePolicyWithMonteCarlo(
   const rewards: number[] = [];
   let successfulEpisodes = 0;
   let totalPathLength = 0;
+  // Success means absorption in a terminal state; models without any terminal
+  // state fall back to counting episodes with a positive return
+  const measureTermination = hasTerminalStates(mdp);
 
   for (let episode = 0; episode < episodes; episode++) {
-    const episodeResult = simulateEpisodeWithPolicy(mdp, policy, startState);
-    rewards.push(episodeResult);
+    const episodeResult = simulateEpisodeWithPolicy(mdp, policy, startState, rng);
+    rewards.push(episodeResult.totalReward);
     
-    if (episodeResult > 0) successfulEpisodes++;
-    totalPathLength += Math.min(100, episodeResult > 0 ? 50 : 100); // Estimate path length
+    const succeeded = measureTermination ? episodeResult.terminated : episodeResult.totalReward > 0;
+    if (succeeded) successfulEpisodes++;
+    totalPathLength += episodeResult.steps;
   }
 
   const avgReward = rewards.reduce((a, b) => a + b, 0) / rewards.length;
   const variance = rewards.reduce((acc, r) => acc + Math.pow(r - avgReward, 2), 0) / rewards.length;
   const stdDev = Math.sqrt(variance);
   const successRate = successfulEpisodes / episodes;
-  const pathEfficiency = avgReward / (totalPathLength / episodes);
+  const avgPathLength = totalPathLength / episodes;
+  const pathEfficiency = avgPathLength > 0 ? avgReward / avgPathLength : avgReward;
 
   return {
     mcReward: avgReward,
@@ -1358,18 +1489,7 @@ export function robustOptimizeMDPConfiguration(
     const rewardScales = [0.5, 1.0, 1.5, 2.0];
     
     for (const scale of rewardScales) {
-      const testMdp = {
-        ...baseMdp,
-        transitions: Object.fromEntries(
-          Object.entries(baseMdp.transitions).map(([key, transitions]) => [
-            key,
-            transitions.map(t => ({
-              ...t,
-              reward: (t.reward ?? 0) * scale
-            }))
-          ])
-        )
-      };
+      const testMdp = scaleRewards(baseMdp, scale);
       
       try {
         const result = await robustOptimizeMDP(testMdp, startState, config, callback);
@@ -1392,4 +1512,120 @@ export function robustOptimizeMDPConfiguration(
       optimizationHistory
     });
   });
-} 
\ No newline at end of file
+} 
+// Algorithms that can be selected by id from the UI, the API and workers
+export const optimizerAlgorithms = [
+  "value-iteration",
+  "policy-iteration",
+  "linear-programming",
+  "constrained",
+  "finite-horizon",
+  "average-reward",
+  "stochastic-shortest-path",
+  "robust-value-iteration",
+  "cvar",
+  "mean-variance",
+  "exponential-utility",
+  "q-learning",
+  "sarsa",
+  "actor-critic",
+  "td-lambda",
+  "monte-carlo-policy-search",
+  "robust",
+] as const;
+
+export type OptimizerAlgorithm = typeof optimizerAlgorithms[number];
+
+// Choices offered by the Agent Optimizer panel; "configuration" also searches MDP parameters
+export const agentAlgorithms = [
+  "value-iteration",
+  "policy-iteration",
+  "linear-programming",
+  "constrained",
+  "finite-horizon",
+  "average-reward",
+  "stochastic-shortest-path",
+  "robust-value-iteration",
+  "cvar",
+  "mean-variance",
+  "exponential-utility",
+  "q-learning",
+  "sarsa",
+  "actor-critic",
+  "td-lambda",
+  "configuration",
+  "robust",
+] as const;
+
+export type AgentAlgorithm = typeof agentAlgorithms[number];
+
+// The criterion an algorithm's value function is computed under, for results that
+// outlive the settings they were run with
+function criterionFor(
+  algorithm: OptimizerAlgorithm,
+  mdp: MDP,
+  config: OptimizationConfig,
+  result?: OptimizationResult | RobustOptimizationResult
+): ValueCriterion {
+  if (algorithm === "average-reward" && result && "gainByState" in result) {
+    return { kind: "average-reward", gain: result.gainByState as Record<string, number> };
+  }
+  if (algorithm === "stochastic-shortest-path") return { kind: "discounted", gamma: 1 };
+  return { kind: "discounted", gamma: config.gamma ?? mdp.gamma ?? 0.9 };
+}
+
+export async function runOptimizer(
+  algorithm: OptimizerAlgorithm,
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  callback?: OptimizationCallback
+): Promise<OptimizationResult | RobustOptimizationResult> {
+  const result = await runAlgorithm(algorithm, mdp, startState, config, callback);
+  return { ...result, criterion: criterionFor(algorithm, mdp, config, result) };
+}
+
+async function runAlgorithm(
+  algorithm: OptimizerAlgorithm,
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig,
+  callback?: OptimizationCallback
+): Promise<OptimizationResult | RobustOptimizationResult> {
+  switch (algorithm) {
+    case "value-iteration":
+      return valueIteration(mdp, config, callback);
+    case "policy-iteration":
+      return policyIteration(mdp, config, callback);
+    case "linear-programming":
+      return linearProgramming(mdp, startState, config, callback);
+    case "constrained":
+      return constrainedOptimization(mdp, startState, config, callback);
+    case "finite-horizon":
+      return backwardInduction(mdp, config, callback);
+    case "average-reward":
+      return relativeValueIteration(mdp, startState, config, callback);
+    case "stochastic-shortest-path":
+      return stochasticShortestPath(mdp, startState, config, callback);
+    case "robust-value-iteration":
+      return robustValueIteration(mdp, startState, config, callback);
+    case "cvar":
+    case "mean-variance":
+    case "exponential-utility":
+      return riskSensitivePlanning(algorithm, mdp, startState, config, callback);
+    case "q-learning":
+      return qLearning(mdp, startState, config, callback);
+    case "sarsa":
+      return sarsa(mdp, startState, config, callback);
+    case "actor-critic":
+      return actorCritic(mdp, startState, config, callback);
+    case "td-lambda":
+      return tdLambda(mdp, startState, config, callback);
+    case "monte-carlo-policy-search":
+      return monteCarloPolicySearch(mdp, startState, config, callback);
+    case "robust":
+      return robustOptimizeMDP(mdp, startState, config, callback);
+    default:
+      throw new Error(`Unknown algorithm: ${algorithm}`);
+  }
+}
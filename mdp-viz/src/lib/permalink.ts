@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { mdpSchema, referenceErrors, validateInitialDistribution, validateTransitionMass, validateUncertainty } from "@/types/mdp";
+import { agentAlgorithms } from "@/lib/optimizer";
+
+// Shareable workspace state carried in the URL hash as `#model=<payload>`
+export const permalinkSchema = z.object({
+  mdp: mdpSchema,
+  startState: z.string(),
+  episodes: z.number().int().positive(),
+  maxSteps: z.number().int().positive(),
+  bins: z.number().int().positive(),
+  targetHalfWidth: z.number().positive().optional(), // adaptive simulation; episodes is then the budget
+  seed: z.number().int().nonnegative().optional(),
+  algorithm: z.enum(agentAlgorithms).optional(),
+  config: z.object({
+    maxIterations: z.number().optional(),
+    tolerance: z.number().optional(),
+    gamma: z.number().optional(),
+    learningRate: z.number().optional(),
+    epsilon: z.number().optional(),
+    episodes: z.number().optional(),
+    lambda: z.number().optional(),
+    seed: z.number().optional(),
+    exactEvaluation: z.boolean().optional(),
+    horizon: z.number().optional(),
+    uncertaintyRadius: z.number().optional(),
+    riskLevel: z.number().optional(),
+    riskAversion: z.number().optional(),
+  }).optional(), // OptimizationConfig
+});
+
+export type PermalinkState = z.infer<typeof permalinkSchema>;
+
+// Longer URLs are truncated by chat clients and rejected by some browsers
+export const MAX_PERMALINK_LENGTH = 8000;
+
+const HASH_KEY = "model";
+const VERSION = "v1";
+
+export class PermalinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermalinkError";
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export async function encodePermalink(state: PermalinkState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(state));
+  const compressed = await pipe(json, new CompressionStream("deflate-raw"));
+  return `${VERSION}.${toBase64Url(compressed)}`;
+}
+
+export async function decodePermalink(payload: string): Promise<PermalinkState> {
+  const [version, data] = payload.split(".", 2);
+  if (version !== VERSION || !data) {
+    throw new PermalinkError("This link was made by an unsupported version of the app");
+  }
+
+  let parsedJson: unknown;
+  try {
+    const json = await pipe(fromBase64Url(data), new DecompressionStream("deflate-raw"));
+    parsedJson = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new PermalinkError("This link is damaged or incomplete; ask for it to be copied again");
+  }
+
+  const parsed = permalinkSchema.safeParse(parsedJson);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.map(String).join(".")}: ${issue.message}`);
+    throw new PermalinkError(`This link does not contain a valid model (${issues.join("; ")})`);
+  }
+
+  const state = parsed.data;
+  const errors = [
+    ...validateTransitionMass(state.mdp),
+    ...validateInitialDistribution(state.mdp),
+    ...validateUncertainty(state.mdp),
+    ...referenceErrors(state.mdp),
+  ];
+  if (!state.mdp.states.includes(state.startState)) {
+    errors.push(`start state "${state.startState}" is not in the model`);
+  }
+  if (errors.length > 0) {
+    throw new PermalinkError(`This link's model failed validation (${errors.join("; ")})`);
+  }
+  return state;
+}
+
+// Full URL for the current page with the state in its hash
+export async function buildPermalink(state: PermalinkState): Promise<string> {
+  const base = `${window.location.origin}${window.location.pathname}${window.location.search}`;
+  const url = `${base}#${HASH_KEY}=${await encodePermalink(state)}`;
+  if (url.length > MAX_PERMALINK_LENGTH) {
+    throw new PermalinkError(
+      `This model is too large to share as a link (${url.length.toLocaleString()} characters, ` +
+      `limit ${MAX_PERMALINK_LENGTH.toLocaleString()}). Export it as a file from the configurator instead.`
+    );
+  }
+  return url;
+}
+
+// The encoded payload in the current URL, if any
+export function permalinkFromLocation(): string | null {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get(HASH_KEY);
+}
+
+// Drop the payload so a reload does not re-import the link over later edits
+export function clearPermalinkFromLocation() {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", `${pathname}${search}`);
+}
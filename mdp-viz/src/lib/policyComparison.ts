@@ -0,0 +1,138 @@
+import type { MDP } from "@/types/mdp";
+import { normalizeMdp } from "@/types/mdp";
+import { CONFIDENCE_LEVEL, describePolicy, simulateEpisode, type SimulationPolicy } from "@/lib/sim";
+import { createRng, randomSeed } from "@/lib/rng";
+import { normalInterval, twoSidedNormalPValue, type ConfidenceInterval } from "@/lib/statistics";
+
+export interface ComparedPolicy {
+  label: string;
+  kind: SimulationPolicy["kind"];
+  meanReturn: ConfidenceInterval; // discounted return, as in simulation
+  terminatedShare: number; // episodes that reached a terminal state before maxSteps
+}
+
+// Paired difference `challenger − baseline` of the returns over the shared episodes
+export interface PairedDifference {
+  baseline: number; // index into `policies`
+  challenger: number;
+  difference: ConfidenceInterval;
+  pValue: number; // two-sided, for no difference in mean return
+  adjustedPValue: number; // Holm-adjusted over all pairs
+  correlation: number; // between the two policies' returns on the same episodes
+  varianceReduction: number; // Var(A) + Var(B) over Var(A − B): how many times fewer episodes pairing needs
+}
+
+export interface PolicyComparison {
+  episodes: number;
+  maxSteps: number;
+  seed: number;
+  level: number;
+  policies: ComparedPolicy[];
+  differences: PairedDifference[];
+}
+
+export interface PolicyComparisonOptions {
+  episodes?: number;
+  maxSteps?: number;
+  seed?: number; // drawn and reported when absent
+}
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+// Sample variance
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((acc, v) => acc + (v - m) ** 2, 0) / Math.max(1, values.length - 1);
+}
+
+function covariance(a: number[], b: number[]): number {
+  const ma = mean(a);
+  const mb = mean(b);
+  return a.reduce((acc, v, i) => acc + (v - ma) * (b[i] - mb), 0) / Math.max(1, a.length - 1);
+}
+
+// Holm's step-down adjustment: the k-th smallest of m p-values is multiplied by m − k,
+// and adjusted values are kept monotone
+function holm(pValues: number[]): number[] {
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 0;
+  order.forEach((i, k) => {
+    running = Math.max(running, Math.min(1, (pValues.length - k) * pValues[i]));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+// Evaluate policies on common random numbers: episode i of every policy draws its
+// start state and transitions from one stream and its action choices from another,
+// both seeded from the i-th pair of seeds. Outcomes the policies share then cancel in
+// the paired differences, whose mean, normal-approximation interval and p-value are
+// reported for every pair. Differences are far less noisy than comparing averages
+// from independent runs whenever the returns are positively correlated.
+export function comparePolicies(
+  mdp: MDP,
+  startState: string,
+  policies: SimulationPolicy[],
+  options: PolicyComparisonOptions = {}
+): PolicyComparison {
+  if (policies.length < 2) {
+    throw new Error("Comparing needs at least two policies");
+  }
+  mdp = normalizeMdp(mdp);
+  const { episodes = 2000, maxSteps = 100, seed = randomSeed() } = options;
+  if (episodes < 2) {
+    throw new Error("Comparing needs at least two episodes");
+  }
+
+  const seeds = createRng(seed);
+  const returns = policies.map(() => new Array<number>(episodes));
+  const terminated = policies.map(() => 0);
+  for (let i = 0; i < episodes; i++) {
+    const transitionSeed = Math.floor(seeds() * 4294967296);
+    const actionSeed = Math.floor(seeds() * 4294967296);
+    policies.forEach((policy, k) => {
+      const episode = simulateEpisode(mdp, startState, maxSteps, createRng(transitionSeed), policy, createRng(actionSeed));
+      returns[k][i] = episode.totalReward;
+      if (episode.terminated) terminated[k]++;
+    });
+  }
+
+  const compared = policies.map((policy, k): ComparedPolicy => ({
+    label: describePolicy(policy),
+    kind: policy.kind,
+    meanReturn: normalInterval(mean(returns[k]), Math.sqrt(variance(returns[k]) / episodes), CONFIDENCE_LEVEL),
+    terminatedShare: terminated[k] / episodes,
+  }));
+
+  const pairs: Array<Omit<PairedDifference, "adjustedPValue">> = [];
+  for (let a = 0; a < policies.length; a++) {
+    for (let b = a + 1; b < policies.length; b++) {
+      const differences = returns[b].map((r, i) => r - returns[a][i]);
+      const estimate = mean(differences);
+      const differenceVariance = variance(differences);
+      const standardError = Math.sqrt(differenceVariance / episodes);
+      const independentVariance = variance(returns[a]) + variance(returns[b]);
+      const spread = Math.sqrt(variance(returns[a]) * variance(returns[b]));
+      pairs.push({
+        baseline: a,
+        challenger: b,
+        difference: normalInterval(estimate, standardError, CONFIDENCE_LEVEL),
+        // Identical returns on every episode leave no doubt either way
+        pValue: standardError > 0 ? twoSidedNormalPValue(estimate / standardError) : estimate === 0 ? 1 : 0,
+        correlation: spread > 0 ? covariance(returns[a], returns[b]) / spread : 0,
+        varianceReduction: differenceVariance > 0 ? independentVariance / differenceVariance : Infinity,
+      });
+    }
+  }
+  const adjusted = holm(pairs.map(pair => pair.pValue));
+
+  return {
+    episodes,
+    maxSteps,
+    seed,
+    level: CONFIDENCE_LEVEL,
+    policies: compared,
+    differences: pairs.map((pair, k) => ({ ...pair, adjustedPValue: adjusted[k] })),
+  };
+}
@@ -0,0 +1,203 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, expectedInitialValue, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { multiply, solveDense, solveSparse, toDense, toSparse, type SparseMatrix } from "@/lib/linalg";
+import { actionDistribution, type Policy, type StochasticPolicy } from "@/lib/stochasticPolicy";
+
+export type LinearSolver = "auto" | "dense" | "sparse";
+
+export interface ExactEvaluationOptions {
+  gamma?: number;
+  solver?: LinearSolver; // "auto" uses dense elimination up to DENSE_STATE_LIMIT states
+}
+
+export interface ExactEvaluationResult {
+  valueFunction: Record<string, number>;
+  startValue: number; // expected value over the start state or initial distribution
+  solver: "dense" | "sparse";
+  residual: number; // max |(I - γP_π)v - r_π|, a check on numerical accuracy
+}
+
+const DENSE_STATE_LIMIT = 200;
+
+// How the policy acts in `state`, as simulation does: weights on actions the state
+// does not offer are dropped, and a state left without any acts uniformly at random
+function actingDistribution(mdp: MDP, weights: Array<[string, number]>, state: string): Array<[string, number]> {
+  const available = actionsFromState(mdp, state);
+  const kept = weights.filter(([action, weight]) => weight > 0 && available.includes(action));
+  const total = kept.reduce((acc, [, weight]) => acc + weight, 0);
+  return kept.length > 0
+    ? kept.map(([action, weight]) => [action, weight / total])
+    : available.map(action => [action, 1 / available.length]);
+}
+
+// Exact value of a policy: solves (I - γP_π)v = r_π.
+// Terminal states are worth 0; other states the policy has no action for act uniformly.
+export function evaluatePolicyExact(
+  mdp: MDP,
+  policy: Policy,
+  startState: string,
+  options: ExactEvaluationOptions = {}
+): ExactEvaluationResult {
+  return solvePolicyValue(mdp, state => actionDistribution(policy, state), startState, options);
+}
+
+// The same for a randomised policy given as state -> action -> probability
+export function evaluateRandomizedPolicyExact(
+  mdp: MDP,
+  probabilities: StochasticPolicy,
+  startState: string,
+  options: ExactEvaluationOptions = {}
+): ExactEvaluationResult {
+  return solvePolicyValue(mdp, state => Object.entries(probabilities[state] ?? {}), startState, options);
+}
+
+// Expected discounted number of visits to each state from the start state or initial
+// distribution, dᵀ = μ0ᵀ(I - γP_π)⁻¹. It is the adjoint of policy evaluation: the start
+// value changes by d(s) for every unit of reward added to state s.
+export function discountedVisitsExact(
+  mdp: MDP,
+  policy: Policy,
+  startState: string,
+  options: ExactEvaluationOptions = {}
+): Record<string, number> {
+  mdp = normalizeMdp(mdp);
+  const gamma = options.gamma ?? mdp.gamma ?? 0.9;
+  const states = mdp.states;
+  const index = new Map(states.map((state, i) => [state, i]));
+
+  // Rows of (I - γP_π)ᵀ
+  const rows = states.map((_, i) => new Map<number, number>([[i, 1]]));
+  for (const [i, state] of states.entries()) {
+    for (const [action, weight] of actingDistribution(mdp, actionDistribution(policy, state), state)) {
+      for (const t of transitionsFor(mdp, state, action)) {
+        const j = index.get(t.nextState);
+        if (j === undefined) continue;
+        rows[j].set(i, (rows[j].get(i) ?? 0) - gamma * weight * t.probability);
+      }
+    }
+  }
+  const start = new Array<number>(states.length).fill(0);
+  for (const { state, probability } of initialStates(mdp, startState)) {
+    const i = index.get(state);
+    if (i !== undefined) start[i] += probability;
+  }
+
+  const { values } = solveSystem(toSparse(rows), start, options, gamma);
+  return Object.fromEntries(states.map((state, i) => [state, values[i]]));
+}
+
+export interface ReturnMoments {
+  mean: number; // expected discounted return from the start state or initial distribution
+  variance: number;
+  valueFunction: Record<string, number>;
+  secondMoment: Record<string, number>; // E[G²] from each state
+}
+
+// Mean and variance of the discounted return G under a policy. With V = E[G] known,
+// the second moment M(s) = E[G² | s] solves
+//   M(s) = Σ_a π(a|s) Σ_s' P(s'|s,a) [R² + 2γR V(s') + γ² M(s')]
+// which is (I - γ²P_π)M = b, the same kind of system as policy evaluation.
+export function returnMomentsExact(
+  mdp: MDP,
+  policy: Policy,
+  startState: string,
+  options: ExactEvaluationOptions = {}
+): ReturnMoments {
+  mdp = normalizeMdp(mdp);
+  const gamma = options.gamma ?? mdp.gamma ?? 0.9;
+  const { valueFunction, startValue } = evaluatePolicyExact(mdp, policy, startState, options);
+  const states = mdp.states;
+  const index = new Map(states.map((state, i) => [state, i]));
+
+  const rows: Array<Map<number, number>> = [];
+  const b: number[] = [];
+  for (const [i, state] of states.entries()) {
+    const row = new Map<number, number>([[i, 1]]);
+    let immediate = 0;
+    for (const [action, weight] of actingDistribution(mdp, actionDistribution(policy, state), state)) {
+      for (const t of transitionsFor(mdp, state, action)) {
+        const j = index.get(t.nextState);
+        if (j === undefined) continue;
+        const r = t.reward ?? 0;
+        row.set(j, (row.get(j) ?? 0) - gamma * gamma * weight * t.probability);
+        immediate += weight * t.probability * (r * r + 2 * gamma * r * valueFunction[t.nextState]);
+      }
+    }
+    rows.push(row);
+    b.push(immediate);
+  }
+
+  const { values } = solveSystem(toSparse(rows), b, options, gamma);
+  const secondMoment = Object.fromEntries(states.map((state, i) => [state, values[i]]));
+  const mean = startValue;
+  return {
+    mean,
+    variance: Math.max(0, expectedInitialValue(mdp, secondMoment, startState) - mean * mean),
+    valueFunction,
+    secondMoment,
+  };
+}
+
+function solveSystem(
+  matrix: SparseMatrix,
+  b: number[],
+  options: ExactEvaluationOptions,
+  gamma: number
+): { values: number[]; solver: "dense" | "sparse" } {
+  const solver = options.solver === "dense" || options.solver === "sparse"
+    ? options.solver
+    : matrix.size <= DENSE_STATE_LIMIT ? "dense" : "sparse";
+  try {
+    return { values: solver === "dense" ? solveDense(toDense(matrix), b) : solveSparse(matrix, b), solver };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      gamma >= 1
+        ? `${reason}: with γ = 1 the policy must reach a terminal state from every state for values to be finite`
+        : reason
+    );
+  }
+}
+
+function solvePolicyValue(
+  mdp: MDP,
+  actionWeights: (state: string) => Array<[string, number]>,
+  startState: string,
+  options: ExactEvaluationOptions
+): ExactEvaluationResult {
+  mdp = normalizeMdp(mdp);
+  const gamma = options.gamma ?? mdp.gamma ?? 0.9;
+  const states = mdp.states;
+  const index = new Map(states.map((state, i) => [state, i]));
+
+  const rows: Array<Map<number, number>> = [];
+  const rewards: number[] = [];
+  for (const [i, state] of states.entries()) {
+    const row = new Map<number, number>([[i, 1]]);
+    let expectedReward = 0;
+    for (const [action, weight] of actingDistribution(mdp, actionWeights(state), state)) {
+      for (const t of transitionsFor(mdp, state, action)) {
+        const j = index.get(t.nextState);
+        if (j === undefined) continue;
+        row.set(j, (row.get(j) ?? 0) - gamma * weight * t.probability);
+        expectedReward += weight * t.probability * (t.reward ?? 0);
+      }
+    }
+    rows.push(row);
+    rewards.push(expectedReward);
+  }
+
+  const matrix = toSparse(rows);
+  const { values, solver } = solveSystem(matrix, rewards, options, gamma);
+
+  const check = multiply(matrix, values);
+  const residual = check.reduce((max, value, i) => Math.max(max, Math.abs(value - rewards[i])), 0);
+  const valueFunction = Object.fromEntries(states.map((state, i) => [state, values[i]]));
+
+  return {
+    valueFunction,
+    startValue: expectedInitialValue(mdp, valueFunction, startState),
+    solver,
+    residual,
+  };
+}
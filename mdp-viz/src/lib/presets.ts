@@ -34,14 +34,9 @@ export const presetExamples: PresetExample[] = [
         ],
         "Middle|Stay": [
           { nextState: "Middle", probability: 1.0, reward: 1 }
-        ],
-        "Goal|Forward": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
-        ],
-        "Goal|Stay": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
         ]
-      }
+      },
+      terminalStates: ["Goal"]
     }
   },
   {
@@ -125,13 +120,6 @@ export const presetExamples: PresetExample[] = [
       actions: ["Bet $1", "Bet $2", "Bet $3", "Bet $4", "Bet $5"],
       gamma: 0.9,
       transitions: {
-        // State $0 - can't bet anything, stay at $0
-        "$0|Bet $1": [{ nextState: "$0", probability: 1.0, reward: 0 }],
-        "$0|Bet $2": [{ nextState: "$0", probability: 1.0, reward: 0 }],
-        "$0|Bet $3": [{ nextState: "$0", probability: 1.0, reward: 0 }],
-        "$0|Bet $4": [{ nextState: "$0", probability: 1.0, reward: 0 }],
-        "$0|Bet $5": [{ nextState: "$0", probability: 1.0, reward: 0 }],
-        
         // State $1 - can only bet $1
         "$1|Bet $1": [
           { nextState: "$2", probability: 0.4, reward: 0 },
@@ -211,13 +199,15 @@ export const presetExamples: PresetExample[] = [
           { nextState: "$0", probability: 0.4, reward: 10 }, // Win condition
           { nextState: "$0", probability: 0.6, reward: 0 }
         ]
-      }
+      },
+      // $0 ends the game: the gambler is either broke or has cashed out a win
+      terminalStates: ["$0"]
     }
   },
   {
     id: "robot-navigation",
     name: "Robot Navigation",
-    description: "A robot navigating through a simple environment with obstacles and goals.",
+    description: "A robot navigating through a simple environment with obstacles and goals, on a limited battery budget.",
     category: "research",
     difficulty: "intermediate",
     mdp: {
@@ -226,73 +216,63 @@ export const presetExamples: PresetExample[] = [
       gamma: 0.8,
       transitions: {
         "Start|Move Forward": [
-          { nextState: "Hallway", probability: 0.7, reward: 0 },
-          { nextState: "Start", probability: 0.3, reward: -1 }
+          { nextState: "Hallway", probability: 0.7, reward: 0, costs: { battery: 2 } },
+          { nextState: "Start", probability: 0.3, reward: -1, costs: { battery: 2 } }
         ],
         "Start|Turn Left": [
-          { nextState: "Start", probability: 1.0, reward: -1 }
+          { nextState: "Start", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Start|Turn Right": [
-          { nextState: "Start", probability: 1.0, reward: -1 }
+          { nextState: "Start", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Start|Wait": [
           { nextState: "Start", probability: 1.0, reward: -1 }
         ],
         "Hallway|Move Forward": [
-          { nextState: "Room A", probability: 0.4, reward: 0 },
-          { nextState: "Room B", probability: 0.4, reward: 0 },
-          { nextState: "Hallway", probability: 0.2, reward: -1 }
+          { nextState: "Room A", probability: 0.4, reward: 0, costs: { battery: 2 } },
+          { nextState: "Room B", probability: 0.4, reward: 0, costs: { battery: 2 } },
+          { nextState: "Hallway", probability: 0.2, reward: -1, costs: { battery: 2 } }
         ],
         "Hallway|Turn Left": [
-          { nextState: "Room A", probability: 0.8, reward: 0 },
-          { nextState: "Hallway", probability: 0.2, reward: -1 }
+          { nextState: "Room A", probability: 0.8, reward: 0, costs: { battery: 1 } },
+          { nextState: "Hallway", probability: 0.2, reward: -1, costs: { battery: 1 } }
         ],
         "Hallway|Turn Right": [
-          { nextState: "Room B", probability: 0.8, reward: 0 },
-          { nextState: "Hallway", probability: 0.2, reward: -1 }
+          { nextState: "Room B", probability: 0.8, reward: 0, costs: { battery: 1 } },
+          { nextState: "Hallway", probability: 0.2, reward: -1, costs: { battery: 1 } }
         ],
         "Hallway|Wait": [
           { nextState: "Hallway", probability: 1.0, reward: -1 }
         ],
         "Room A|Move Forward": [
-          { nextState: "Goal", probability: 0.6, reward: 10 },
-          { nextState: "Room A", probability: 0.4, reward: -1 }
+          { nextState: "Goal", probability: 0.6, reward: 10, costs: { battery: 2 } },
+          { nextState: "Room A", probability: 0.4, reward: -1, costs: { battery: 2 } }
         ],
         "Room A|Turn Left": [
-          { nextState: "Room A", probability: 1.0, reward: -1 }
+          { nextState: "Room A", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Room A|Turn Right": [
-          { nextState: "Room A", probability: 1.0, reward: -1 }
+          { nextState: "Room A", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Room A|Wait": [
           { nextState: "Room A", probability: 1.0, reward: -1 }
         ],
         "Room B|Move Forward": [
-          { nextState: "Goal", probability: 0.3, reward: 5 },
-          { nextState: "Room B", probability: 0.7, reward: -1 }
+          { nextState: "Goal", probability: 0.3, reward: 5, costs: { battery: 2 } },
+          { nextState: "Room B", probability: 0.7, reward: -1, costs: { battery: 2 } }
         ],
         "Room B|Turn Left": [
-          { nextState: "Room B", probability: 1.0, reward: -1 }
+          { nextState: "Room B", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Room B|Turn Right": [
-          { nextState: "Room B", probability: 1.0, reward: -1 }
+          { nextState: "Room B", probability: 1.0, reward: -1, costs: { battery: 1 } }
         ],
         "Room B|Wait": [
           { nextState: "Room B", probability: 1.0, reward: -1 }
-        ],
-        "Goal|Move Forward": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
-        ],
-        "Goal|Turn Left": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
-        ],
-        "Goal|Turn Right": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
-        ],
-        "Goal|Wait": [
-          { nextState: "Goal", probability: 1.0, reward: 0 }
         ]
-      }
+      },
+      terminalStates: ["Goal"],
+      constraints: [{ cost: "battery", budget: 4 }]
     }
   }
 ];
@@ -0,0 +1,262 @@
+import type { MDP } from "@/types/mdp";
+import { initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { policyDistribution, type SimulationPolicy } from "@/lib/sim";
+import type { StochasticPolicy } from "@/lib/stochasticPolicy";
+import { chiSquareSurvival, kolmogorovSurvival } from "@/lib/statistics";
+
+// Law of the discounted return of simulated episodes, as atoms with their probabilities
+export interface ReturnDistribution {
+  atoms: number[]; // ascending
+  probabilities: number[];
+  exact: boolean; // false when a support on the way was projected onto fewer atoms
+  mean: number;
+  std: number;
+  gamma: number;
+  maxSteps: number;
+}
+
+export interface ReturnDistributionOptions {
+  gamma?: number; // defaults to the MDP's, or 1 as in simulation
+  maxSteps?: number; // episodes are cut off after this many steps, as in simulation
+  maxAtoms?: number; // supports larger than this are projected onto this many atoms
+}
+
+export interface GoodnessOfFit {
+  bins: Array<{ x: number; count: number; expected: number }>; // the chart's histogram with expected counts
+  chiSquare: number; // over the bins, merged until each expects at least 5 episodes
+  degreesOfFreedom: number;
+  chiSquarePValue: number;
+  ksDistance: number | null; // largest gap between the sampled and exact CDFs; null for a projected law
+  ksPValue: number | null; // asymptotic; conservative when the law has atoms
+  ksCritical: number; // the gap 95% of correct samplers of this size stay below
+  samples: number;
+}
+
+type Categorical = { atoms: number[]; probabilities: number[]; approximate?: boolean };
+type Outcome = { weight: number; reward: number; nextState: string | null }; // null ends the episode
+
+const POINT_MASS_AT_ZERO: Categorical = { atoms: [0], probabilities: [1] };
+const MIN_EXPECTED = 5;
+
+// The chart's bin for `value`; the slack keeps returns that differ from an atom by
+// rounding error in the same bin as the atom
+export function histogramBin(value: number, min: number, width: number, bins: number): number {
+  return Math.min(bins - 1, Math.max(0, Math.floor((value - min) / width + 1e-9)));
+}
+
+const sameAtom = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+// Merge two ascending supports, adding the mass of equal atoms
+function mergeSupports(a: Categorical, b: Categorical): Categorical {
+  const atoms: number[] = [];
+  const probabilities: number[] = [];
+  const push = (z: number, p: number) => {
+    const last = atoms.length - 1;
+    if (last >= 0 && sameAtom(z, atoms[last])) probabilities[last] += p;
+    else {
+      atoms.push(z);
+      probabilities.push(p);
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.atoms.length || j < b.atoms.length) {
+    if (j >= b.atoms.length || (i < a.atoms.length && a.atoms[i] <= b.atoms[j])) push(a.atoms[i], a.probabilities[i++]);
+    else push(b.atoms[j], b.probabilities[j++]);
+  }
+  return { atoms, probabilities };
+}
+
+// Mixture of ascending weighted supports. Past `maxAtoms` atoms the closest neighbours
+// merge pairwise at their centre of mass until the support fits, which keeps the mean
+// and moves mass only across the smallest gaps.
+function mixture(parts: Categorical[], maxAtoms: number): Categorical {
+  let runs = parts.filter(part => part.atoms.length > 0);
+  if (runs.length === 0) return POINT_MASS_AT_ZERO;
+  while (runs.length > 1) {
+    const merged: Categorical[] = [];
+    for (let k = 0; k < runs.length; k += 2) merged.push(k + 1 < runs.length ? mergeSupports(runs[k], runs[k + 1]) : runs[k]);
+    runs = merged;
+  }
+  let { atoms, probabilities } = runs[0];
+  const approximate = atoms.length > maxAtoms || parts.some(part => part.approximate);
+  while (atoms.length > maxAtoms) {
+    const excess = atoms.length - maxAtoms;
+    const gaps = atoms.slice(1).map((z, i) => z - atoms[i]);
+    const threshold = Float64Array.from(gaps).sort()[excess - 1];
+    const mergedAtoms: number[] = [];
+    const mergedProbabilities: number[] = [];
+    let merges = 0;
+    for (let i = 0; i < atoms.length; i++) {
+      if (merges < excess && i + 1 < atoms.length && gaps[i] <= threshold) {
+        const mass = probabilities[i] + probabilities[i + 1];
+        mergedAtoms.push((probabilities[i] * atoms[i] + probabilities[i + 1] * atoms[i + 1]) / mass);
+        mergedProbabilities.push(mass);
+        merges++;
+        i++;
+      } else {
+        mergedAtoms.push(atoms[i]);
+        mergedProbabilities.push(probabilities[i]);
+      }
+    }
+    atoms = mergedAtoms;
+    probabilities = mergedProbabilities;
+  }
+  return { atoms, probabilities, approximate };
+}
+
+// Distribution of the discounted return that Monte Carlo simulation samples: the
+// policy acts for at most `maxSteps` steps from the initial distribution, collecting
+// Σ γ^t R_t, and stops early in a terminal state. A distributional Bellman backup runs
+// backwards over the steps left,
+//   η_t(s) = Σ_a π_t(a|s) Σ_s' P(s'|s,a) law(R(s,a,s') + γ Z_{t+1}(s')),   η_maxSteps = δ_0,
+// keeping each state's law as exact atoms. A support that outgrows `maxAtoms` is
+// projected onto that many atoms, so the result is categorical from then on but keeps
+// the exact mean.
+export function returnDistribution(
+  mdp: MDP,
+  policy: SimulationPolicy,
+  startState: string,
+  options: ReturnDistributionOptions = {}
+): ReturnDistribution {
+  mdp = normalizeMdp(mdp);
+  const gamma = options.gamma ?? mdp.gamma ?? 1.0;
+  const { maxSteps = 100, maxAtoms = 2000 } = options;
+  const states = mdp.states;
+
+  // π_t; only a time-indexed policy changes with the step
+  const policies: StochasticPolicy[] = [];
+  const policyAt = (step: number) => {
+    const index = policy.kind === "time-indexed" ? Math.min(step, Math.max(0, policy.policies.length - 1)) : 0;
+    policies[index] ??= policyDistribution(mdp, policy, index);
+    return policies[index];
+  };
+  // Outcomes of acting in `state` at `step`: the weight and reward of each successor
+  const outcomes = (state: string, step: number) =>
+    Object.entries(policyAt(step)[state] ?? {}).flatMap(([action, pa]): Outcome[] => {
+      if (pa <= 0) return [];
+      const transitions = transitionsFor(mdp, state, action);
+      if (transitions.length === 0) return [{ weight: pa, reward: 0, nextState: null }];
+      return transitions
+        .filter(t => t.probability > 0)
+        .map(t => ({ weight: pa * t.probability, reward: t.reward ?? 0, nextState: t.nextState }));
+    });
+
+  let next: Record<string, Categorical> = Object.fromEntries(states.map(state => [state, POINT_MASS_AT_ZERO]));
+  for (let step = maxSteps - 1; step >= 0; step--) {
+    const current: Record<string, Categorical> = {};
+    for (const state of states) {
+      // Each outcome shifts and shrinks the successor's law, which keeps it ascending
+      const parts = outcomes(state, step).map(({ weight, reward, nextState }) => {
+        const future = nextState === null ? POINT_MASS_AT_ZERO : next[nextState] ?? POINT_MASS_AT_ZERO;
+        return {
+          atoms: future.atoms.map(z => reward + gamma * z),
+          probabilities: future.probabilities.map(p => weight * p),
+          approximate: future.approximate,
+        };
+      });
+      current[state] = mixture(parts, maxAtoms);
+    }
+    next = current;
+  }
+
+  const { atoms, probabilities, approximate } = mixture(
+    initialStates(mdp, startState).map(({ state, probability }) => {
+      const law = next[state] ?? POINT_MASS_AT_ZERO;
+      return { ...law, probabilities: law.probabilities.map(p => probability * p) };
+    }),
+    maxAtoms
+  );
+  const total = probabilities.reduce((acc, p) => acc + p, 0);
+  const normalized = probabilities.map(p => p / total);
+  const mean = atoms.reduce((acc, z, i) => acc + normalized[i] * z, 0);
+  const variance = atoms.reduce((acc, z, i) => acc + normalized[i] * (z - mean) ** 2, 0);
+  return {
+    atoms,
+    probabilities: normalized,
+    exact: !approximate,
+    mean,
+    std: Math.sqrt(variance),
+    gamma,
+    maxSteps,
+  };
+}
+
+// Largest gap between the CDF of the ascending `sorted` samples and the distribution's.
+// The sup is attained next to a jump of either CDF; values within rounding error of
+// an atom count as equal to it.
+function kolmogorovSmirnovDistance(sorted: number[], distribution: ReturnDistribution): number {
+  const points = [...new Set([...sorted, ...distribution.atoms])].sort((a, b) => a - b);
+  const tolerance = (x: number) => 1e-9 * Math.max(1, Math.abs(x));
+  let distance = 0;
+  let sampleIndex = 0;
+  let atomIndex = 0;
+  let sampleCdf = 0;
+  let exactCdf = 0;
+  for (const x of points) {
+    // Left limits, then the values at x
+    distance = Math.max(distance, Math.abs(sampleCdf - exactCdf));
+    while (sampleIndex < sorted.length && sorted[sampleIndex] <= x + tolerance(x)) sampleIndex++;
+    while (atomIndex < distribution.atoms.length && distribution.atoms[atomIndex] <= x + tolerance(x)) {
+      exactCdf += distribution.probabilities[atomIndex++];
+    }
+    sampleCdf = sampleIndex / sorted.length;
+    distance = Math.max(distance, Math.abs(sampleCdf - exactCdf));
+  }
+  return distance;
+}
+
+// Compare sampled returns with their exact distribution. The chi-square test uses the
+// chart's histogram bins, merging neighbours until each expects at least five
+// episodes. The Kolmogorov-Smirnov distance needs no bins but is only computed for an
+// exact law: projection moves atoms slightly, and a CDF gap right beside a heavy atom
+// would be as large as the atom. A small p-value means the samples are unlikely under
+// the model, which points at a sampling bug or at a distribution that no longer
+// matches the simulated policy and horizon.
+export function goodnessOfFit(samples: number[], distribution: ReturnDistribution, bins = 30): GoodnessOfFit {
+  const n = samples.length;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const min = sorted[0];
+  const width = (sorted[n - 1] - min) / (bins || 1) || 1;
+  const histogram = Array.from({ length: bins }, (_, i) => ({ x: min + (i + 0.5) * width, count: 0, expected: 0 }));
+  for (const value of samples) histogram[histogramBin(value, min, width, bins)].count++;
+  distribution.atoms.forEach((z, i) => {
+    histogram[histogramBin(z, min, width, bins)].expected += n * distribution.probabilities[i];
+  });
+
+  // Merge neighbouring bins left to right; a short remainder joins the last group
+  const groups: Array<{ count: number; expected: number }> = [];
+  let pending = { count: 0, expected: 0 };
+  for (const bin of histogram) {
+    pending.count += bin.count;
+    pending.expected += bin.expected;
+    if (pending.expected >= MIN_EXPECTED) {
+      groups.push(pending);
+      pending = { count: 0, expected: 0 };
+    }
+  }
+  if (groups.length === 0) {
+    groups.push(pending);
+  } else {
+    groups[groups.length - 1].count += pending.count;
+    groups[groups.length - 1].expected += pending.expected;
+  }
+  const chiSquare = groups.reduce(
+    (acc, g) => acc + (g.expected > 0 ? (g.count - g.expected) ** 2 / g.expected : g.count > 0 ? Infinity : 0),
+    0
+  );
+  const degreesOfFreedom = groups.length - 1;
+  const root = Math.sqrt(n);
+  const ksDistance = distribution.exact ? kolmogorovSmirnovDistance(sorted, distribution) : null;
+
+  return {
+    bins: histogram,
+    chiSquare,
+    degreesOfFreedom,
+    chiSquarePValue: degreesOfFreedom > 0 ? chiSquareSurvival(chiSquare, degreesOfFreedom) : 1,
+    ksDistance,
+    ksPValue: ksDistance === null ? null : kolmogorovSurvival((root + 0.12 + 0.11 / root) * ksDistance),
+    ksCritical: 1.358 / root,
+    samples: n,
+  };
+}
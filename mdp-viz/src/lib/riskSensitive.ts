@@ -0,0 +1,458 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, expectedInitialValue, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+import { evaluatePolicyExact, returnMomentsExact } from "@/lib/policyEvaluation";
+import { createRng, randomSeed, type RNG } from "@/lib/rng";
+
+export type RiskMeasure = "cvar" | "mean-variance" | "exponential-utility";
+
+// Caps on the static search: a sweep scores every other action of every state, and
+// CVaR scores each candidate on the sampled episodes it changes
+export const MAX_RISK_EPISODES = 5000;
+export const MAX_RISK_SWEEPS = 50;
+
+export interface ReturnRiskProfile {
+  mean: number; // exact
+  variance: number; // exact
+  valueAtRisk: number; // α-quantile of the sampled discounted return
+  conditionalValueAtRisk: number; // mean of the worst α share of sampled returns
+  alpha: number;
+  samples: number;
+  truncated: number; // sampled episodes cut off before reaching a terminal state
+}
+
+export interface RiskSensitiveResult extends OptimizationResult {
+  riskMeasure: RiskMeasure;
+  riskParameter: number; // α for CVaR, λ for mean-variance, β for exponential utility
+  riskValue: number; // the objective from the start: the return's CVaR or mean − λ·variance, or the nested certainty equivalent
+  risk: ReturnRiskProfile; // of the returned policy
+  riskNeutralPolicy: Record<string, string>; // maximises the expectation alone
+  riskNeutral: ReturnRiskProfile;
+  converged: boolean;
+}
+
+// Weighted outcomes of one action: the value of landing in each successor
+type Outcomes = Array<{ probability: number; value: number }>;
+
+// An action's transitions with cumulative probabilities, for sampling by one uniform draw
+interface Step {
+  cumulative: number[];
+  next: string[];
+  reward: number[];
+}
+
+// Sampled episodes on common random numbers: episode i of every policy reads its start
+// state, transitions and any random action choice from draws[i], in order. Draws are made
+// once, as far into an episode as some policy has gone, and replayed for all others.
+interface Sampler {
+  steps: Map<string, Map<string, Step>>; // state -> action -> step; empty for terminal states
+  starts: Step;
+  gamma: number;
+  maxSteps: number;
+  streams: RNG[];
+  draws: number[][];
+}
+
+// Discounted returns of every episode in order, and the episodes that act in each state
+interface SampledRun {
+  returns: number[];
+  truncated: number;
+  visits: Map<string, number[]>;
+}
+
+const mean = (outcomes: Outcomes) => outcomes.reduce((acc, o) => acc + o.probability * o.value, 0);
+
+// Expectation over the worst α share of the probability mass
+function lowerTailMean(outcomes: Outcomes, alpha: number): number {
+  let mass = 0;
+  let total = 0;
+  for (const o of [...outcomes].sort((a, b) => a.value - b.value)) {
+    const take = Math.min(o.probability, alpha - mass);
+    if (take <= 0) break;
+    total += take * o.value;
+    mass += take;
+  }
+  return mass > 0 ? total / mass : mean(outcomes);
+}
+
+// One-step risk maps ρ applied to the outcomes of an action
+function riskMap(measure: RiskMeasure | "expectation", parameter: number): (outcomes: Outcomes) => number {
+  switch (measure) {
+    case "cvar":
+      return outcomes => lowerTailMean(outcomes, parameter);
+    case "mean-variance":
+      return outcomes => {
+        const m = mean(outcomes);
+        return m - parameter * outcomes.reduce((acc, o) => acc + o.probability * (o.value - m) ** 2, 0);
+      };
+    case "exponential-utility":
+      // Certainty equivalent -(1/β) log E[exp(-βX)], shifted by the extreme value to avoid overflow
+      return outcomes => {
+        if (Math.abs(parameter) < 1e-12) return mean(outcomes);
+        const values = outcomes.map(o => o.value);
+        const shift = parameter > 0 ? Math.min(...values) : Math.max(...values);
+        const sum = outcomes.reduce((acc, o) => acc + o.probability * Math.exp(-parameter * (o.value - shift)), 0);
+        return shift - Math.log(sum) / parameter;
+      };
+    default:
+      return mean;
+  }
+}
+
+// Long enough for the discount to shrink what is left below 1e-6 of a reward
+function horizonFor(gamma: number): number {
+  return gamma < 1 ? Math.min(1000, Math.ceil(Math.log(1e-6) / Math.log(Math.max(gamma, 1e-6)))) : 1000;
+}
+
+function toStep(outcomes: Array<{ nextState: string; probability: number; reward?: number }>): Step {
+  let acc = 0;
+  return {
+    cumulative: outcomes.map(o => (acc += o.probability)),
+    next: outcomes.map(o => o.nextState),
+    reward: outcomes.map(o => o.reward ?? 0),
+  };
+}
+
+function createSampler(mdp: MDP, startState: string, gamma: number, seed: number, episodes: number): Sampler {
+  const seeds = createRng(seed);
+  const streams = Array.from({ length: Math.min(episodes, MAX_RISK_EPISODES) }, () =>
+    createRng(Math.floor(seeds() * 4294967296))
+  );
+  return {
+    steps: new Map(mdp.states.map(state => [
+      state,
+      new Map(actionsFromState(mdp, state).map(action => [action, toStep(transitionsFor(mdp, state, action))])),
+    ])),
+    starts: toStep(initialStates(mdp, startState).map(({ state, probability }) => ({ nextState: state, probability }))),
+    gamma,
+    maxSteps: horizonFor(gamma),
+    streams,
+    draws: streams.map(() => []),
+  };
+}
+
+// Index of the outcome a uniform draw lands on
+function pick(step: Step, u: number): number {
+  const r = u * step.cumulative[step.cumulative.length - 1];
+  let j = 0;
+  while (j < step.next.length - 1 && r >= step.cumulative[j]) j++;
+  return j;
+}
+
+// Episode `i` under `policy`, which takes a random action where it has none
+function replay(
+  sampler: Sampler,
+  policy: Record<string, string>,
+  i: number
+): { value: number; terminated: boolean; visited: Set<string> } {
+  const draws = sampler.draws[i];
+  let k = 0;
+  const draw = () => {
+    if (k === draws.length) draws.push(sampler.streams[i]());
+    return draws[k++];
+  };
+  let state = sampler.starts.next[pick(sampler.starts, draw())];
+  let value = 0;
+  let discount = 1;
+  const visited = new Set<string>();
+  for (let t = 0; t < sampler.maxSteps; t++) {
+    const actions = sampler.steps.get(state);
+    if (!actions || actions.size === 0) return { value, terminated: true, visited };
+    visited.add(state);
+    const chosen = policy[state];
+    let step = chosen !== undefined ? actions.get(chosen) : undefined;
+    if (!step) {
+      const available = [...actions.values()];
+      step = available[Math.floor(draw() * available.length)];
+    }
+    if (step.next.length === 0) return { value, terminated: true, visited };
+    const j = pick(step, draw());
+    value += discount * step.reward[j];
+    discount *= sampler.gamma;
+    state = step.next[j];
+  }
+  return { value, terminated: (sampler.steps.get(state)?.size ?? 0) === 0, visited };
+}
+
+function sampleRun(sampler: Sampler, policy: Record<string, string>): SampledRun {
+  const returns: number[] = [];
+  const visits = new Map<string, number[]>();
+  let truncated = 0;
+  sampler.streams.forEach((_, i) => {
+    const episode = replay(sampler, policy, i);
+    returns.push(episode.value);
+    if (!episode.terminated) truncated++;
+    for (const state of episode.visited) {
+      const episodes = visits.get(state);
+      if (episodes) episodes.push(i);
+      else visits.set(state, [i]);
+    }
+  });
+  return { returns, truncated, visits };
+}
+
+// The run of `policy` from that of `base`: only episodes acting in a state where the two
+// policies differ can change, since up to then both read the same draws
+function resampleRun(sampler: Sampler, policy: Record<string, string>, base: Record<string, string>, run: SampledRun): number[] {
+  const returns = [...run.returns];
+  const affected = new Set(
+    [...run.visits.keys()].filter(state => policy[state] !== base[state]).flatMap(state => run.visits.get(state)!)
+  );
+  for (const i of affected) returns[i] = replay(sampler, policy, i).value;
+  return returns;
+}
+
+// VaR and CVaR at level α of the sampled returns. CVaR is the Rockafellar-Uryasev value
+//   CVaR_α(Z) = max_η η − E[(η − Z)⁺] / α,
+// whose maximum is attained at η = VaR_α, the α-quantile
+function tailRisk(returns: number[], alpha: number): { valueAtRisk: number; conditionalValueAtRisk: number } {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const eta = sorted[Math.max(1, Math.ceil(alpha * sorted.length)) - 1];
+  const shortfall = sorted.reduce((acc, z) => acc + Math.max(0, eta - z), 0) / sorted.length;
+  return { valueAtRisk: eta, conditionalValueAtRisk: eta - shortfall / alpha };
+}
+
+function riskProfile(
+  mdp: MDP,
+  policy: Record<string, string>,
+  startState: string,
+  alpha: number,
+  sampler: Sampler
+): ReturnRiskProfile {
+  const { returns, truncated } = sampleRun(sampler, policy);
+  let moments: { mean: number; variance: number };
+  try {
+    const { mean, variance } = returnMomentsExact(mdp, policy, startState, { gamma: sampler.gamma });
+    moments = { mean, variance };
+  } catch {
+    // An improper policy with γ = 1 has no finite moments; fall back to the samples
+    const sampleMean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+    moments = { mean: sampleMean, variance: returns.reduce((acc, r) => acc + (r - sampleMean) ** 2, 0) / returns.length };
+  }
+  return { ...moments, ...tailRisk(returns, alpha), alpha, samples: returns.length, truncated };
+}
+
+// Discounted returns sampled under `policy` with their VaR and CVaR at level α,
+// alongside the exact mean and variance. The same seed samples the same episodes
+// for every policy. At most MAX_RISK_EPISODES are sampled.
+export function returnRiskProfile(
+  mdp: MDP,
+  policy: Record<string, string>,
+  startState: string,
+  options: { gamma?: number; alpha?: number; episodes?: number; seed?: number } = {}
+): ReturnRiskProfile {
+  mdp = normalizeMdp(mdp);
+  const gamma = options.gamma ?? mdp.gamma ?? 0.9;
+  const { alpha = 0.1, episodes = 2000, seed = randomSeed() } = options;
+  return riskProfile(mdp, policy, startState, alpha, createSampler(mdp, startState, gamma, seed, episodes));
+}
+
+// Coordinate ascent over stationary deterministic policies: switch one state's action
+// at a time and keep the switch when `score` improves, until a sweep over all states
+// finds none. It starts from the best of `starts`, so it never ends below any of them.
+// `score` is told the current policy a candidate departs from, when there is one.
+function policySearch(
+  mdp: MDP,
+  starts: Record<string, string>[],
+  score: (policy: Record<string, string>, current?: Record<string, string>) => number,
+  maxSweeps: number,
+  onSweep: (sweep: number, policy: Record<string, string>, gain: number) => void
+): { policy: Record<string, string>; value: number; sweeps: number; converged: boolean } {
+  const cache = new Map<string, number>();
+  const choices = mdp.states
+    .map(state => ({ state, actions: actionsFromState(mdp, state) }))
+    .filter(({ actions }) => actions.length > 1);
+  const scoreOf = (policy: Record<string, string>, current?: Record<string, string>) => {
+    const key = mdp.states.map(state => policy[state] ?? "").join("\u0000");
+    let value = cache.get(key);
+    if (value === undefined) {
+      value = score(policy, current);
+      cache.set(key, value);
+    }
+    return value;
+  };
+
+  let policy = { ...starts[0] };
+  let value = scoreOf(policy);
+  for (const start of starts.slice(1)) {
+    const candidate = scoreOf(start);
+    if (candidate > value) {
+      policy = { ...start };
+      value = candidate;
+    }
+  }
+
+  let sweeps = 0;
+  let converged = false;
+  while (sweeps < maxSweeps) {
+    sweeps++;
+    const before = value;
+    for (const { state, actions } of choices) {
+      for (const action of actions) {
+        if (action === policy[state]) continue;
+        const candidate = { ...policy, [state]: action };
+        const candidateValue = scoreOf(candidate, policy);
+        if (candidateValue > value + 1e-9 * Math.max(1, Math.abs(value))) {
+          policy = candidate;
+          value = candidateValue;
+        }
+      }
+    }
+    onSweep(sweeps, policy, value - before);
+    if (value === before) {
+      converged = true;
+      break;
+    }
+  }
+  return { policy, value, sweeps, converged };
+}
+
+// Risk-sensitive planning. CVaR at level α and mean − λ·variance are static: they score
+// the whole discounted return from the start, CVaR on sampled episodes that every
+// candidate replays and the mean and variance exactly. Their optima may need to
+// remember the reward collected so far, so the planner searches the stationary
+// deterministic policies the simulator can follow, starting from the risk-neutral
+// optimum and from a nested solution that applies the measure to every step's outcome,
+// for at most MAX_RISK_SWEEPS sweeps.
+// Exponential utility with risk aversion β is nested,
+//   V(s) = max_a -(1/β) log E[exp(-β(R(s,a,s') + γV(s')))],
+// which is exactly its static value when γ = 1. VaR, CVaR and variance of the whole
+// return are reported under the returned policy and under the risk-neutral one.
+export function riskSensitivePlanning(
+  measure: RiskMeasure,
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  callback?: OptimizationCallback
+): RiskSensitiveResult {
+  mdp = normalizeMdp(mdp);
+  const { maxIterations = 1000, tolerance = 1e-6, gamma = mdp.gamma ?? 0.9 } = config;
+  const alpha = Math.min(1, Math.max(1e-3, config.riskLevel ?? 0.1));
+  const parameter = measure === "cvar" ? alpha : config.riskAversion ?? 0.1;
+  const states = mdp.states;
+  const nested = measure === "exponential-utility";
+
+  const solve = (rho: (outcomes: Outcomes) => number, report: boolean) => {
+    let V: Record<string, number> = Object.fromEntries(states.map(state => [state, 0]));
+    const policy: Record<string, string> = {};
+    const convergenceHistory: number[] = [];
+    const policyHistory: Record<string, string>[] = [];
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+      iterations++;
+      const next: Record<string, number> = {};
+      for (const state of states) {
+        let best = -Infinity;
+        for (const action of actionsFromState(mdp, state)) {
+          const value = rho(transitionsFor(mdp, state, action).map(t => ({
+            probability: t.probability,
+            value: (t.reward ?? 0) + gamma * (V[t.nextState] ?? 0),
+          })));
+          if (value > best) {
+            best = value;
+            policy[state] = action;
+          }
+        }
+        next[state] = best === -Infinity ? 0 : best;
+      }
+      const delta = Math.max(0, ...states.map(state => Math.abs(next[state] - V[state])));
+      V = next;
+      if (report) {
+        convergenceHistory.push(delta);
+        policyHistory.push({ ...policy });
+        callback?.onProgress?.({
+          iteration: iterations,
+          delta,
+          valueFunction: { ...V },
+          policy: { ...policy },
+          method: "Risk-Sensitive Value Iteration"
+        });
+      }
+      if (delta < tolerance) {
+        converged = true;
+        break;
+      }
+    }
+    return { V, policy: { ...policy }, iterations, converged, convergenceHistory, policyHistory };
+  };
+
+  const risky = solve(riskMap(measure, parameter), nested);
+  const neutral = solve(riskMap("expectation", 0), false);
+  const sampler = createSampler(mdp, startState, gamma, config.seed ?? randomSeed(), config.episodes ?? 2000);
+  const profile = (policy: Record<string, string>) => riskProfile(mdp, policy, startState, alpha, sampler);
+  // Expected values of a policy, or the nested values when it has none
+  const valuesOf = (policy: Record<string, string>) => {
+    try {
+      return evaluatePolicyExact(mdp, policy, startState, { gamma }).valueFunction;
+    } catch {
+      return risky.V;
+    }
+  };
+
+  if (nested) {
+    const riskValue = expectedInitialValue(mdp, risky.V, startState);
+    return {
+      bestPolicy: risky.policy,
+      bestValue: riskValue,
+      iterations: risky.iterations,
+      convergenceHistory: risky.convergenceHistory,
+      policyHistory: risky.policyHistory,
+      valueFunction: risky.V,
+      riskMeasure: measure,
+      riskParameter: parameter,
+      riskValue,
+      risk: profile(risky.policy),
+      riskNeutralPolicy: neutral.policy,
+      riskNeutral: profile(neutral.policy),
+      converged: risky.converged,
+    };
+  }
+
+  // CVaR keeps the run of the current policy and replays only the episodes a candidate changes
+  let base: { policy: Record<string, string>; run: SampledRun } | null = null;
+  const score = measure === "cvar"
+    ? (policy: Record<string, string>, current?: Record<string, string>) => {
+      if (!current) return tailRisk(sampleRun(sampler, policy).returns, alpha).conditionalValueAtRisk;
+      if (base?.policy !== current) base = { policy: current, run: sampleRun(sampler, current) };
+      return tailRisk(resampleRun(sampler, policy, current, base.run), alpha).conditionalValueAtRisk;
+    }
+    : (policy: Record<string, string>) => {
+      try {
+        const { mean, variance } = returnMomentsExact(mdp, policy, startState, { gamma });
+        return mean - parameter * variance;
+      } catch {
+        return -Infinity; // no finite moments
+      }
+    };
+  const convergenceHistory: number[] = [];
+  const policyHistory: Record<string, string>[] = [];
+  const sweeps = Math.min(maxIterations, MAX_RISK_SWEEPS);
+  const search = policySearch(mdp, [neutral.policy, risky.policy], score, sweeps, (sweep, policy, gain) => {
+    convergenceHistory.push(gain);
+    policyHistory.push({ ...policy });
+    callback?.onProgress?.({
+      iteration: sweep,
+      delta: gain,
+      valueFunction: valuesOf(policy),
+      policy: { ...policy },
+      method: "Risk-Sensitive Policy Search"
+    });
+  });
+
+  return {
+    bestPolicy: search.policy,
+    bestValue: search.value,
+    iterations: search.sweeps,
+    convergenceHistory,
+    policyHistory,
+    valueFunction: valuesOf(search.policy),
+    riskMeasure: measure,
+    riskParameter: parameter,
+    riskValue: search.value,
+    risk: profile(search.policy),
+    riskNeutralPolicy: neutral.policy,
+    riskNeutral: profile(neutral.policy),
+    converged: search.converged,
+  };
+}
@@ -0,0 +1,26 @@
+// Pluggable random number generators for simulation and learning.
+// Every sampler takes an `RNG` so runs can be reproduced from a seed.
+
+export type RNG = () => number; // uniform in [0, 1)
+
+// Mulberry32: small, fast 32-bit PRNG that is good enough for Monte Carlo work
+export function createRng(seed: number): RNG {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Use a seeded generator when a seed is given, otherwise fall back to Math.random
+export function rngFromSeed(seed?: number): RNG {
+  return seed === undefined ? Math.random : createRng(seed);
+}
+
+// Draw a fresh 32-bit seed to show the user before a run
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,160 @@
+import type { MDP, Transition, UncertaintySet } from "@/types/mdp";
+import { actionsFromState, expectedInitialValue, normalizeMdp, transitionsFor } from "@/types/mdp";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+export interface RobustValueIterationResult extends OptimizationResult {
+  worstCaseValue: number; // the robust policy's value from the start against the worst model in the sets
+  nominalValue: number; // the robust policy's value from the start under the nominal model
+  nominalValueFunction: Record<string, number>; // the robust policy under the nominal model
+  nominalPolicy: Record<string, string>; // optimal for the nominal model alone
+  nominalPolicyValue: number; // ...its value under the nominal model
+  nominalPolicyWorstCase: number; // ...and against the worst model
+  worstCaseTransitions: Record<string, number[]>; // key: `${state}|${action}`, the adversary's row for each robust choice
+  uncertainRows: number; // rows with an uncertainty set, declared or from the default radius
+  converged: boolean;
+}
+
+// The distribution in `set` that minimises Σ p_j worth_j over the row's outcomes.
+// Mass only moves between the outcomes the row already lists.
+export function worstCaseDistribution(set: UncertaintySet, transitions: Transition[], worth: number[]): number[] {
+  const order = transitions.map((_, j) => j).sort((a, b) => worth[a] - worth[b]);
+  if (set.type === "interval") {
+    // Start every outcome at its lower bound and pour the rest into the worst outcomes first
+    const p = set.bounds.map(([lower]) => lower);
+    let remaining = 1 - p.reduce((acc, x) => acc + x, 0);
+    for (const j of order) {
+      const add = Math.min(set.bounds[j][1] - p[j], Math.max(0, remaining));
+      p[j] += add;
+      remaining -= add;
+    }
+    return p;
+  }
+  // L1 ball: move up to radius / 2 onto the worst outcome, taken from the best ones
+  const p = transitions.map(t => t.probability);
+  const worst = order[0];
+  let moved = Math.min(set.radius / 2, 1 - p[worst]);
+  p[worst] += moved;
+  for (const j of [...order].reverse()) {
+    if (moved <= 0) break;
+    if (j === worst) continue;
+    const take = Math.min(p[j], moved);
+    p[j] -= take;
+    moved -= take;
+  }
+  return p;
+}
+
+// Robust value iteration for (s,a)-rectangular uncertainty: each row may be replaced by
+// any distribution in its set, chosen by an adversary after the agent acts, so
+//   V(s) = max_a min_{P ∈ U(s,a)} Σ P(s') [R(s,a,s') + γV(s')]
+// Rows without a declared set use an L1 ball of `uncertaintyRadius` (0 keeps them
+// nominal). The result also solves the nominal model so the price of robustness and
+// the nominal policy's exposure can be compared.
+export function robustValueIteration(
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  callback?: OptimizationCallback
+): RobustValueIterationResult {
+  mdp = normalizeMdp(mdp);
+  const { maxIterations = 1000, tolerance = 1e-6, gamma = mdp.gamma ?? 0.9, uncertaintyRadius = 0 } = config;
+  const states = mdp.states;
+
+  const setFor = (state: string, action: string): UncertaintySet | null => {
+    const declared = mdp.uncertainty?.[`${state}|${action}`];
+    if (declared) return declared;
+    return uncertaintyRadius > 0 ? { type: "l1", radius: uncertaintyRadius } : null;
+  };
+  const rowFor = (V: Record<string, number>, state: string, action: string, adversarial: boolean) => {
+    const transitions = transitionsFor(mdp, state, action);
+    const worth = transitions.map(t => (t.reward ?? 0) + gamma * (V[t.nextState] ?? 0));
+    const set = adversarial ? setFor(state, action) : null;
+    const p = set ? worstCaseDistribution(set, transitions, worth) : transitions.map(t => t.probability);
+    return { p, value: p.reduce((acc, pj, j) => acc + pj * worth[j], 0) };
+  };
+
+  // Bellman sweeps: maximise over actions unless `policy` fixes them
+  const solve = (adversarial: boolean, policy?: Record<string, string>, report = false) => {
+    let V: Record<string, number> = Object.fromEntries(states.map(state => [state, 0]));
+    const greedy: Record<string, string> = {};
+    const convergenceHistory: number[] = [];
+    const policyHistory: Record<string, string>[] = [];
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+      iterations++;
+      const next: Record<string, number> = {};
+      for (const state of states) {
+        const actions = policy ? (policy[state] ? [policy[state]] : []) : actionsFromState(mdp, state);
+        if (actions.length === 0) {
+          next[state] = 0;
+          continue;
+        }
+        let best = -Infinity;
+        for (const action of actions) {
+          const { value } = rowFor(V, state, action, adversarial);
+          if (value > best) {
+            best = value;
+            greedy[state] = action;
+          }
+        }
+        next[state] = best;
+      }
+      const delta = Math.max(0, ...states.map(state => Math.abs(next[state] - V[state])));
+      V = next;
+      if (report) {
+        convergenceHistory.push(delta);
+        policyHistory.push({ ...greedy });
+        callback?.onProgress?.({
+          iteration: iterations,
+          delta,
+          valueFunction: { ...V },
+          policy: { ...greedy },
+          method: "Robust Value Iteration"
+        });
+      }
+      if (delta < tolerance) {
+        converged = true;
+        break;
+      }
+    }
+    return { V, policy: { ...greedy }, iterations, converged, convergenceHistory, policyHistory };
+  };
+
+  const robust = solve(true, undefined, true);
+  const bestPolicy = robust.policy;
+  const nominalUnderRobust = solve(false, bestPolicy);
+  const nominal = solve(false);
+  const nominalWorstCase = solve(true, nominal.policy);
+
+  const worstCaseTransitions: Record<string, number[]> = {};
+  let uncertainRows = 0;
+  for (const state of states) {
+    for (const action of actionsFromState(mdp, state)) {
+      if (!setFor(state, action)) continue;
+      uncertainRows++;
+      if (bestPolicy[state] === action) {
+        worstCaseTransitions[`${state}|${action}`] = rowFor(robust.V, state, action, true).p;
+      }
+    }
+  }
+
+  const worstCaseValue = expectedInitialValue(mdp, robust.V, startState);
+  return {
+    bestPolicy,
+    bestValue: worstCaseValue,
+    iterations: robust.iterations,
+    convergenceHistory: robust.convergenceHistory,
+    policyHistory: robust.policyHistory,
+    valueFunction: robust.V,
+    worstCaseValue,
+    nominalValue: expectedInitialValue(mdp, nominalUnderRobust.V, startState),
+    nominalValueFunction: nominalUnderRobust.V,
+    nominalPolicy: nominal.policy,
+    nominalPolicyValue: expectedInitialValue(mdp, nominal.V, startState),
+    nominalPolicyWorstCase: expectedInitialValue(mdp, nominalWorstCase.V, startState),
+    worstCaseTransitions,
+    uncertainRows,
+    converged: robust.converged,
+  };
+}
@@ -0,0 +1,288 @@
+import type { MDP, Transition } from "@/types/mdp";
+import { actionsFromState, expectedInitialValue, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { valueIteration } from "@/lib/optimizer";
+import { discountedVisitsExact, evaluatePolicyExact } from "@/lib/policyEvaluation";
+
+export interface ParameterSensitivity {
+  id: string;
+  kind: "probability" | "reward";
+  layer?: "transition" | "state" | "action" | "terminal"; // which reward layer a reward belongs to
+  label: string;
+  state: string;
+  action?: string;
+  nextState?: string;
+  index?: number; // position in transitions[`${state}|${action}`]
+  value: number;
+  derivative: number; // dV*(start)/dθ with the optimal policy held fixed
+  swing?: { delta: number; low: number; high: number }; // exact change in V*(start), re-optimised, at θ - delta and θ + delta
+}
+
+export interface PolicyFlip {
+  state: string;
+  action: string; // the optimal action
+  gap: number; // Q(s, action) - Q(s, runner-up); 0 means tied
+  rewardFlip: { action: string; change: number } | null; // raise this action's expected reward by `change` to tie
+  // move `shift` probability from the `from` outcomes to `to` under this action to tie
+  probabilityFlip: { action: string; shift: number; from: string[]; to: string } | null;
+}
+
+export interface SensitivityResult {
+  startValue: number;
+  policy: Record<string, string>;
+  valueFunction: Record<string, number>;
+  visits: Record<string, number>; // expected discounted visits from the start
+  parameters: ParameterSensitivity[]; // by decreasing |derivative|
+  flips: PolicyFlip[];
+  tiedStates: string[]; // the derivatives are one-sided where the optimum is not unique
+  fixedOutcomes: number; // probabilities of 1, which no simplex-preserving change can raise
+}
+
+export interface SensitivityOptions {
+  gamma?: number;
+  probabilityDelta?: number; // size of the probability changes in the swings
+  rewardDelta?: number; // size of the reward changes in the swings
+  swingCount?: number; // how many top-ranked parameters to re-optimise at ±delta
+}
+
+const TIE_TOLERANCE = 1e-9;
+
+// Optimal policy and its exact values: value iteration to a tight tolerance, then an
+// exact solve so that small changes in the model are not lost in iteration error
+function solveOptimal(mdp: MDP, startState: string, gamma: number) {
+  const { bestPolicy } = valueIteration(mdp, { gamma, tolerance: 1e-10, maxIterations: 100000 });
+  return { policy: bestPolicy, ...evaluatePolicyExact(mdp, bestPolicy, startState, { gamma }) };
+}
+
+// A copy of the model with one parameter moved by `delta`. A probability rises (or
+// falls) by `delta` and the other outcomes of the same action absorb the difference in
+// proportion to their size, so the distribution still sums to one.
+function perturb(mdp: MDP, parameter: ParameterSensitivity, delta: number): MDP {
+  const key = `${parameter.state}|${parameter.action}`;
+  switch (parameter.kind === "probability" ? "probability" : parameter.layer) {
+    case "probability": {
+      const transitions = mdp.transitions[key] as Transition[];
+      const p = transitions[parameter.index!].probability;
+      const next = Math.min(1, Math.max(0, p + delta));
+      const scale = (1 - next) / (1 - p);
+      return {
+        ...mdp,
+        transitions: {
+          ...mdp.transitions,
+          [key]: transitions.map((t, j) => ({ ...t, probability: j === parameter.index ? next : t.probability * scale })),
+        },
+      };
+    }
+    case "transition": {
+      const transitions = mdp.transitions[key] as Transition[];
+      return {
+        ...mdp,
+        transitions: {
+          ...mdp.transitions,
+          [key]: transitions.map((t, j) => (j === parameter.index ? { ...t, reward: (t.reward ?? 0) + delta } : t)),
+        },
+      };
+    }
+    case "state":
+      return { ...mdp, stateRewards: { ...mdp.stateRewards, [parameter.state]: parameter.value + delta } };
+    case "action":
+      return { ...mdp, actionRewards: { ...mdp.actionRewards, [key]: parameter.value + delta } };
+    case "terminal":
+      return { ...mdp, terminalRewards: { ...mdp.terminalRewards, [parameter.state]: parameter.value + delta } };
+    default:
+      return mdp;
+  }
+}
+
+// Smallest shift of probability mass between an action's existing outcomes that raises
+// its Q-value by `gap`: move mass from the worst outcomes to the best one
+function cheapestShift(outcomes: Array<{ nextState: string; probability: number; worth: number }>, gap: number) {
+  const best = outcomes.reduce((a, b) => (b.worth > a.worth ? b : a));
+  let needed = gap;
+  let shift = 0;
+  const from: string[] = [];
+  for (const outcome of [...outcomes].sort((a, b) => a.worth - b.worth)) {
+    if (needed <= TIE_TOLERANCE) break;
+    const gain = best.worth - outcome.worth;
+    if (gain <= 0) break;
+    const moved = Math.min(outcome.probability, needed / gain);
+    if (moved <= 0) continue;
+    shift += moved;
+    needed -= moved * gain;
+    from.push(outcome.nextState);
+  }
+  return needed > TIE_TOLERANCE ? null : { shift, from, to: best.nextState };
+}
+
+// First-order sensitivity of the optimal start value to every transition probability
+// and reward. With the optimal policy π held fixed (the envelope theorem makes this
+// exact for small changes when π is unique), V(start) = Σ_s d(s) r_π(s), where d are
+// the discounted visits from the start, so
+//   dV/dR(s,a,s') = d(s) P(s'|s,a)                        when π(s) = a
+//   dV/dP(s'|s,a) = d(s) [g(s') - Σ_{j≠s'} P(j|s,a) g(j) / (1 - P(s'|s,a))]
+// with g(j) = R(s,a,j) + γV(j), for a rise in P(s'|s,a) taken from the other outcomes
+// in proportion. The top-ranked parameters are also moved by ±delta and re-optimised,
+// which captures policy changes the derivative cannot see.
+export function sensitivityAnalysis(
+  mdp: MDP,
+  startState: string,
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const gamma = options.gamma ?? mdp.gamma ?? 0.9;
+  const { probabilityDelta = 0.05, rewardDelta = 1, swingCount = 10 } = options;
+  const normalized = normalizeMdp(mdp);
+  const { policy, valueFunction, startValue } = solveOptimal(mdp, startState, gamma);
+  const visits = discountedVisitsExact(normalized, policy, startState, { gamma });
+
+  const worth = (t: Transition) => (t.reward ?? 0) + gamma * (valueFunction[t.nextState] ?? 0);
+  const q = (state: string, action: string) =>
+    transitionsFor(normalized, state, action).reduce((acc, t) => acc + t.probability * worth(t), 0);
+
+  const parameters: ParameterSensitivity[] = [];
+  let fixedOutcomes = 0;
+  for (const [key, raw] of Object.entries(mdp.transitions)) {
+    const [state, action] = key.split("|");
+    const outcomes = raw as Transition[];
+    // Terminal states keep no transitions once normalised; nothing here can matter
+    const folded = transitionsFor(normalized, state, action);
+    const onPolicy = policy[state] === action && folded.length === outcomes.length;
+    const weight = onPolicy ? visits[state] ?? 0 : 0;
+    const duplicated = new Set(outcomes.map(t => t.nextState)).size < outcomes.length;
+
+    outcomes.forEach((t, i) => {
+      const name = duplicated ? `${t.nextState} #${i + 1}` : t.nextState;
+      parameters.push({
+        id: `reward|${key}|${i}`,
+        kind: "reward",
+        layer: "transition",
+        label: `R(${state}, ${action} → ${name})`,
+        state,
+        action,
+        nextState: t.nextState,
+        index: i,
+        value: t.reward ?? 0,
+        derivative: weight * t.probability,
+      });
+      if (t.probability >= 1 - TIE_TOLERANCE) {
+        fixedOutcomes++;
+        return;
+      }
+      const others = folded.reduce((acc, u, j) => (j === i ? acc : acc + u.probability * worth(u)), 0);
+      parameters.push({
+        id: `probability|${key}|${i}`,
+        kind: "probability",
+        label: `P(${name} | ${state}, ${action})`,
+        state,
+        action,
+        nextState: t.nextState,
+        index: i,
+        value: t.probability,
+        derivative: onPolicy ? weight * (worth(folded[i]) - others / (1 - t.probability)) : 0,
+      });
+    });
+  }
+
+  // Mass of the policy's transitions from `state`, which scales R(s) and R(s,a)
+  const policyMass = (state: string) =>
+    transitionsFor(normalized, state, policy[state] ?? "").reduce((acc, t) => acc + t.probability, 0);
+  for (const [state, value] of Object.entries(mdp.stateRewards ?? {})) {
+    parameters.push({
+      id: `state|${state}`,
+      kind: "reward",
+      layer: "state",
+      label: `R(${state})`,
+      state,
+      value,
+      derivative: policy[state] ? (visits[state] ?? 0) * policyMass(state) : 0,
+    });
+  }
+  for (const [key, value] of Object.entries(mdp.actionRewards ?? {})) {
+    const [state, action] = key.split("|");
+    parameters.push({
+      id: `action|${key}`,
+      kind: "reward",
+      layer: "action",
+      label: `R(${state}, ${action})`,
+      state,
+      action,
+      value,
+      derivative: policy[state] === action ? (visits[state] ?? 0) * policyMass(state) : 0,
+    });
+  }
+  for (const [terminal, value] of Object.entries(mdp.terminalRewards ?? {})) {
+    // Collected on arrival: weight every arrival by the visits to where it came from
+    const arrivals = Object.entries(policy).reduce(
+      (acc, [state, action]) => acc + (visits[state] ?? 0) * transitionsFor(normalized, state, action)
+        .filter(t => t.nextState === terminal)
+        .reduce((sum, t) => sum + t.probability, 0),
+      0
+    );
+    parameters.push({
+      id: `terminal|${terminal}`,
+      kind: "reward",
+      layer: "terminal",
+      label: `R(arrive ${terminal})`,
+      state: terminal,
+      value,
+      derivative: arrivals,
+    });
+  }
+
+  parameters.sort((a, b) => Math.abs(b.derivative) - Math.abs(a.derivative));
+
+  for (const parameter of parameters.slice(0, swingCount)) {
+    const delta = parameter.kind === "probability" ? probabilityDelta : rewardDelta;
+    const moved = (d: number) => {
+      try {
+        return solveOptimal(perturb(mdp, parameter, d), startState, gamma).startValue - startValue;
+      } catch {
+        return NaN;
+      }
+    };
+    parameter.swing = { delta, low: moved(-delta), high: moved(delta) };
+  }
+
+  const flips: PolicyFlip[] = [];
+  const tiedStates: string[] = [];
+  for (const state of normalized.states) {
+    const actions = actionsFromState(normalized, state);
+    const action = policy[state];
+    if (actions.length < 2 || action === undefined) continue;
+    const best = q(state, action);
+    let gap = Infinity;
+    let rewardFlip: PolicyFlip["rewardFlip"] = null;
+    let probabilityFlip: PolicyFlip["probabilityFlip"] = null;
+    for (const alternative of actions) {
+      if (alternative === action) continue;
+      const deficit = Math.max(0, best - q(state, alternative));
+      if (deficit < gap) {
+        gap = deficit;
+        rewardFlip = { action: alternative, change: deficit };
+      }
+      const transitions = transitionsFor(normalized, state, alternative);
+      const duplicated = new Set(transitions.map(t => t.nextState)).size < transitions.length;
+      const outcomes = transitions.map((t, i) => ({
+        nextState: duplicated ? `${t.nextState} #${i + 1}` : t.nextState,
+        probability: t.probability,
+        worth: worth(t),
+      }));
+      const shift = outcomes.length > 0 ? cheapestShift(outcomes, deficit) : null;
+      if (shift && (!probabilityFlip || shift.shift < probabilityFlip.shift)) {
+        probabilityFlip = { action: alternative, ...shift };
+      }
+    }
+    if (gap <= TIE_TOLERANCE * Math.max(1, Math.abs(best))) tiedStates.push(state);
+    flips.push({ state, action, gap, rewardFlip, probabilityFlip });
+  }
+  flips.sort((a, b) => a.gap - b.gap);
+
+  return {
+    startValue: expectedInitialValue(normalized, valueFunction, startState),
+    policy,
+    valueFunction,
+    visits,
+    parameters,
+    flips,
+    tiedStates,
+    fixedOutcomes,
+  };
+}
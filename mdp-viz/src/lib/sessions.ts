@@ -0,0 +1,105 @@
+import type { MDP } from "@/types/mdp";
+import type { MonteCarloSummary } from "@/lib/sim";
+import type { AgentAlgorithm, OptimizationConfig, OptimizationResult, RobustOptimizationResult } from "@/lib/optimizer";
+
+// Everything needed to put the workspace back exactly as it was
+export interface SessionData {
+  mdp: MDP | null;
+  loadedPreset: string | null;
+  settings: {
+    startState: string;
+    episodes: number;
+    maxSteps: number;
+    bins: number;
+    seed: number;
+    targetHalfWidth?: number | null; // adaptive simulation; absent in older sessions
+  };
+  result: MonteCarloSummary | null;
+  resultSeed: number | null;
+  optimizationResult: OptimizationResult | RobustOptimizationResult | null; // includes policyHistory
+  optimizerSettings?: { algorithm: AgentAlgorithm; config: OptimizationConfig } | null; // absent in older sessions
+  optimizedWith?: string | null; // the algorithm behind optimizationResult, when known
+}
+
+export interface Session extends SessionData {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = "mdp-viz";
+const DB_VERSION = 1;
+const STORE = "sessions";
+const ACTIVE_KEY = "mdp-viz:active-session";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isSessionStorageAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+// Most recently updated first
+export async function listSessions(): Promise<Session[]> {
+  const sessions = await withStore<Session[]>("readonly", store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getSession(id: string): Promise<Session | undefined> {
+  return withStore<Session | undefined>("readonly", store => store.get(id));
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  await withStore("readwrite", store => store.put(session));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+}
+
+export function createSession(name: string, data: SessionData): Session {
+  const now = Date.now();
+  const id = typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${now}-${Math.random().toString(36).slice(2)}`;
+  return { ...data, id, name, createdAt: now, updatedAt: now };
+}
+
+// The last session the user worked in, restored on the next visit
+export function getActiveSessionId(): string | null {
+  return typeof localStorage === "undefined" ? null : localStorage.getItem(ACTIVE_KEY);
+}
+
+export function setActiveSessionId(id: string | null) {
+  if (typeof localStorage === "undefined") return;
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+}
@@ -1,19 +1,82 @@
 import type { MDP } from "@/types/mdp";
-import { actionsFromState, transitionsFor } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import type { RNG } from "@/lib/rng";
+import { isStochasticPolicy, type Policy, type StochasticPolicy } from "@/lib/stochasticPolicy";
+import { normalQuantile, quantile, type ConfidenceInterval } from "@/lib/statistics";
 
 export type EpisodeResult = {
-  totalReward: number;
+  totalReward: number; // discounted by the MDP's gamma
+  undiscountedReward: number;
   steps: number;
-  terminal: string;
+  terminal: string; // final state; only a true terminal when `terminated` is set
+  terminated: boolean; // false when the episode was cut off at maxSteps
   visited: Record<string, number>;
   path: string[];
   actions: string[];
 };
 
+// How the simulated agent picks its action in each state. `label` names the
+// policy wherever results are shown; describePolicy supplies a default.
+export type SimulationPolicy = { label?: string } & (
+  | { kind: "random" }
+  | { kind: "deterministic"; policy: Record<string, string> } // state -> action
+  | { kind: "time-indexed"; policies: Record<string, string>[] } // step -> state -> action; the last entry covers later steps
+  | { kind: "stochastic"; probabilities: StochasticPolicy }
+  | { kind: "epsilon-greedy"; qTable: Record<string, Record<string, number>>; epsilon: number }
+  | { kind: "softmax"; qTable: Record<string, Record<string, number>>; temperature: number }
+);
+
+export const randomPolicy: SimulationPolicy = { kind: "random" };
+
+// Simulate a stationary policy in whichever form it comes
+export function simulationPolicyFor(policy: Policy, label?: string): SimulationPolicy {
+  return isStochasticPolicy(policy)
+    ? { kind: "stochastic", probabilities: policy, label }
+    : { kind: "deterministic", policy, label };
+}
+
+export function describePolicy(policy: SimulationPolicy): string {
+  if (policy.label) return policy.label;
+  switch (policy.kind) {
+    case "random":
+      return "Uniform random";
+    case "deterministic":
+      return "Deterministic policy";
+    case "time-indexed":
+      return `Time-indexed policy (H = ${policy.policies.length})`;
+    case "stochastic":
+      return "Stochastic policy";
+    case "epsilon-greedy":
+      return `ε-greedy (ε = ${policy.epsilon})`;
+    case "softmax":
+      return `Softmax (T = ${policy.temperature})`;
+  }
+}
+
+export type MonteCarloIntervals = {
+  level: number; // confidence level of every interval
+  resamples: number; // bootstrap resamples behind the bounds
+  totalReward: ConfidenceInterval;
+  steps: ConfidenceInterval;
+  terminal: Record<string, ConfidenceInterval>; // share of episodes absorbed in each terminal state
+};
+
+// Sample until the mean reward's interval is at most ±targetHalfWidth wide, or until
+// maxEpisodes have run
+export type AdaptiveStopping = {
+  targetHalfWidth: number;
+  maxEpisodes: number;
+  batchSize?: number; // episodes between checks
+};
+
 export type MonteCarloSummary = {
   episodes: number;
+  maxSteps?: number; // the step limit episodes ran under; absent in older summaries
+  policy?: { kind: SimulationPolicy["kind"]; label: string }; // absent in summaries saved before policies were selectable
   avgTotalReward: number;
-  terminalDist: Record<string, number>;
+  rewardPerStep?: number; // undiscounted reward over all steps taken; estimates the gain. Absent in older summaries
+  terminalDist: Record<string, number>; // episodes absorbed in each terminal state
+  truncatedEpisodes: number; // episodes that hit maxSteps before reaching a terminal
   avgSteps: number;
   visitCounts: Record<string, number>;
   rewards: number[];
@@ -23,15 +86,21 @@ export type MonteCarloSummary = {
     avgPathLength: number;
     mostCommonPaths: Array<{ path: string; count: number }>;
   };
+  intervals?: MonteCarloIntervals; // absent in older summaries
+  stopping?: { targetHalfWidth: number; maxEpisodes: number; reached: boolean }; // set by adaptive runs
 };
 
+export const CONFIDENCE_LEVEL = 0.95;
+const BOOTSTRAP_WORK = 2e7; // resamples × episodes
+
 function sampleNext(
-  transitions: { nextState: string; probability: number; reward?: number }[]
+  transitions: { nextState: string; probability: number; reward?: number }[],
+  rng: RNG
 ) {
   if (transitions.length === 0) {
     throw new Error("No transitions available");
   }
-  const r = Math.random();
+  const r = rng();
   let acc = 0;
   for (const t of transitions) {
     acc += t.probability;
@@ -40,13 +109,132 @@ function sampleNext(
   return transitions[transitions.length - 1];
 }
 
+function pickWeighted(weights: Array<[string, number]>, rng: RNG): string {
+  const total = weights.reduce((acc, [, w]) => acc + w, 0);
+  const r = rng() * total;
+  let acc = 0;
+  for (const [action, w] of weights) {
+    acc += w;
+    if (r < acc) return action;
+  }
+  return weights[weights.length - 1][0];
+}
+
+function greedyAction(q: Record<string, number> | undefined, available: string[]): string {
+  return available.reduce((best, a) => ((q?.[a] ?? 0) > (q?.[best] ?? 0) ? a : best));
+}
+
+// Action for `state` under `policy`. States the policy says nothing usable about
+// fall back to a uniformly random available action.
+export function chooseAction(policy: SimulationPolicy, state: string, available: string[], rng: RNG, step = 0): string {
+  const uniform = () => available[Math.floor(rng() * available.length)];
+  switch (policy.kind) {
+    case "random":
+      return uniform();
+    case "deterministic": {
+      const action = policy.policy[state];
+      return action !== undefined && available.includes(action) ? action : uniform();
+    }
+    case "time-indexed": {
+      const action = policy.policies[Math.min(step, policy.policies.length - 1)]?.[state];
+      return action !== undefined && available.includes(action) ? action : uniform();
+    }
+    case "stochastic": {
+      const weights = available
+        .map((a): [string, number] => [a, policy.probabilities[state]?.[a] ?? 0])
+        .filter(([, p]) => p > 0);
+      return weights.length > 0 ? pickWeighted(weights, rng) : uniform();
+    }
+    case "epsilon-greedy":
+      return rng() < policy.epsilon ? uniform() : greedyAction(policy.qTable[state], available);
+    case "softmax": {
+      const q = policy.qTable[state];
+      const temperature = Math.max(policy.temperature, 1e-6);
+      // Shift by the maximum so large Q-values do not overflow
+      const max = Math.max(...available.map(a => q?.[a] ?? 0));
+      return pickWeighted(available.map(a => [a, Math.exp(((q?.[a] ?? 0) - max) / temperature)]), rng);
+    }
+  }
+}
+
+// The distribution chooseAction samples from at `step`, as action -> probability
+export function actionProbabilities(policy: SimulationPolicy, state: string, available: string[], step = 0): Record<string, number> {
+  const uniform = () => Object.fromEntries(available.map(a => [a, 1 / available.length]));
+  const normalized = (weights: Array<[string, number]>) => {
+    const total = weights.reduce((acc, [, w]) => acc + w, 0);
+    return Object.fromEntries(weights.map(([a, w]) => [a, w / total]));
+  };
+  switch (policy.kind) {
+    case "random":
+      return uniform();
+    case "deterministic": {
+      const action = policy.policy[state];
+      return action !== undefined && available.includes(action) ? { [action]: 1 } : uniform();
+    }
+    case "time-indexed": {
+      const action = policy.policies[Math.min(step, policy.policies.length - 1)]?.[state];
+      return action !== undefined && available.includes(action) ? { [action]: 1 } : uniform();
+    }
+    case "stochastic": {
+      const weights = available
+        .map((a): [string, number] => [a, policy.probabilities[state]?.[a] ?? 0])
+        .filter(([, p]) => p > 0);
+      return weights.length > 0 ? normalized(weights) : uniform();
+    }
+    case "epsilon-greedy": {
+      const probabilities = Object.fromEntries(available.map(a => [a, policy.epsilon / available.length]));
+      const greedy = greedyAction(policy.qTable[state], available);
+      probabilities[greedy] += 1 - policy.epsilon;
+      return probabilities;
+    }
+    case "softmax": {
+      const q = policy.qTable[state];
+      const temperature = Math.max(policy.temperature, 1e-6);
+      const max = Math.max(...available.map(a => q?.[a] ?? 0));
+      return normalized(available.map(a => [a, Math.exp(((q?.[a] ?? 0) - max) / temperature)]));
+    }
+  }
+}
+
+// actionProbabilities for every state that has actions, as a StochasticPolicy
+export function policyDistribution(mdp: MDP, policy: SimulationPolicy, step = 0): StochasticPolicy {
+  mdp = normalizeMdp(mdp);
+  const distribution: StochasticPolicy = {};
+  for (const state of mdp.states) {
+    const available = actionsFromState(mdp, state);
+    if (available.length > 0) distribution[state] = actionProbabilities(policy, state, available, step);
+  }
+  return distribution;
+}
+
+// Draw a start state from the MDP's initial distribution, or use `startState` when it has none
+export function sampleStartState(mdp: MDP, startState: string, rng: RNG): string {
+  if (!mdp.initialDistribution) return startState;
+  const starts = initialStates(mdp, startState);
+  if (starts.length === 1) return starts[0].state;
+  const r = rng();
+  let acc = 0;
+  for (const { state, probability } of starts) {
+    acc += probability;
+    if (r <= acc) return state;
+  }
+  return starts[starts.length - 1].state;
+}
+
+// Actions draw from `actionRng` when one is given, so policies replaying the same
+// transition stream are not thrown out of step by how many draws their choices take
 export function simulateEpisode(
   mdp: MDP,
   startState: string,
-  maxSteps = 100
+  maxSteps = 100,
+  rng: RNG = Math.random,
+  policy: SimulationPolicy = randomPolicy,
+  actionRng: RNG = rng
 ): EpisodeResult {
-  let s = startState;
+  mdp = normalizeMdp(mdp);
+  let s = sampleStartState(mdp, startState, rng);
   let rewardSum = 0;
+  let undiscounted = 0;
   const visited: Record<string, number> = {};
   const path: string[] = [s];
   const actions: string[] = [];
@@ -58,52 +246,161 @@ export function simulateEpisode(
 
     const availableActions = actionsFromState(mdp, s);
     if (availableActions.length === 0) {
-      return { totalReward: rewardSum, steps: step, terminal: s, visited, path, actions };
+      return { totalReward: rewardSum, undiscountedReward: undiscounted, steps: step, terminal: s, terminated: true, visited, path, actions };
     }
     
-    const a = availableActions[Math.floor(Math.random() * availableActions.length)];
+    const a = chooseAction(policy, s, availableActions, actionRng, step);
     const transitions = transitionsFor(mdp, s, a);
     
     if (transitions.length === 0) {
-      return { totalReward: rewardSum, steps: step, terminal: s, visited, path, actions };
+      return { totalReward: rewardSum, undiscountedReward: undiscounted, steps: step, terminal: s, terminated: true, visited, path, actions };
     }
     
-    const t = sampleNext(transitions);
+    const t = sampleNext(transitions, rng);
 
     rewardSum += discount * (t.reward ?? 0);
+    undiscounted += t.reward ?? 0;
     discount *= gamma;
     s = t.nextState;
     path.push(s);
     actions.push(a);
   }
 
-  return { totalReward: rewardSum, steps: maxSteps, terminal: s, visited, path, actions };
+  // The last move may have landed in a terminal state
+  const terminated = actionsFromState(mdp, s).length === 0;
+  if (terminated) visited[s] = (visited[s] ?? 0) + 1;
+  return { totalReward: rewardSum, undiscountedReward: undiscounted, steps: maxSteps, terminal: s, terminated, visited, path, actions };
+}
+
+// Standard error of the mean of `values`, from the sample variance
+function standardError(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return NaN;
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1) / n);
+}
+
+// Percentile bootstrap intervals for the mean reward, the mean steps and the share of
+// each terminal. Every resample draws one set of episodes and reuses it for all of
+// them; fewer resamples are drawn for long runs to bound the work.
+function bootstrapIntervals(
+  rewards: number[],
+  steps: number[],
+  outcomes: Array<string | null>, // the terminal each episode ended in, null if cut off
+  terminals: Record<string, number>,
+  rng: RNG
+): MonteCarloIntervals {
+  const n = rewards.length;
+  const resamples = Math.max(200, Math.min(1000, Math.floor(BOOTSTRAP_WORK / n)));
+  const names = Object.keys(terminals);
+  const index = new Map(names.map((name, k) => [name, k]));
+  const outcomeIndex = outcomes.map(outcome => (outcome === null ? -1 : index.get(outcome) ?? -1));
+  const rewardMeans = new Float64Array(resamples);
+  const stepMeans = new Float64Array(resamples);
+  const shares = names.map(() => new Float64Array(resamples));
+
+  for (let b = 0; b < resamples; b++) {
+    let rewardSum = 0;
+    let stepSum = 0;
+    const counts = new Array<number>(names.length).fill(0);
+    for (let i = 0; i < n; i++) {
+      const j = Math.floor(rng() * n);
+      rewardSum += rewards[j];
+      stepSum += steps[j];
+      if (outcomeIndex[j] >= 0) counts[outcomeIndex[j]]++;
+    }
+    rewardMeans[b] = rewardSum / n;
+    stepMeans[b] = stepSum / n;
+    counts.forEach((count, k) => { shares[k][b] = count / n; });
+  }
+
+  const tail = (1 - CONFIDENCE_LEVEL) / 2;
+  const interval = (estimate: number, error: number, replicates: Float64Array): ConfidenceInterval => {
+    replicates.sort();
+    return { estimate, standardError: error, lower: quantile(replicates, tail), upper: quantile(replicates, 1 - tail) };
+  };
+  return {
+    level: CONFIDENCE_LEVEL,
+    resamples,
+    totalReward: interval(rewards.reduce((a, b) => a + b, 0) / n, standardError(rewards), rewardMeans),
+    steps: interval(steps.reduce((a, b) => a + b, 0) / n, standardError(steps), stepMeans),
+    terminal: Object.fromEntries(names.map((name, k) => {
+      const share = terminals[name] / n;
+      return [name, interval(share, Math.sqrt((share * (1 - share)) / n), shares[k])];
+    })),
+  };
 }
 
 export function runMonteCarlo(
   mdp: MDP,
   startState: string,
   episodes = 1000,
-  maxSteps = 100
+  maxSteps = 100,
+  rng: RNG = Math.random,
+  policy: SimulationPolicy = randomPolicy
 ): MonteCarloSummary {
+  return sampleEpisodes(mdp, startState, maxSteps, rng, policy, done => done < episodes);
+}
+
+// Sample in batches until the normal-approximation interval of the mean reward is
+// within ±targetHalfWidth or the budget is spent. The check is cheap enough to run
+// after every batch; the reported intervals are bootstrapped as usual.
+export function runMonteCarloAdaptive(
+  mdp: MDP,
+  startState: string,
+  stopping: AdaptiveStopping,
+  maxSteps = 100,
+  rng: RNG = Math.random,
+  policy: SimulationPolicy = randomPolicy
+): MonteCarloSummary {
+  const { targetHalfWidth, maxEpisodes, batchSize = 100 } = stopping;
+  const z = normalQuantile(1 - (1 - CONFIDENCE_LEVEL) / 2);
+  const halfWidth = (rewards: number[]) => z * standardError(rewards);
+  const summary = sampleEpisodes(mdp, startState, maxSteps, rng, policy, (done, rewards) =>
+    done < maxEpisodes && (done < batchSize || done % batchSize !== 0 || !(halfWidth(rewards) <= targetHalfWidth))
+  );
+  return { ...summary, stopping: { targetHalfWidth, maxEpisodes, reached: halfWidth(summary.rewards) <= targetHalfWidth } };
+}
+
+// Run episodes while `more` allows, then summarise them
+function sampleEpisodes(
+  mdp: MDP,
+  startState: string,
+  maxSteps: number,
+  rng: RNG,
+  policy: SimulationPolicy,
+  more: (done: number, rewards: number[]) => boolean
+): MonteCarloSummary {
+  mdp = normalizeMdp(mdp);
   let rewardAcc = 0;
+  let undiscountedAcc = 0;
+  let truncated = 0;
   let stepAcc = 0;
   const terminals: Record<string, number> = {};
   const visits: Record<string, number> = {};
   const rewards: number[] = [];
+  const steps: number[] = [];
+  const outcomes: Array<string | null> = [];
   const transitionCounts: Record<string, number> = {};
   const actionCounts: Record<string, number> = {};
   const pathLengths: number[] = [];
   const pathCounts: Record<string, number> = {};
 
-  for (let i = 0; i < episodes; i++) {
-    const res = simulateEpisode(mdp, startState, maxSteps);
+  while (more(rewards.length, rewards)) {
+    const res = simulateEpisode(mdp, startState, maxSteps, rng, policy);
     rewards.push(res.totalReward);
+    steps.push(res.steps);
+    outcomes.push(res.terminated ? res.terminal : null);
     rewardAcc += res.totalReward;
+    undiscountedAcc += res.undiscountedReward;
     stepAcc += res.steps;
     pathLengths.push(res.path.length);
     
-    terminals[res.terminal] = (terminals[res.terminal] ?? 0) + 1;
+    if (res.terminated) {
+      terminals[res.terminal] = (terminals[res.terminal] ?? 0) + 1;
+    } else {
+      truncated++;
+    }
     
     // Count visits
     for (const [st, c] of Object.entries(res.visited)) {
@@ -133,10 +430,15 @@ export function runMonteCarlo(
     .slice(0, 5)
     .map(([path, count]) => ({ path, count }));
 
+  const episodes = rewards.length;
   return {
     episodes,
+    maxSteps,
+    policy: { kind: policy.kind, label: describePolicy(policy) },
     avgTotalReward: rewardAcc / episodes,
+    rewardPerStep: stepAcc > 0 ? undiscountedAcc / stepAcc : 0,
     terminalDist: terminals,
+    truncatedEpisodes: truncated,
     avgSteps: stepAcc / episodes,
     visitCounts: visits,
     rewards,
@@ -146,5 +448,6 @@ export function runMonteCarlo(
       avgPathLength: pathLengths.reduce((a, b) => a + b, 0) / pathLengths.length,
       mostCommonPaths: sortedPaths,
     },
+    intervals: episodes > 0 ? bootstrapIntervals(rewards, steps, outcomes, terminals, rng) : undefined,
   };
 }
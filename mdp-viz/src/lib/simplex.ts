@@ -0,0 +1,183 @@
+// Dense two-phase simplex for small linear programs; all variables are >= 0
+
+export type ConstraintRelation = "<=" | ">=" | "=";
+
+export interface LinearConstraint {
+  coefficients: number[]; // one per variable
+  relation: ConstraintRelation;
+  rhs: number;
+}
+
+export interface LinearProgram {
+  sense: "max" | "min";
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export interface LinearProgramSolution {
+  status: "optimal" | "infeasible" | "unbounded";
+  values: number[];
+  objective: number;
+  duals: number[]; // shadow price of each constraint: objective change per unit increase of its rhs
+  pivots: number;
+  objectiveHistory: number[]; // objective after each phase-two pivot
+}
+
+const TOLERANCE = 1e-9;
+
+interface Tableau {
+  rows: number[][]; // constraint rows, rhs in the last column
+  basis: number[]; // basic column of each row
+}
+
+function pivot({ rows, basis }: Tableau, row: number, column: number) {
+  const pivotRow = rows[row];
+  const scale = pivotRow[column];
+  for (let k = 0; k < pivotRow.length; k++) pivotRow[k] /= scale;
+  for (let i = 0; i < rows.length; i++) {
+    if (i === row) continue;
+    const factor = rows[i][column];
+    if (Math.abs(factor) < TOLERANCE) continue;
+    for (let k = 0; k < pivotRow.length; k++) rows[i][k] -= factor * pivotRow[k];
+  }
+  basis[row] = column;
+}
+
+function objectiveValue({ rows, basis }: Tableau, cost: number[]): number {
+  return basis.reduce((acc, column, i) => acc + cost[column] * rows[i][rows[i].length - 1], 0);
+}
+
+// Maximises cost·x from a canonical tableau, using Bland's rule so degenerate
+// problems cannot cycle. Columns at or beyond `columnLimit` never enter.
+function maximize(
+  tableau: Tableau,
+  cost: number[],
+  columnLimit: number,
+  maxPivots: number,
+  history?: number[]
+): { status: "optimal" | "unbounded"; pivots: number } {
+  const { rows, basis } = tableau;
+  for (let pivots = 0; pivots < maxPivots; pivots++) {
+    let entering = -1;
+    for (let j = 0; j < columnLimit; j++) {
+      const reduced = rows.reduce((acc, row, i) => acc - cost[basis[i]] * row[j], cost[j]);
+      if (reduced > TOLERANCE) {
+        entering = j;
+        break;
+      }
+    }
+    if (entering === -1) return { status: "optimal", pivots };
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < rows.length; i++) {
+      const a = rows[i][entering];
+      if (a <= TOLERANCE) continue;
+      const ratio = rows[i][rows[i].length - 1] / a;
+      if (ratio < bestRatio - TOLERANCE || (Math.abs(ratio - bestRatio) <= TOLERANCE && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving === -1) return { status: "unbounded", pivots };
+
+    pivot(tableau, leaving, entering);
+    history?.push(objectiveValue(tableau, cost));
+  }
+  throw new Error(`Simplex did not finish within ${maxPivots} pivots`);
+}
+
+export function solveLinearProgram(
+  program: LinearProgram,
+  { maxPivots = 50_000 }: { maxPivots?: number } = {}
+): LinearProgramSolution {
+  const n = program.objective.length;
+  // Keep every right-hand side non-negative
+  const constraints = program.constraints.map(c =>
+    c.rhs < 0
+      ? {
+          coefficients: c.coefficients.map(v => -v),
+          relation: (c.relation === "<=" ? ">=" : c.relation === ">=" ? "<=" : "=") as ConstraintRelation,
+          rhs: -c.rhs,
+        }
+      : c
+  );
+
+  // Columns: variables, then one slack or surplus per inequality, then artificials
+  const inequalities = constraints.filter(c => c.relation !== "=").length;
+  const artificials = constraints.filter(c => c.relation !== "<=").length;
+  const width = n + inequalities + artificials;
+  const artificialStart = n + inequalities;
+
+  const tableau: Tableau = { rows: [], basis: [] };
+  // The column that started as the identity for each constraint holds B⁻¹ at the end
+  const identityColumns: number[] = [];
+  let slack = n;
+  let artificial = artificialStart;
+  for (const c of constraints) {
+    const row = new Array<number>(width + 1).fill(0);
+    c.coefficients.forEach((v, j) => { row[j] = v; });
+    row[width] = c.rhs;
+    if (c.relation === "<=") {
+      row[slack] = 1;
+      identityColumns.push(slack);
+      tableau.basis.push(slack++);
+    } else {
+      if (c.relation === ">=") row[slack++] = -1;
+      row[artificial] = 1;
+      identityColumns.push(artificial);
+      tableau.basis.push(artificial++);
+    }
+    tableau.rows.push(row);
+  }
+
+  // Phase one: drive the artificials to zero
+  let pivots = 0;
+  if (artificials > 0) {
+    const phaseOneCost = Array.from({ length: width }, (_, j) => (j >= artificialStart ? -1 : 0));
+    pivots += maximize(tableau, phaseOneCost, width, maxPivots).pivots;
+    if (objectiveValue(tableau, phaseOneCost) < -1e-7) {
+      return { status: "infeasible", values: [], objective: NaN, duals: [], pivots, objectiveHistory: [] };
+    }
+    // Pivot artificials still basic at zero out of the basis; rows where that is
+    // impossible are redundant and dropped
+    for (let i = tableau.rows.length - 1; i >= 0; i--) {
+      if (tableau.basis[i] < artificialStart) continue;
+      const column = tableau.rows[i].findIndex((v, j) => j < artificialStart && Math.abs(v) > TOLERANCE);
+      if (column === -1) {
+        tableau.rows.splice(i, 1);
+        tableau.basis.splice(i, 1);
+      } else {
+        pivot(tableau, i, column);
+      }
+    }
+  }
+
+  // Phase two: the real objective
+  const sign = program.sense === "max" ? 1 : -1;
+  const cost = Array.from({ length: width }, (_, j) => (j < n ? sign * program.objective[j] : 0));
+  const objectiveHistory: number[] = [];
+  const phaseTwo = maximize(tableau, cost, artificialStart, maxPivots - pivots, objectiveHistory);
+  pivots += phaseTwo.pivots;
+  if (phaseTwo.status === "unbounded") {
+    return { status: "unbounded", values: [], objective: sign * Infinity, duals: [], pivots, objectiveHistory: [] };
+  }
+
+  const values = new Array<number>(n).fill(0);
+  tableau.basis.forEach((column, i) => {
+    if (column < n) values[column] = tableau.rows[i][width];
+  });
+  // y = c_B B⁻¹, undoing the sign flips applied to the objective and to rows
+  const duals = identityColumns.map((column, i) => {
+    const y = tableau.basis.reduce((acc, basic, r) => acc + cost[basic] * tableau.rows[r][column], 0);
+    return sign * (program.constraints[i].rhs < 0 ? -y : y);
+  });
+  return {
+    status: "optimal",
+    values,
+    objective: sign * objectiveValue(tableau, cost),
+    duals,
+    pivots,
+    objectiveHistory: objectiveHistory.map(v => sign * v),
+  };
+}
@@ -0,0 +1,119 @@
+// Distribution functions and interval helpers for the tests on sampled results
+
+// log Γ(x) by the Lanczos approximation (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  x -= 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Regularized upper incomplete gamma Q(a, x) = Γ(a, x) / Γ(a): a series below a + 1,
+// a continued fraction above it
+export function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x === Infinity) return 0;
+  const prefix = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(prefix));
+  }
+  // Modified Lentz evaluation of the continued fraction
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 1000; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const step = d * c;
+    h *= step;
+    if (Math.abs(step - 1) < 1e-15) break;
+  }
+  return Math.min(1, Math.exp(prefix) * h);
+}
+
+// P(χ²_dof > x)
+export function chiSquareSurvival(x: number, dof: number): number {
+  return dof > 0 ? gammaQ(dof / 2, x / 2) : NaN;
+}
+
+// P(K > λ) for the Kolmogorov distribution, the limit of √n·D under the null
+export function kolmogorovSurvival(lambda: number): number {
+  if (lambda <= 0) return 1;
+  if (lambda < 0.2) return 1; // the series converges slowly here and the sum is 1 to machine precision
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-12) break;
+  }
+  return Math.min(1, Math.max(0, sum));
+}
+
+// P(|Z| > |z|) for a standard normal Z; Z²/2 is Gamma(1/2)-distributed
+export function twoSidedNormalPValue(z: number): number {
+  return Number.isNaN(z) ? NaN : gammaQ(0.5, (z * z) / 2);
+}
+
+// Standard normal quantile Φ⁻¹(p), by Acklam's rational approximation (relative error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? x : -x;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// The q-quantile of ascending `sorted` values, interpolating between order statistics
+export function quantile(sorted: ArrayLike<number>, q: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = Math.min(1, Math.max(0, q)) * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+// An estimate with its standard error and a confidence interval around it
+export interface ConfidenceInterval {
+  estimate: number;
+  standardError: number;
+  lower: number;
+  upper: number;
+}
+
+// Normal-approximation interval estimate ± z·SE at confidence `level`
+export function normalInterval(estimate: number, standardError: number, level = 0.95): ConfidenceInterval {
+  const halfWidth = normalQuantile(1 - (1 - level) / 2) * standardError;
+  return { estimate, standardError, lower: estimate - halfWidth, upper: estimate + halfWidth };
+}
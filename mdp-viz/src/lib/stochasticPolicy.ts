@@ -0,0 +1,58 @@
+// A policy that may randomise: state -> action -> probability. States that are
+// missing (or map to no actions) are left to the caller, like missing entries of a
+// deterministic state -> action map.
+export type StochasticPolicy = Record<string, Record<string, number>>;
+
+// Either form of stationary policy
+export type Policy = Record<string, string> | StochasticPolicy;
+
+export function isStochasticPolicy(policy: Policy): policy is StochasticPolicy {
+  return Object.values(policy).some(entry => typeof entry === "object");
+}
+
+export function toStochasticPolicy(policy: Policy): StochasticPolicy {
+  if (isStochasticPolicy(policy)) return policy;
+  return Object.fromEntries(Object.entries(policy).map(([state, action]) => [state, { [action]: 1 }]));
+}
+
+// Uniform over each state's set of equally good actions
+export function tieSetPolicy(optimalActions: Record<string, string[]>): StochasticPolicy {
+  return Object.fromEntries(
+    Object.entries(optimalActions)
+      .filter(([, actions]) => actions.length > 0)
+      .map(([state, actions]) => [state, Object.fromEntries(actions.map(a => [a, 1 / actions.length]))])
+  );
+}
+
+// Actions with positive probability in `state`, most likely first
+export function actionDistribution(policy: Policy, state: string): Array<[string, number]> {
+  const entry = policy[state];
+  if (entry === undefined) return [];
+  if (typeof entry === "string") return [[entry, 1]];
+  return Object.entries(entry)
+    .filter(([, p]) => p > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
+
+export function mostLikelyAction(policy: Policy, state: string): string | undefined {
+  return actionDistribution(policy, state)[0]?.[0];
+}
+
+// Total variation distance between the action distributions two policies use in `state`
+export function policyDistance(a: Policy, b: Policy, state: string): number {
+  const pa = Object.fromEntries(actionDistribution(a, state));
+  const pb = Object.fromEntries(actionDistribution(b, state));
+  const actions = new Set([...Object.keys(pa), ...Object.keys(pb)]);
+  let distance = 0;
+  for (const action of actions) distance += Math.abs((pa[action] ?? 0) - (pb[action] ?? 0));
+  return distance / 2;
+}
+
+// "a" for a sure action, otherwise "a 70.0%, b 30.0%"
+export function formatActionDistribution(policy: Policy, state: string): string {
+  const entries = actionDistribution(policy, state);
+  if (entries.length === 0) return "—";
+  return entries
+    .map(([action, p]) => (p > 1 - 1e-9 ? action : `${action} ${(p * 100).toFixed(1)}%`))
+    .join(", ");
+}
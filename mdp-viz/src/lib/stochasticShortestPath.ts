@@ -0,0 +1,353 @@
+import type { MDP } from "@/types/mdp";
+import { actionsFromState, initialStates, normalizeMdp, transitionsFor } from "@/types/mdp";
+import { stronglyConnectedComponents } from "@/lib/markovChain";
+import { evaluatePolicyExact } from "@/lib/policyEvaluation";
+import type { OptimizationCallback, OptimizationConfig, OptimizationResult } from "@/lib/optimizer";
+
+// A set of non-goal states that some policy can keep the agent in forever,
+// together with the actions that stay inside it
+export interface EndComponent {
+  states: string[];
+  actions: Record<string, string[]>;
+  rewardActions: string[]; // `${state}|${action}` pairs with positive expected reward
+}
+
+export interface SspDiagnostics {
+  goals: string[]; // states without actions, where episodes end
+  deadEnds: string[]; // no policy can reach a goal from here
+  trapped: string[]; // a goal is reachable, but every policy risks never getting there
+  properStates: string[]; // some policy reaches a goal with probability 1 from here
+  rewardCycles: EndComponent[]; // repeating these earns unbounded undiscounted reward
+  zeroCostCycles: EndComponent[]; // these can be repeated forever at no cost
+  unbounded: string[]; // states that can reach a reward cycle, whose return is unbounded
+  messages: string[]; // plain-language explanation of anything above that prevents a finite solution
+}
+
+export interface StochasticShortestPathResult extends OptimizationResult {
+  // Minimal expected cost (negated reward) to reach a goal. Infinity where no policy
+  // reaches a goal with probability 1, -Infinity where the return is unbounded
+  costToGoal: Record<string, number>;
+  startHasFiniteSolution: boolean;
+  properPolicy: boolean; // the returned policy reaches a goal with probability 1 wherever costs are finite
+  diagnostics: SspDiagnostics;
+}
+
+const REWARD_EPSILON = 1e-12;
+
+function listStates(states: string[]) {
+  return states.length <= 6 ? states.join(", ") : `${states.slice(0, 6).join(", ")} and ${states.length - 6} more`;
+}
+
+// States that can reach `targets` using only the given actions, by backward search
+function canReach(
+  mdp: MDP,
+  targets: Set<string>,
+  allowed: (state: string) => string[]
+): Set<string> {
+  const reached = new Set(targets);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const state of mdp.states) {
+      if (reached.has(state)) continue;
+      const hits = allowed(state).some(action =>
+        transitionsFor(mdp, state, action).some(t => t.probability > 0 && reached.has(t.nextState))
+      );
+      if (hits) {
+        reached.add(state);
+        grew = true;
+      }
+    }
+  }
+  return reached;
+}
+
+const successorsOf = (mdp: MDP, state: string, action: string) =>
+  transitionsFor(mdp, state, action).filter(t => t.probability > 0).map(t => t.nextState);
+
+// States from which a goal is reached with probability 1 under some policy: repeatedly
+// drop states that cannot reach a goal using actions that never leave the candidate set
+function almostSureReach(mdp: MDP, goals: Set<string>): Set<string> {
+  let candidates = new Set(mdp.states);
+  for (;;) {
+    const inside = (state: string) =>
+      actionsFromState(mdp, state).filter(action => successorsOf(mdp, state, action).every(next => candidates.has(next)));
+    const next = canReach(mdp, goals, inside);
+    if (next.size === candidates.size) return candidates;
+    candidates = next;
+  }
+}
+
+// Maximal end components of the non-goal states in `region`, restricted to `allowed` actions
+function endComponents(
+  mdp: MDP,
+  region: Set<string>,
+  allowed: (state: string) => string[]
+): EndComponent[] {
+  const states = [...region];
+  const index = new Map(states.map((state, i) => [state, i]));
+  const actions = states.map(state => allowed(state));
+  for (;;) {
+    const successors = states.map((state, i) =>
+      [...new Set(actions[i].flatMap(action => successorsOf(mdp, state, action)))].flatMap(next => {
+        const j = index.get(next);
+        return j === undefined ? [] : [j];
+      })
+    );
+    const componentOf = new Array<number>(states.length);
+    stronglyConnectedComponents(successors).forEach((members, c) => members.forEach(i => { componentOf[i] = c; }));
+    let changed = false;
+    states.forEach((state, i) => {
+      const kept = actions[i].filter(action =>
+        successorsOf(mdp, state, action).every(next => index.has(next) && componentOf[index.get(next)!] === componentOf[i])
+      );
+      if (kept.length !== actions[i].length) {
+        actions[i] = kept;
+        changed = true;
+      }
+      if (kept.length === 0 && index.has(state)) {
+        index.delete(state);
+        changed = true;
+      }
+    });
+    if (!changed) {
+      const groups = new Map<number, number[]>();
+      states.forEach((_, i) => {
+        if (index.has(states[i])) groups.set(componentOf[i], [...(groups.get(componentOf[i]) ?? []), i]);
+      });
+      return [...groups.values()].map(members => ({
+        states: members.map(i => states[i]),
+        actions: Object.fromEntries(members.map(i => [states[i], actions[i]])),
+        rewardActions: members.flatMap(i => actions[i]
+          .filter(action => expectedReward(mdp, states[i], action) > REWARD_EPSILON)
+          .map(action => `${states[i]}|${action}`)),
+      }));
+    }
+  }
+}
+
+function expectedReward(mdp: MDP, state: string, action: string) {
+  return transitionsFor(mdp, state, action).reduce((acc, t) => acc + t.probability * (t.reward ?? 0), 0);
+}
+
+// A proper policy on `region`: each state takes an allowed action that can move it one
+// level closer to the goals, where a state's level is its fewest steps to a goal that way
+function towardsGoals(
+  mdp: MDP,
+  goals: Set<string>,
+  region: Set<string>,
+  allowed: (state: string) => string[]
+): { policy: Record<string, string>; level: Map<string, number> } {
+  const level = new Map<string, number>([...goals].map(goal => [goal, 0]));
+  const policy: Record<string, string> = {};
+  for (let depth = 1; level.size < goals.size + region.size; depth++) {
+    const layer: Array<[string, string]> = [];
+    for (const state of region) {
+      if (level.has(state)) continue;
+      const action = allowed(state).find(a =>
+        successorsOf(mdp, state, a).some(next => level.has(next) && level.get(next)! < depth)
+      );
+      if (action) layer.push([state, action]);
+    }
+    if (layer.length === 0) break;
+    for (const [state, action] of layer) {
+      level.set(state, depth);
+      policy[state] = action;
+    }
+  }
+  return { policy, level };
+}
+
+// A deterministic policy that reaches a goal with probability 1 from every state where
+// some policy does. Other non-goal states are left out.
+export function properPolicy(mdp: MDP): Record<string, string> {
+  mdp = normalizeMdp(mdp);
+  const goals = new Set(mdp.states.filter(state => actionsFromState(mdp, state).length === 0));
+  const proper = almostSureReach(mdp, goals);
+  const region = new Set([...proper].filter(state => !goals.has(state)));
+  return towardsGoals(mdp, goals, region, state =>
+    actionsFromState(mdp, state).filter(action => successorsOf(mdp, state, action).every(next => proper.has(next)))
+  ).policy;
+}
+
+// The transitions of the actions a deterministic policy takes, and no others
+function policyTransitions(mdp: MDP, policy: Record<string, string>): MDP["transitions"] {
+  return Object.fromEntries(Object.entries(policy).map(([state, action]) => {
+    const key = `${state}|${action}`;
+    return [key, mdp.transitions[key] ?? []];
+  }));
+}
+
+// States from which a deterministic policy fails to reach a goal (a state without
+// actions) with probability 1. States the policy does not cover count as stuck.
+export function improperStates(mdp: MDP, policy: Record<string, string>): string[] {
+  mdp = normalizeMdp(mdp);
+  const goals = new Set(mdp.states.filter(state => actionsFromState(mdp, state).length === 0));
+  // With one action per state this leaves the states whose every reachable state can still reach a goal
+  const sure = almostSureReach({ ...mdp, transitions: policyTransitions(mdp, policy) }, goals);
+  return mdp.states.filter(state => !goals.has(state) && !sure.has(state));
+}
+
+// Undiscounted planning (γ = 1) towards the MDP's goal states, which are the states
+// without actions. Costs are negated rewards. Before solving, the model is checked
+// for what makes an undiscounted problem ill-posed: states with no proper policy
+// and cycles that can be repeated forever for reward. Values are then found by value
+// iteration started from a proper policy's value, which converges even when
+// zero-cost cycles make some improper policies as cheap as the best proper one.
+export function stochasticShortestPath(
+  mdp: MDP,
+  startState: string,
+  config: OptimizationConfig = {},
+  _callback?: OptimizationCallback
+): StochasticShortestPathResult {
+  mdp = normalizeMdp(mdp);
+  const { maxIterations = 1000, tolerance = 1e-6 } = config;
+  const goals = new Set(mdp.states.filter(state => actionsFromState(mdp, state).length === 0));
+  const messages: string[] = [];
+
+  const reachable = canReach(mdp, goals, state => actionsFromState(mdp, state));
+  const proper = almostSureReach(mdp, goals);
+  const deadEnds = mdp.states.filter(state => !reachable.has(state));
+  const trapped = mdp.states.filter(state => reachable.has(state) && !proper.has(state));
+  // Inside the proper region only actions that cannot leave it are safe
+  const safeActions = (state: string) => proper.has(state)
+    ? actionsFromState(mdp, state).filter(action => successorsOf(mdp, state, action).every(next => proper.has(next)))
+    : [];
+
+  const components = endComponents(
+    mdp,
+    new Set([...proper].filter(state => !goals.has(state))),
+    safeActions
+  );
+  const rewardCycles = components.filter(c => c.rewardActions.length > 0);
+  const unboundedSet = canReach(mdp, new Set(rewardCycles.flatMap(c => c.states)), safeActions);
+  const unbounded = [...proper].filter(state => unboundedSet.has(state));
+  const zeroCostCycles = endComponents(
+    mdp,
+    new Set([...proper].filter(state => !goals.has(state) && !unboundedSet.has(state))),
+    state => safeActions(state).filter(action => Math.abs(expectedReward(mdp, state, action)) <= REWARD_EPSILON)
+  );
+
+  if (goals.size === 0) {
+    messages.push(
+      "The model has no terminal states, so there is no goal to reach and every undiscounted return is an infinite sum. " +
+      "Mark goal states as terminal, use a discount γ < 1, or use the average-reward solver."
+    );
+  }
+  if (deadEnds.length > 0 && goals.size > 0) {
+    messages.push(`No policy can reach a terminal state from ${listStates(deadEnds)}, so the cost to reach a goal from there is infinite.`);
+  }
+  if (trapped.length > 0) {
+    messages.push(
+      `From ${listStates(trapped)} a terminal state is reachable, but every policy risks getting stuck where it never reaches one, ` +
+      "so no policy reaches a goal with probability 1 and the expected cost to get there is infinite."
+    );
+  }
+  for (const cycle of rewardCycles) {
+    messages.push(
+      `${listStates(cycle.states)} can be cycled through forever while earning reward (${cycle.rewardActions.join(", ")}). ` +
+      "Without discounting such an improper policy collects unbounded return."
+    );
+  }
+  if (unbounded.length > 0) {
+    messages.push(`There is no finite optimum from ${listStates(unbounded)}, which can reach a reward cycle.`);
+  }
+  if (zeroCostCycles.length > 0) {
+    messages.push(
+      `${listStates(zeroCostCycles.flatMap(c => c.states))} can loop forever at zero cost. The solution below is the best proper policy, ` +
+      "but improper policies that never finish cost no more."
+    );
+  }
+
+  // The finite region: a proper policy exists and no reward cycle can be reached
+  const finite = new Set([...proper].filter(state => !goals.has(state) && !unboundedSet.has(state)));
+  const finiteActions = (state: string) => safeActions(state);
+
+  // A proper policy on the finite region
+  const { policy: properPolicy, level } = towardsGoals(mdp, goals, finite, finiteActions);
+
+  // Value iteration in reward terms, from the proper policy's value upwards. The policy
+  // is evaluated with only its own actions, so the states it leaves out end there.
+  const start = evaluatePolicyExact(
+    { ...mdp, transitions: policyTransitions(mdp, properPolicy) },
+    properPolicy,
+    startState,
+    { gamma: 1 }
+  ).valueFunction;
+  let value: Record<string, number> = Object.fromEntries(mdp.states.map(state => [state, finite.has(state) ? start[state] : 0]));
+  const q = (state: string, action: string) =>
+    transitionsFor(mdp, state, action).reduce((acc, t) => acc + t.probability * ((t.reward ?? 0) + value[t.nextState]), 0);
+  const convergenceHistory: number[] = [];
+  let iterations = 0;
+  while (iterations < maxIterations) {
+    iterations++;
+    const next = { ...value };
+    let delta = 0;
+    for (const state of finite) {
+      next[state] = Math.max(...finiteActions(state).map(action => q(state, action)));
+      delta = Math.max(delta, Math.abs(next[state] - value[state]));
+    }
+    value = next;
+    convergenceHistory.push(delta);
+    if (delta < tolerance) break;
+  }
+
+  // Greedy policy; among near-ties prefer actions that head towards the goals
+  const bestPolicy: Record<string, string> = {};
+  for (const state of finite) {
+    const expectedLevel = (action: string) => transitionsFor(mdp, state, action)
+      .reduce((acc, t) => acc + t.probability * (level.get(t.nextState) ?? Infinity), 0);
+    let best = properPolicy[state];
+    let bestQ = q(state, best);
+    for (const action of finiteActions(state)) {
+      const actionQ = q(state, action);
+      if (actionQ > bestQ + tolerance || (actionQ > bestQ - tolerance && expectedLevel(action) < expectedLevel(best))) {
+        best = action;
+        bestQ = actionQ;
+      }
+    }
+    bestPolicy[state] = best;
+  }
+  const stuck = improperStates(mdp, bestPolicy).filter(state => finite.has(state));
+
+  const costToGoal: Record<string, number> = {};
+  const valueFunction: Record<string, number> = {};
+  for (const state of mdp.states) {
+    const cost = goals.has(state) ? 0 : finite.has(state) ? -value[state] : unboundedSet.has(state) ? -Infinity : Infinity;
+    costToGoal[state] = cost;
+    valueFunction[state] = cost === 0 ? 0 : -cost;
+  }
+  const startHasFiniteSolution = initialStates(mdp, startState)
+    .every(({ state, probability }) => probability === 0 || Number.isFinite(costToGoal[state]));
+
+  _callback?.onProgress?.({
+    iteration: iterations,
+    delta: convergenceHistory[convergenceHistory.length - 1] ?? 0,
+    valueFunction,
+    policy: bestPolicy,
+    method: "Stochastic Shortest Path"
+  });
+
+  const finiteValues = Object.values(valueFunction).filter(Number.isFinite);
+  return {
+    bestPolicy,
+    bestValue: finiteValues.length > 0 ? Math.max(...finiteValues) : 0,
+    iterations,
+    convergenceHistory,
+    policyHistory: [properPolicy, bestPolicy],
+    valueFunction,
+    costToGoal,
+    startHasFiniteSolution,
+    properPolicy: stuck.length === 0,
+    diagnostics: {
+      goals: [...goals],
+      deadEnds,
+      trapped,
+      properStates: [...proper].filter(state => !goals.has(state)),
+      rewardCycles,
+      zeroCostCycles,
+      unbounded,
+      messages,
+    },
+  };
+}
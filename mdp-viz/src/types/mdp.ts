@@ -3,18 +3,45 @@ import { z } from "zod";
 export const transitionSchema = z.object({
   nextState: z.string(),
   probability: z.number().min(0).max(1),
-  reward: z.number().optional(),
+  reward: z.number().optional(), // R(s,a,s')
+  costs: z.record(z.string(), z.number()).optional(), // named cost channels C_k(s,a,s'), e.g. { battery: 1 }
 });
 
+// Expected discounted total of one cost channel must stay within `budget`
+export const constraintSchema = z.object({
+  cost: z.string(),
+  budget: z.number(),
+});
+
+// Transition rows the true model might use in place of the nominal one
+export const uncertaintySetSchema = z.discriminatedUnion("type", [
+  // [lower, upper] probability bounds for each outcome, in the order of the row's transitions
+  z.object({
+    type: z.literal("interval"),
+    bounds: z.array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])),
+  }),
+  // any distribution over the row's outcomes within L1 distance `radius` of the nominal one
+  z.object({ type: z.literal("l1"), radius: z.number().min(0).max(2) }),
+]);
+
 export const mdpSchema = z.object({
   states: z.array(z.string()).min(1),
   actions: z.array(z.string()).min(1),
   transitions: z.record(z.string(), z.array(transitionSchema)), // key: `${state}|${action}`
   gamma: z.number().min(0).max(1).optional(),
+  terminalStates: z.array(z.string()).optional(), // absorbing states that end an episode
+  terminalRewards: z.record(z.string(), z.number()).optional(), // collected on arrival at a terminal state
+  stateRewards: z.record(z.string(), z.number()).optional(), // R(s): earned on every step taken from s
+  actionRewards: z.record(z.string(), z.number()).optional(), // R(s,a), key: `${state}|${action}`
+  initialDistribution: z.record(z.string(), z.number().min(0)).optional(), // state -> probability of starting there
+  constraints: z.array(constraintSchema).optional(), // used by the constrained solver
+  uncertainty: z.record(z.string(), uncertaintySetSchema).optional(), // key: `${state}|${action}`, used by robust planning
 });
 
 export type MDP = z.infer<typeof mdpSchema>;
 export type Transition = z.infer<typeof transitionSchema>;
+export type Constraint = z.infer<typeof constraintSchema>;
+export type UncertaintySet = z.infer<typeof uncertaintySetSchema>;
 
 export function actionsFromState(mdp: MDP, state: string): string[] {
   const set = new Set<string>();
@@ -39,3 +66,214 @@ export function validateTransitionMass(mdp: MDP): string[] {
   }
   return errs;
 }
+
+// Schema-valid MDPs can still point at states or actions they never declare
+export function referenceErrors(mdp: MDP): string[] {
+  const errors: string[] = [];
+  for (const [key, transitions] of Object.entries(mdp.transitions)) {
+    const [state, action] = key.split("|");
+    if (!mdp.states.includes(state)) errors.push(`${key} refers to unknown state "${state}"`);
+    if (!mdp.actions.includes(action)) errors.push(`${key} refers to unknown action "${action}"`);
+    for (const t of transitions) {
+      if (!mdp.states.includes(t.nextState)) errors.push(`${key} leads to unknown state "${t.nextState}"`);
+    }
+  }
+  for (const state of [...(mdp.terminalStates ?? []), ...Object.keys(mdp.terminalRewards ?? {})]) {
+    if (!mdp.states.includes(state)) errors.push(`terminal state "${state}" is not declared`);
+  }
+  for (const state of Object.keys(mdp.stateRewards ?? {})) {
+    if (!mdp.states.includes(state)) errors.push(`stateRewards refers to unknown state "${state}"`);
+  }
+  for (const key of Object.keys(mdp.actionRewards ?? {})) {
+    const [state, action] = key.split("|");
+    if (!mdp.states.includes(state)) errors.push(`actionRewards ${key} refers to unknown state "${state}"`);
+    if (!mdp.actions.includes(action)) errors.push(`actionRewards ${key} refers to unknown action "${action}"`);
+  }
+  const channels = costChannels(mdp);
+  for (const constraint of mdp.constraints ?? []) {
+    if (!channels.includes(constraint.cost)) errors.push(`constraint refers to unknown cost channel "${constraint.cost}"`);
+  }
+  return errors;
+}
+
+// Names of every cost channel used by some transition, in order of first use
+export function costChannels(mdp: MDP): string[] {
+  const channels = new Set<string>();
+  for (const transitions of Object.values(mdp.transitions)) {
+    for (const t of transitions) {
+      Object.keys(t.costs ?? {}).forEach(channel => channels.add(channel));
+    }
+  }
+  return [...channels];
+}
+
+export function validateInitialDistribution(mdp: MDP): string[] {
+  if (!mdp.initialDistribution) return [];
+  const errs: string[] = [];
+  for (const state of Object.keys(mdp.initialDistribution)) {
+    if (!mdp.states.includes(state)) errs.push(`initial distribution refers to unknown state "${state}"`);
+  }
+  const sum = Object.values(mdp.initialDistribution).reduce((acc, p) => acc + p, 0);
+  if (Math.abs(sum - 1) > 1e-6) errs.push(`initial distribution sums to ${sum}`);
+  return errs;
+}
+
+// Uncertainty sets must name an existing row and contain its nominal distribution
+export function validateUncertainty(mdp: MDP): string[] {
+  const errs: string[] = [];
+  for (const [key, set] of Object.entries(mdp.uncertainty ?? {})) {
+    const transitions = mdp.transitions[key] as Transition[] | undefined;
+    if (!transitions) {
+      errs.push(`uncertainty set ${key} has no transitions`);
+      continue;
+    }
+    if (set.type === "l1") continue;
+    if (set.bounds.length !== transitions.length) {
+      errs.push(`uncertainty set ${key} has ${set.bounds.length} intervals for ${transitions.length} transitions`);
+      continue;
+    }
+    set.bounds.forEach(([lower, upper], i) => {
+      const p = transitions[i].probability;
+      if (lower > p + 1e-9 || upper < p - 1e-9) {
+        errs.push(`uncertainty set ${key} interval [${lower}, ${upper}] excludes the nominal probability ${p} of ${transitions[i].nextState}`);
+      }
+    });
+  }
+  return errs;
+}
+
+// Start states with their probabilities; without an initial distribution the
+// single start state is used with certainty
+export function initialStates(mdp: MDP, startState: string): Array<{ state: string; probability: number }> {
+  const entries = Object.entries(mdp.initialDistribution ?? {}).filter(([, p]) => p > 0);
+  if (entries.length === 0) return [{ state: startState, probability: 1 }];
+  const total = entries.reduce((acc, [, p]) => acc + p, 0);
+  return entries.map(([state, p]) => ({ state, probability: p / total }));
+}
+
+// Expected value of a value function over the start states
+export function expectedInitialValue(mdp: MDP, valueFunction: Record<string, number>, startState: string): number {
+  return initialStates(mdp, startState).reduce(
+    (acc, { state, probability }) => acc + probability * (valueFunction[state] ?? 0),
+    0
+  );
+}
+
+// One-step lookahead Q(s,a) = Σ P(s'|s,a)[R(s,a,s') + γV(s')] for every available action
+export function actionValues(
+  mdp: MDP,
+  valueFunction: Record<string, number>,
+  gamma = mdp.gamma ?? 0.9
+): Record<string, Record<string, number>> {
+  mdp = normalizeMdp(mdp);
+  const qTable: Record<string, Record<string, number>> = {};
+  for (const state of mdp.states) {
+    qTable[state] = {};
+    for (const action of actionsFromState(mdp, state)) {
+      qTable[state][action] = transitionsFor(mdp, state, action).reduce(
+        (acc, t) => acc + t.probability * ((t.reward ?? 0) + gamma * (valueFunction[t.nextState] ?? 0)),
+        0
+      );
+    }
+  }
+  return qTable;
+}
+
+// What a solver's value function measures: the discounted return, or for the average-reward
+// criterion the bias h(s) on top of the long-run gain g(s)
+export type ValueCriterion =
+  | { kind: "discounted"; gamma: number }
+  | { kind: "average-reward"; gain: Record<string, number> };
+
+// Q-values of a value function under the criterion it was solved for; with average reward
+// Q(s,a) = Σ P(s'|s,a)[R(s,a,s') + h(s')] − g(s). Biases only rank actions that keep the best
+// reachable gain (up to the solver's precision), so in multichain models actions leading to
+// lower-gain states get −∞.
+export function criterionActionValues(
+  mdp: MDP,
+  valueFunction: Record<string, number>,
+  criterion: ValueCriterion
+): Record<string, Record<string, number>> {
+  if (criterion.kind === "discounted") return actionValues(mdp, valueFunction, criterion.gamma);
+  const { gain } = criterion;
+  const qTable = actionValues(mdp, valueFunction, 1);
+  const normalized = normalizeMdp(mdp);
+  for (const [state, row] of Object.entries(qTable)) {
+    const reachableGain = Object.fromEntries(Object.keys(row).map(action => [
+      action,
+      transitionsFor(normalized, state, action).reduce((acc, t) => acc + t.probability * (gain[t.nextState] ?? 0), 0),
+    ]));
+    const best = Math.max(...Object.values(reachableGain));
+    for (const action of Object.keys(row)) {
+      row[action] = reachableGain[action] < best - 1e-4 * Math.max(1, Math.abs(best))
+        ? -Infinity
+        : row[action] - (gain[state] ?? 0);
+    }
+  }
+  return qTable;
+}
+
+export function isTerminal(mdp: MDP, state: string): boolean {
+  return (mdp.terminalStates?.includes(state) ?? false) || actionsFromState(mdp, state).length === 0;
+}
+
+export function hasTerminalStates(mdp: MDP): boolean {
+  return mdp.states.some(state => isTerminal(mdp, state));
+}
+
+const normalizedCache = new WeakMap<MDP, MDP>();
+
+// Canonical form used by every simulator and learner: terminal states lose their
+// outgoing transitions, and the reward layers R(s), R(s,a) and terminal rewards are
+// folded into each transition's R(s,a,s'). Normalising an already-normalised MDP
+// returns it unchanged.
+export function normalizeMdp(mdp: MDP): MDP {
+  const cached = normalizedCache.get(mdp);
+  if (cached) return cached;
+
+  const terminals = new Set(mdp.terminalStates ?? []);
+  const terminalRewards = mdp.terminalRewards ?? {};
+  const stateRewards = mdp.stateRewards ?? {};
+  const actionRewards = mdp.actionRewards ?? {};
+  const transitions: MDP["transitions"] = {};
+
+  for (const [key, arr] of Object.entries(mdp.transitions)) {
+    const [state] = key.split("|");
+    if (terminals.has(state)) continue;
+    const base = (stateRewards[state] ?? 0) + (actionRewards[key] ?? 0);
+    transitions[key] = (arr as Transition[]).map(t => {
+      const extra = base + (terminalRewards[t.nextState] ?? 0);
+      return extra !== 0 ? { ...t, reward: (t.reward ?? 0) + extra } : t;
+    });
+  }
+
+  const normalized: MDP = {
+    ...mdp,
+    transitions,
+    terminalRewards: undefined,
+    stateRewards: undefined,
+    actionRewards: undefined,
+  };
+  normalizedCache.set(mdp, normalized);
+  normalizedCache.set(normalized, normalized);
+  return normalized;
+}
+
+// Multiply every reward layer by `factor`
+export function scaleRewards(mdp: MDP, factor: number): MDP {
+  const scale = (rewards?: Record<string, number>) =>
+    rewards && Object.fromEntries(Object.entries(rewards).map(([key, r]) => [key, r * factor]));
+
+  return {
+    ...mdp,
+    transitions: Object.fromEntries(
+      Object.entries(mdp.transitions).map(([key, arr]) => [
+        key,
+        (arr as Transition[]).map(t => ({ ...t, reward: (t.reward ?? 0) * factor })),
+      ])
+    ),
+    terminalRewards: scale(mdp.terminalRewards),
+    stateRewards: scale(mdp.stateRewards),
+    actionRewards: scale(mdp.actionRewards),
+  };
+}